@@ -0,0 +1,203 @@
+import fs from "node:fs";
+import path from "node:path";
+import { LokaliseError } from "../errors/LokaliseError.js";
+import type { BundleArchiveParams } from "../interfaces/BundleArchiveParams.js";
+
+/**
+ * Suffix of temporary bundles; archive filenames may never end with it.
+ */
+export const TEMP_ZIP_SUFFIX = ".partial";
+
+const DEFAULT_ARCHIVE_FILENAME = "lokalise-{projectId}-{timestamp}.zip";
+
+/**
+ * Escapes a string for use in a regular expression.
+ *
+ * @param text - The text to escape.
+ * @returns The escaped text.
+ */
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Replaces characters that are unsafe in filenames with `_`.
+ *
+ * @param value - Placeholder value.
+ * @returns The value with only letters, digits, `.`, `_`, and `-`.
+ */
+function sanitizeFilenamePart(value: string): string {
+	return value.replace(/[^\w.-]/g, "_");
+}
+
+/**
+ * Validates bundle archiving settings before anything is downloaded.
+ *
+ * @param archive - Archive directory, filename template, and retention count.
+ * @param projectId - ID of the project the bundles belong to.
+ * @throws {LokaliseError} If the directory is empty, `keep` is not a positive integer, or the filename template is invalid.
+ */
+export function validateArchiveParams(
+	archive: BundleArchiveParams,
+	projectId: string,
+): void {
+	if (typeof archive.dir !== "string" || !archive.dir.trim()) {
+		throw new LokaliseError("archive.dir must be a non-empty path.");
+	}
+
+	if (
+		archive.keep !== undefined &&
+		!(Number.isInteger(archive.keep) && archive.keep > 0)
+	) {
+		throw new LokaliseError("archive.keep must be a positive integer.");
+	}
+
+	buildArchiveFilename(projectId, archive.filename, "process");
+}
+
+/**
+ * Expands the archive filename template.
+ *
+ * Supported placeholders are `{projectId}`, `{timestamp}` (UTC, filename-safe
+ * ISO 8601), and `{processId}` (empty for synchronous downloads). Characters
+ * other than letters, digits, `.`, `_`, and `-` in the values are replaced with `_`.
+ *
+ * @param projectId - ID of the project the bundle belongs to.
+ * @param template - Filename template. Defaults to `lokalise-{projectId}-{timestamp}.zip`.
+ * @param processId - Optional ID of the async download process.
+ * @returns The archive filename.
+ * @throws {LokaliseError} If the template has an unknown placeholder or does not expand to a plain filename.
+ */
+export function buildArchiveFilename(
+	projectId: string,
+	template = DEFAULT_ARCHIVE_FILENAME,
+	processId?: string,
+): string {
+	const values: Record<string, string> = {
+		projectId,
+		timestamp: new Date().toISOString().replace(/[:.]/g, "-"),
+		processId: processId ?? "",
+	};
+
+	const filename = template.replace(/\{(\w+)\}/g, (_, key: string) => {
+		const value = values[key];
+		if (value === undefined) {
+			throw new LokaliseError(
+				`Unknown placeholder {${key}} in archive filename template: ${template}`,
+			);
+		}
+		return sanitizeFilenamePart(value);
+	});
+
+	if (
+		!filename ||
+		filename === "." ||
+		filename === ".." ||
+		/[\\/]/.test(filename)
+	) {
+		throw new LokaliseError(
+			`Invalid archive filename: ${filename}. The template must expand to a file name without directories.`,
+		);
+	}
+	if (filename.endsWith(TEMP_ZIP_SUFFIX)) {
+		throw new LokaliseError(
+			`Invalid archive filename: ${filename}. The ${TEMP_ZIP_SUFFIX} suffix is reserved for temporary bundles.`,
+		);
+	}
+
+	return filename;
+}
+
+/**
+ * Writes a bundle to its archive path.
+ *
+ * Temporary files are moved (copied and removed across devices), buffered
+ * bundles are written out.
+ *
+ * @param source - Path to the temporary ZIP file or the ZIP contents.
+ * @param archivePath - Destination of the archived bundle.
+ */
+export async function storeArchive(
+	source: string | Buffer,
+	archivePath: string,
+): Promise<void> {
+	if (typeof source !== "string") {
+		await fs.promises.writeFile(archivePath, source);
+		return;
+	}
+
+	try {
+		await fs.promises.rename(source, archivePath);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+			throw error;
+		}
+		await fs.promises.copyFile(source, archivePath);
+		await fs.promises.unlink(source);
+	}
+}
+
+/**
+ * Removes all but the `keep` most recent archives in the archive directory.
+ *
+ * Only files matching the filename template are considered; other files are never touched.
+ * `{projectId}` only matches the given project, `{timestamp}` only matches
+ * timestamps, and temporary bundles are always skipped.
+ *
+ * @param archiveDir - Directory holding the archives.
+ * @param projectId - ID of the project the archives belong to.
+ * @param template - Filename template used to recognize archives.
+ * @param keep - Number of archives to retain.
+ * @returns Paths of the removed archives.
+ */
+export async function pruneArchives(
+	archiveDir: string,
+	projectId: string,
+	template = DEFAULT_ARCHIVE_FILENAME,
+	keep: number,
+): Promise<string[]> {
+	const matchers: Record<string, string> = {
+		projectId: escapeRegExp(sanitizeFilenamePart(projectId)),
+		timestamp: "\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}-\\d{3}Z",
+		processId: "[\\w.-]*",
+	};
+	const pattern = new RegExp(
+		`^${template
+			.split(/(\{\w+\})/)
+			.map((part, index) =>
+				index % 2 ? (matchers[part.slice(1, -1)] ?? "") : escapeRegExp(part),
+			)
+			.join("")}$`,
+	);
+
+	const dirents = await fs.promises.readdir(archiveDir, {
+		withFileTypes: true,
+	});
+	const archives = await Promise.all(
+		dirents
+			.filter(
+				(dirent) =>
+					dirent.isFile() &&
+					!dirent.name.endsWith(TEMP_ZIP_SUFFIX) &&
+					pattern.test(dirent.name),
+			)
+			.map(async (dirent) => {
+				const archivePath = path.join(archiveDir, dirent.name);
+				const { mtimeMs } = await fs.promises.stat(archivePath);
+				return { archivePath, mtimeMs };
+			}),
+	);
+
+	archives.sort(
+		(a, b) =>
+			b.mtimeMs - a.mtimeMs || b.archivePath.localeCompare(a.archivePath),
+	);
+
+	const removed: string[] = [];
+	for (const { archivePath } of archives.slice(keep)) {
+		await fs.promises.unlink(archivePath);
+		removed.push(archivePath);
+	}
+
+	return removed;
+}
@@ -0,0 +1,174 @@
+import path from "node:path";
+import type { DiffReportParams } from "../interfaces/DiffReportParams.js";
+import type { FileKeyDiff } from "../interfaces/FileKeyDiff.js";
+import type { KeyDiffReport } from "../interfaces/KeyDiffReport.js";
+import type { LanguageKeyDiff } from "../interfaces/LanguageKeyDiff.js";
+import { inferLanguageFromFilename } from "../languages/languageStrategies.js";
+import {
+	parseTranslationKeys,
+	type TranslationKeys,
+} from "./translationKeys.js";
+
+/**
+ * Compares the keys of a file in a bundle with the version already on disk.
+ *
+ * A file that cannot be parsed is reported with the `unparsable` status
+ * and the parser error.
+ *
+ * @param relativePath - POSIX path of the file relative to the output directory.
+ * @param language - Language of the file.
+ * @param content - Contents of the file in the bundle.
+ * @param previous - Contents of the file on disk, or `null` if it doesn't exist.
+ * @returns The key changes, or `null` if an existing file has no key changes.
+ */
+export function diffFileKeys(
+	relativePath: string,
+	language: string,
+	content: string,
+	previous: string | null,
+): FileKeyDiff | null {
+	const extension = path.posix.extname(relativePath);
+	const diff: FileKeyDiff = {
+		path: relativePath,
+		language,
+		status: previous === null ? "added" : "modified",
+		added: [],
+		removed: [],
+		changed: [],
+	};
+
+	try {
+		const next = parseTranslationKeys(content, extension);
+		const prev: TranslationKeys =
+			previous === null ? new Map() : parseTranslationKeys(previous, extension);
+
+		for (const [key, value] of next) {
+			if (!prev.has(key)) {
+				diff.added.push(key);
+			} else if (prev.get(key) !== value) {
+				diff.changed.push(key);
+			}
+		}
+		diff.removed = [...prev.keys()].filter((key) => !next.has(key));
+	} catch (error) {
+		return {
+			...diff,
+			status: "unparsable",
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	return diff.status === "added" ||
+		diff.added.length ||
+		diff.removed.length ||
+		diff.changed.length
+		? diff
+		: null;
+}
+
+/**
+ * Infers the language of a file in the diff report.
+ *
+ * Tries a custom `languageInferer` first; if it fails or returns empty/whitespace,
+ * falls back to the filename before the last extension, like uploads do.
+ *
+ * @param filePath - Absolute path of the file in the output directory.
+ * @param relativePath - POSIX path of the file relative to the output directory.
+ * @param languageInferer - Optional custom inferer.
+ * @returns The inferred language code.
+ */
+export async function inferDiffLanguage(
+	filePath: string,
+	relativePath: string,
+	languageInferer?: DiffReportParams["languageInferer"],
+): Promise<string> {
+	try {
+		const fromInferer = languageInferer ? await languageInferer(filePath) : "";
+
+		if (fromInferer.trim()) {
+			return fromInferer;
+		}
+	} catch {
+		// Fall back to the filename
+	}
+
+	return inferLanguageFromFilename(path.posix.basename(relativePath));
+}
+
+/**
+ * Builds a key diff report with per-language totals.
+ *
+ * @param files - Key changes per file.
+ * @returns The report, with languages sorted by code.
+ */
+export function summarizeKeyDiff(files: FileKeyDiff[]): KeyDiffReport {
+	const languages = new Map<string, LanguageKeyDiff>();
+
+	for (const file of files) {
+		const summary = languages.get(file.language) ?? {
+			language: file.language,
+			files: 0,
+			added: 0,
+			removed: 0,
+			changed: 0,
+		};
+		summary.files++;
+		summary.added += file.added.length;
+		summary.removed += file.removed.length;
+		summary.changed += file.changed.length;
+		languages.set(file.language, summary);
+	}
+
+	return {
+		files,
+		languages: [...languages.values()].sort((a, b) =>
+			a.language.localeCompare(b.language),
+		),
+	};
+}
+
+/**
+ * Renders a key diff report as Markdown, suitable for a pull request description.
+ *
+ * @param report - The report to render.
+ * @returns Markdown with a per-language summary table and the changed keys of each file.
+ */
+export function formatKeyDiffMarkdown({
+	files,
+	languages,
+}: KeyDiffReport): string {
+	if (!files.length) {
+		return "# Translation changes\n\nNo key changes.\n";
+	}
+
+	const keyList = (keys: string[]) =>
+		keys.map((key) => `\`${key}\``).join(", ");
+	const lines = [
+		"# Translation changes",
+		"",
+		"| Language | Files | Added | Removed | Changed |",
+		"| --- | ---: | ---: | ---: | ---: |",
+		...languages.map(
+			({ language, files: count, added, removed, changed }) =>
+				`| ${language} | ${count} | ${added} | ${removed} | ${changed} |`,
+		),
+	];
+
+	for (const file of files) {
+		lines.push("", `## ${file.path} (${file.language}, ${file.status})`, "");
+		if (file.error) {
+			lines.push(`- Error: ${file.error}`);
+		}
+		if (file.added.length) {
+			lines.push(`- Added: ${keyList(file.added)}`);
+		}
+		if (file.removed.length) {
+			lines.push(`- Removed: ${keyList(file.removed)}`);
+		}
+		if (file.changed.length) {
+			lines.push(`- Changed: ${keyList(file.changed)}`);
+		}
+	}
+
+	return `${lines.join("\n")}\n`;
+}
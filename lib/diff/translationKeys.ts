@@ -0,0 +1,339 @@
+/**
+ * Flat view of a translation file: key paths mapped to normalized values.
+ */
+export type TranslationKeys = Map<string, string>;
+
+type TranslationKeyParser = (content: string) => TranslationKeys;
+
+const YAML_ENTRY =
+	/^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s#'"?\-[{][^:#]*?|-[^\s:#][^:#]*?))\s*:(?:\s+(.*))?$/;
+
+const YAML_SEQUENCE_ITEM = /^-(?:\s|$)/;
+
+const YAML_BLOCK_SCALAR = /^([|>])[0-9+-]*(?:\s+#.*)?$/;
+
+const PROPERTIES_ESCAPES = new Map([
+	["t", "\t"],
+	["n", "\n"],
+	["r", "\r"],
+	["f", "\f"],
+]);
+
+/**
+ * Removes a leading byte order mark.
+ *
+ * @param content - File contents.
+ * @returns The contents without a BOM.
+ */
+function stripBom(content: string): string {
+	return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
+
+/**
+ * Flattens a JSON document into dotted key paths.
+ *
+ * Nested objects are walked recursively; arrays and scalars are leaves and
+ * compared by their JSON representation.
+ *
+ * @param content - File contents.
+ * @returns Key paths and their serialized values.
+ */
+function parseJsonKeys(content: string): TranslationKeys {
+	const keys: TranslationKeys = new Map();
+
+	const walk = (value: unknown, prefix: string) => {
+		if (value && typeof value === "object" && !Array.isArray(value)) {
+			for (const [key, child] of Object.entries(value)) {
+				walk(child, prefix ? `${prefix}.${key}` : key);
+			}
+		} else if (prefix) {
+			keys.set(prefix, JSON.stringify(value));
+		}
+	};
+
+	walk(JSON.parse(stripBom(content)), "");
+	return keys;
+}
+
+/**
+ * Reads a Java properties file.
+ *
+ * Supports `=`, `:` and whitespace separators, `#` and `!` comments, line
+ * continuations, and the standard escape sequences.
+ *
+ * @param content - File contents.
+ * @returns Keys and their unescaped values.
+ */
+function parsePropertiesKeys(content: string): TranslationKeys {
+	const keys: TranslationKeys = new Map();
+	const decode = (text: string) =>
+		text.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escaped: string) =>
+			escaped.length === 5
+				? String.fromCharCode(Number.parseInt(escaped.slice(1), 16))
+				: (PROPERTIES_ESCAPES.get(escaped) ?? escaped),
+		);
+
+	let logical = "";
+	for (const raw of stripBom(content).split(/\r?\n/)) {
+		const line = raw.trimStart();
+		if (!logical && (!line || line.startsWith("#") || line.startsWith("!"))) {
+			continue;
+		}
+
+		const trailingBackslashes = /\\*$/.exec(line)?.[0].length ?? 0;
+		if (trailingBackslashes % 2 === 1) {
+			logical += line.slice(0, -1);
+			continue;
+		}
+		logical += line;
+
+		const match = /^((?:[^\\=:\s]|\\.)*)\s*[=:]?\s*(.*)$/s.exec(logical);
+		if (match?.[1]) {
+			keys.set(decode(match[1]), decode(match[2] ?? ""));
+		}
+		logical = "";
+	}
+
+	return keys;
+}
+
+/**
+ * Reads the mappings of a YAML document into dotted key paths.
+ *
+ * This is a lightweight reader for translation files rather than a full
+ * YAML parser: nested mappings, quoted and plain scalars, multi-line
+ * scalars, and block scalars are supported. Sequences and flow collections
+ * are compared by their source text.
+ *
+ * @param content - File contents.
+ * @returns Key paths and their values.
+ */
+function parseYamlKeys(content: string): TranslationKeys {
+	const keys: TranslationKeys = new Map();
+	const stack: { indent: number; key: string }[] = [];
+	const lines = stripBom(content).split(/\r?\n/);
+
+	/** Current leaf collecting continuation lines, if any. */
+	let open: {
+		key: string;
+		indent: number;
+		parts: string[];
+		style: "plain" | "quoted" | "literal" | "folded" | "raw";
+		closed?: boolean;
+	} | null = null;
+
+	const flush = () => {
+		if (!open) {
+			return;
+		}
+		const separator =
+			open.style === "literal" || open.style === "raw" ? "\n" : " ";
+		const value = (
+			open.style === "plain" || open.style === "quoted"
+				? open.parts
+				: dedent(open.parts)
+		).join(separator);
+		keys.set(
+			open.key,
+			open.style === "quoted" ? unquoteYaml(value) : value.trimEnd(),
+		);
+		open = null;
+	};
+
+	for (const raw of lines) {
+		const trimmed = raw.trim();
+		const indent = raw.length - raw.trimStart().length;
+
+		if (open && !open.closed) {
+			if (open.style === "quoted") {
+				open.parts.push(trimmed);
+				open.closed = isClosedQuote(open.parts.join(" "));
+				continue;
+			}
+			if (
+				!trimmed ||
+				indent > open.indent ||
+				(open.style === "raw" &&
+					indent === open.indent &&
+					YAML_SEQUENCE_ITEM.test(trimmed))
+			) {
+				if (trimmed || open.style === "literal" || open.style === "raw") {
+					open.parts.push(open.style === "plain" ? trimmed : raw);
+				}
+				continue;
+			}
+		}
+		if (!trimmed || trimmed.startsWith("#")) {
+			continue;
+		}
+		flush();
+		if (indent === 0 && /^(?:---|\.\.\.|%)/.test(trimmed)) {
+			stack.length = 0;
+			continue;
+		}
+
+		const match = YAML_ENTRY.exec(trimmed);
+
+		// Sequences may start at the same indentation as their parent key
+		while ((stack.at(-1)?.indent ?? -1) >= (match ? indent : indent + 1)) {
+			stack.pop();
+		}
+
+		if (!match) {
+			// A sequence or other non-mapping content: keep the parent's source text
+			const parent = stack.pop();
+			if (parent) {
+				open = {
+					key: parent.key,
+					indent: parent.indent,
+					parts: [raw],
+					style: "raw",
+				};
+			}
+			continue;
+		}
+
+		const name =
+			match[1] !== undefined
+				? unquoteYaml(`"${match[1]}"`)
+				: match[2] !== undefined
+					? match[2].replace(/''/g, "'")
+					: (match[3] as string);
+		const parentKey = stack.at(-1)?.key;
+		const key = parentKey ? `${parentKey}.${name}` : name;
+		const value = stripYamlComment(match[4] ?? "");
+
+		if (!value) {
+			stack.push({ indent, key });
+			continue;
+		}
+
+		const block = YAML_BLOCK_SCALAR.exec(value);
+		if (block) {
+			open = {
+				key,
+				indent,
+				parts: [],
+				style: block[1] === "|" ? "literal" : "folded",
+			};
+		} else if (value.startsWith('"') || value.startsWith("'")) {
+			open = {
+				key,
+				indent,
+				parts: [value],
+				style: "quoted",
+				closed: isClosedQuote(value),
+			};
+		} else {
+			open = { key, indent, parts: [value], style: "plain" };
+		}
+	}
+
+	flush();
+	return keys;
+}
+
+/**
+ * Removes the indentation shared by all non-empty lines.
+ *
+ * @param lines - Lines of a block.
+ * @returns The lines without the common indentation.
+ */
+function dedent(lines: string[]): string[] {
+	const indents = lines
+		.filter((line) => line.trim())
+		.map((line) => line.length - line.trimStart().length);
+	const common = indents.length ? Math.min(...indents) : 0;
+	return lines.map((line) => line.slice(common));
+}
+
+/**
+ * Checks whether a YAML quoted scalar is terminated.
+ *
+ * @param text - Scalar text starting with a quote.
+ * @returns `true` if the closing quote is present.
+ */
+function isClosedQuote(text: string): boolean {
+	const pattern = text[0] === '"' ? /^"(?:[^"\\]|\\.)*"/s : /^'(?:[^']|'')*'/s;
+	return pattern.test(text);
+}
+
+/**
+ * Removes the quotes and escapes of a YAML quoted scalar.
+ *
+ * @param text - Scalar text, possibly quoted.
+ * @returns The scalar value.
+ */
+function unquoteYaml(text: string): string {
+	if (text.startsWith("'")) {
+		return text.slice(1, text.lastIndexOf("'")).replace(/''/g, "'");
+	}
+	if (text.startsWith('"')) {
+		const quoted = /^"(?:[^"\\]|\\.)*"/s.exec(text)?.[0] ?? text;
+		try {
+			return JSON.parse(quoted);
+		} catch {
+			return quoted.slice(1, -1);
+		}
+	}
+	return text;
+}
+
+/**
+ * Removes a trailing comment from a YAML value, ignoring `#` inside quotes.
+ *
+ * @param value - Value text after the key.
+ * @returns The value without the comment.
+ */
+function stripYamlComment(value: string): string {
+	let quote = "";
+	for (let i = 0; i < value.length; i++) {
+		const char = value[i];
+		if (quote) {
+			if (quote === '"' && char === "\\") i++;
+			else if (char === quote) quote = "";
+		} else if (char === '"' || char === "'") {
+			quote = char;
+		} else if (char === "#" && (i === 0 || /\s/.test(value[i - 1] as string))) {
+			return value.slice(0, i).trimEnd();
+		}
+	}
+	return value.trim();
+}
+
+const parsers: Readonly<Record<string, TranslationKeyParser>> = {
+	".json": parseJsonKeys,
+	".arb": parseJsonKeys,
+	".yml": parseYamlKeys,
+	".yaml": parseYamlKeys,
+	".properties": parsePropertiesKeys,
+};
+
+/**
+ * Checks whether keys can be read from files with the given extension.
+ *
+ * @param extension - File extension including the leading dot.
+ * @returns `true` for structured formats supported by the diff report.
+ */
+export function hasTranslationKeyParser(extension: string): boolean {
+	return extension.toLowerCase() in parsers;
+}
+
+/**
+ * Reads the translation keys of a structured file.
+ *
+ * @param content - File contents.
+ * @param extension - File extension including the leading dot.
+ * @returns Key paths mapped to normalized values.
+ * @throws {Error} If the extension is not supported or the file cannot be parsed.
+ */
+export function parseTranslationKeys(
+	content: string,
+	extension: string,
+): TranslationKeys {
+	const parser = parsers[extension.toLowerCase()];
+	if (!parser) {
+		throw new Error(`Unsupported file type: ${extension}`);
+	}
+	return parser(content);
+}
@@ -0,0 +1,631 @@
+import { pipeline, Readable, Transform, type Writable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import { promisify } from "node:util";
+import { LokaliseError } from "../errors/LokaliseError.js";
+import type { BundleFetchParams } from "../interfaces/BundleFetchParams.js";
+import type { BundleUrlParams } from "../interfaces/BundleUrlParams.js";
+import type { ZipDownloadOptions } from "../interfaces/ZipDownloadOptions.js";
+
+const RETRYABLE_DOWNLOAD_STATUSES = [408, 429, 500, 502, 503, 504];
+
+const RETRYABLE_DOWNLOAD_REASONS = [
+	"network or fetch error",
+	"retryable status",
+	"resume failed",
+	"idle timeout",
+];
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+const MAX_REDIRECTS = 20;
+
+const streamPipeline = promisify(pipeline);
+
+/**
+ * Receives debug messages about the progress of a bundle download.
+ */
+export type BundleFetchLogger = (message: string) => void;
+
+/**
+ * Destination of a bundle download that can be resumed after a failure.
+ */
+export interface ZipDownloadTarget {
+	size(): Promise<number>;
+	open(append: boolean): Writable;
+	assertSize?(totalBytes: number): void;
+}
+
+/**
+ * A single request for a bundle URL.
+ */
+export interface BundleRequest {
+	urlParams: BundleUrlParams;
+	fetchParams: BundleFetchParams;
+	/** Timeout duration (ms) used for error messaging. */
+	downloadTimeout: number;
+	signal?: AbortSignal;
+	headers?: Record<string, string>;
+}
+
+/**
+ * Retry settings and transport used by `fetchZipWithRetries`.
+ */
+export interface BundleRetryContext {
+	urlParams: BundleUrlParams;
+	maxRetries: number;
+	retryDelay(attempt: number): number;
+	sleep(ms: number): Promise<void>;
+	fetchResponse(
+		bundleURL: URL,
+		signal: AbortSignal | undefined,
+		headers: Record<string, string>,
+	): Promise<Response>;
+	log: BundleFetchLogger;
+}
+
+/**
+ * Aborts a download attempt once no data has arrived for too long.
+ */
+interface IdleWatchdog {
+	signal: AbortSignal;
+	touch(): void;
+	stop(): void;
+}
+
+/**
+ * Fetches the ZIP bundle into the given target, retrying transient failures.
+ *
+ * Network errors and retryable HTTP statuses are retried with exponential
+ * backoff. The download timeout is a deadline covering the requests and body
+ * streaming of all attempts; the idle timeout aborts (and retries) a single
+ * attempt that stops receiving data. If the server advertises
+ * `Accept-Ranges: bytes`, a retry resumes from the bytes already received
+ * with a `Range` request guarded by `If-Range`. When the server sends the
+ * full body instead, the target starts over.
+ *
+ * @param url - Direct URL to the ZIP bundle provided by Lokalise.
+ * @param target - Destination of the downloaded bytes.
+ * @param options - Deadline and idle timeout (in ms, `0` disables them) and progress callback.
+ * @param context - Allowed hosts, retry settings, and the request function.
+ * @throws {LokaliseError} If retries are exhausted or a non-retryable error occurs.
+ */
+export async function fetchZipWithRetries(
+	url: string,
+	target: ZipDownloadTarget,
+	{
+		downloadTimeout = 0,
+		idleTimeout = 0,
+		onProgress,
+	}: Omit<ZipDownloadOptions, "tempDir">,
+	{
+		urlParams,
+		maxRetries,
+		retryDelay,
+		sleep,
+		fetchResponse,
+		log,
+	}: BundleRetryContext,
+): Promise<void> {
+	const bundleURL = assertAllowedBundleUrl(assertHttpUrl(url), urlParams);
+	const signal = buildAbortSignal(downloadTimeout);
+
+	let resumable = false;
+	let validator: string | null = null;
+
+	for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+		let watchdog: IdleWatchdog | undefined;
+
+		try {
+			const offset = resumable ? await target.size() : 0;
+			const headers: Record<string, string> = {};
+
+			if (offset > 0) {
+				log(`Resuming bundle download at byte ${offset}...`);
+				headers.Range = `bytes=${offset}-`;
+				if (validator) {
+					headers["If-Range"] = validator;
+				}
+			}
+
+			watchdog = idleTimeout > 0 ? startIdleWatchdog(idleTimeout) : undefined;
+			const attemptSignal =
+				signal && watchdog
+					? AbortSignal.any([signal, watchdog.signal])
+					: (watchdog?.signal ?? signal);
+
+			const response = await fetchResponse(bundleURL, attemptSignal, headers);
+			const resumed = offset > 0 && response.status === 206;
+
+			if (RETRYABLE_DOWNLOAD_STATUSES.includes(response.status)) {
+				await response.body?.cancel();
+				throw new LokaliseError(
+					`Failed to download ZIP file: ${response.statusText} (${response.status})`,
+					response.status,
+					{ reason: "retryable status" },
+				);
+			}
+
+			if (
+				offset > 0 &&
+				(response.status === 416 ||
+					(resumed &&
+						!response.headers
+							.get("content-range")
+							?.startsWith(`bytes ${offset}-`)))
+			) {
+				resumable = false;
+				await response.body?.cancel();
+				throw new LokaliseError(
+					`Unable to resume ZIP download at byte ${offset}`,
+					response.status,
+					{ reason: "resume failed" },
+				);
+			}
+
+			const body = getZipResponseBody(response, url);
+
+			if (!resumed) {
+				resumable = response.headers.get("accept-ranges") === "bytes";
+				validator =
+					response.headers.get("etag") ?? response.headers.get("last-modified");
+			}
+
+			const startAt = resumed ? offset : 0;
+			const contentLength = Number(response.headers.get("content-length"));
+			if (contentLength > 0 && target.assertSize) {
+				try {
+					target.assertSize(startAt + contentLength);
+				} catch (error) {
+					await body.cancel();
+					throw error;
+				}
+			}
+
+			let receivedBytes = startAt;
+			const totalBytes =
+				contentLength > 0 ? startAt + contentLength : undefined;
+
+			await receiveZipBody(
+				body,
+				target.open(resumed),
+				downloadTimeout,
+				(watchdog || onProgress) &&
+					((bytes) => {
+						watchdog?.touch();
+						receivedBytes += bytes;
+						onProgress?.({
+							phase: "download",
+							receivedBytes,
+							...(totalBytes !== undefined ? { totalBytes } : {}),
+						});
+					}),
+				attemptSignal,
+			);
+			return;
+		} catch (error) {
+			if (
+				!(error instanceof LokaliseError) ||
+				!isRetryableDownloadError(error)
+			) {
+				throw error;
+			}
+
+			log(`Bundle download failed: ${error.message}`);
+
+			if (attempt === maxRetries + 1) {
+				throw new LokaliseError(
+					`Maximum retries reached: ${error.message}`,
+					error.code,
+					error.details,
+				);
+			}
+
+			const sleepMs = retryDelay(attempt);
+			log(`Waiting ${sleepMs}ms before retry...`);
+			await sleep(sleepMs);
+		} finally {
+			watchdog?.stop();
+		}
+	}
+}
+
+/**
+ * Executes a fetch request for the ZIP bundle URL.
+ *
+ * Wraps network failures, timeouts, and unexpected fetch errors into `LokaliseError`
+ * so higher-level logic receives consistent exceptions. Requests use the
+ * configured fetch implementation, dispatcher and extra headers. Redirects
+ * are followed manually, and every redirect target must pass the same host
+ * and protocol checks as the original URL.
+ *
+ * @param bundleURL - Parsed URL pointing to the ZIP file.
+ * @param request - Allowed hosts, transport settings, timeout, and request headers.
+ * @param log - Receives a message for every followed redirect.
+ * @returns The raw `Response` object returned by `fetch` if the request succeeds.
+ */
+export async function fetchBundleResponse(
+	bundleURL: URL,
+	{
+		urlParams,
+		fetchParams,
+		downloadTimeout,
+		signal,
+		headers = {},
+	}: BundleRequest,
+	log: BundleFetchLogger,
+): Promise<Response> {
+	const {
+		fetch: fetchImpl = globalThis.fetch,
+		dispatcher,
+		headers: extraHeaders,
+	} = fetchParams;
+	const requestHeaders = { ...extraHeaders, ...headers };
+
+	try {
+		let url = bundleURL;
+
+		for (let redirects = 0; ; redirects++) {
+			const response = await fetchImpl(url, {
+				redirect: "manual",
+				...(signal ? { signal } : {}),
+				...(Object.keys(requestHeaders).length
+					? { headers: requestHeaders }
+					: {}),
+				...(dispatcher ? { dispatcher } : {}),
+			});
+			if (!REDIRECT_STATUSES.includes(response.status)) {
+				return response;
+			}
+
+			const location = response.headers.get("location");
+			if (!location) {
+				return response;
+			}
+
+			await response.body?.cancel();
+
+			if (redirects >= MAX_REDIRECTS) {
+				throw new LokaliseError(
+					`Too many redirects while downloading ZIP file from ${bundleURL.host}`,
+					502,
+					{ reason: "too many redirects" },
+				);
+			}
+
+			url = assertAllowedBundleUrl(
+				assertHttpUrl(new URL(location, url).href),
+				urlParams,
+				true,
+			);
+			log(`Following redirect to ${url.host}...`);
+		}
+	} catch (err) {
+		if (err instanceof LokaliseError) {
+			throw err;
+		}
+
+		if (err instanceof Error) {
+			if (err.name === "TimeoutError") {
+				throw new LokaliseError(
+					`Request timed out after ${downloadTimeout}ms`,
+					408,
+					{ reason: "timeout" },
+				);
+			}
+
+			throw new LokaliseError(err.message, 500, {
+				reason: "network or fetch error",
+			});
+		}
+
+		// This should never happen in production
+		// as realistically fetch always raises Error,
+		// unless some black magic has been involved.
+		/* v8 ignore start */
+		throw new LokaliseError(
+			"An unknown error occurred. This might indicate a bug.",
+			500,
+			{
+				reason: String(err),
+			},
+		);
+		/* v8 ignore end */
+	}
+}
+
+/**
+ * Validates that a string is a proper HTTP(S) URL.
+ *
+ * @param value - The URL string to validate.
+ * @returns A parsed `URL` object if valid.
+ * @throws {LokaliseError} If the URL is invalid or uses an unsupported protocol.
+ */
+export function assertHttpUrl(value: string): URL {
+	let parsed: URL;
+	try {
+		parsed = new URL(value);
+	} catch {
+		throw new LokaliseError(`Invalid URL: ${value}`);
+	}
+
+	if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+		throw new LokaliseError(`Unsupported protocol in URL: ${value}`);
+	}
+
+	return parsed;
+}
+
+/**
+ * Ensures a bundle URL points to an allowed host and, if required, uses HTTPS.
+ *
+ * An allowlist entry may be followed by a path prefix, as in
+ * `s3.example.com/bucket/`, to allow only part of a shared host.
+ *
+ * @param url - Parsed bundle URL or redirect target.
+ * @param urlParams - Allowed hosts and protocol requirements.
+ * @param redirected - Whether the URL is a redirect target, used for error messaging.
+ * @returns The same URL if it is allowed.
+ * @throws {LokaliseError} If the protocol or host is not allowed.
+ */
+export function assertAllowedBundleUrl(
+	url: URL,
+	{ allowedHosts, requireHttps }: BundleUrlParams,
+	redirected = false,
+): URL {
+	const host = url.hostname.toLowerCase();
+	const source = redirected ? "Redirect target" : "Bundle URL";
+
+	if (requireHttps && url.protocol !== "https:") {
+		throw new LokaliseError(
+			`${source} must use HTTPS: ${url.protocol}//${url.host}`,
+			undefined,
+			{ reason: "insecure protocol", host },
+		);
+	}
+
+	const allowed = allowedHosts.some((entry) => {
+		const trimmed = entry.trim();
+		const slash = trimmed.indexOf("/");
+		const pattern = (
+			slash === -1 ? trimmed : trimmed.slice(0, slash)
+		).toLowerCase();
+		const pathPrefix = slash === -1 ? "" : trimmed.slice(slash);
+
+		return (
+			(pattern === "*" ||
+				pattern === host ||
+				(pattern.startsWith("*.") && host.endsWith(pattern.slice(1)))) &&
+			url.pathname.startsWith(pathPrefix)
+		);
+	});
+
+	if (!allowed) {
+		throw new LokaliseError(
+			`${source} host is not allowed: ${host}`,
+			undefined,
+			{
+				reason: redirected ? "redirect not allowed" : "host not allowed",
+				host,
+			},
+		);
+	}
+
+	return url;
+}
+
+/**
+ * Validates the bundle host allowlist.
+ *
+ * @param urlParams - Allowed hosts and protocol requirements.
+ * @throws {LokaliseError} If the allowlist is empty or contains blank entries.
+ */
+export function validateBundleUrlParams({
+	allowedHosts,
+}: BundleUrlParams): void {
+	if (
+		!Array.isArray(allowedHosts) ||
+		allowedHosts.length === 0 ||
+		allowedHosts.some((host) => typeof host !== "string" || !host.trim())
+	) {
+		throw new LokaliseError(
+			"allowedHosts must contain at least one non-empty host.",
+		);
+	}
+}
+
+/**
+ * Validates the transport settings used for bundle downloads.
+ *
+ * @param fetchParams - Fetch implementation, dispatcher, and extra headers.
+ * @throws {LokaliseError} If the fetch implementation or extra headers are invalid.
+ */
+export function validateBundleFetchParams({
+	fetch: fetchImpl,
+	headers,
+}: BundleFetchParams): void {
+	if (fetchImpl !== undefined && typeof fetchImpl !== "function") {
+		throw new LokaliseError("bundleFetchParams.fetch must be a function.");
+	}
+	if (
+		headers !== undefined &&
+		(typeof headers !== "object" ||
+			headers === null ||
+			Object.values(headers).some((value) => typeof value !== "string"))
+	) {
+		throw new LokaliseError(
+			"bundleFetchParams.headers must map header names to strings.",
+		);
+	}
+}
+
+/**
+ * Creates an optional AbortSignal for enforcing request timeouts.
+ *
+ * Returns `undefined` when no timeout is configured, disabling abort handling.
+ *
+ * @param downloadTimeout - Timeout in milliseconds. `0` or negative disables the signal.
+ * @returns An AbortSignal if timeout is enabled, otherwise `undefined`.
+ */
+function buildAbortSignal(downloadTimeout: number): AbortSignal | undefined {
+	if (downloadTimeout <= 0) {
+		return undefined;
+	}
+
+	return AbortSignal.timeout(downloadTimeout);
+}
+
+/**
+ * Starts a timer that aborts a download attempt when no data arrives in time.
+ *
+ * The timer is restarted with `touch()` whenever a chunk is received.
+ *
+ * @param idleTimeout - Maximum time (in ms) to wait for the next chunk.
+ * @returns The watchdog exposing its abort signal.
+ */
+function startIdleWatchdog(idleTimeout: number): IdleWatchdog {
+	const controller = new AbortController();
+	const timer = setTimeout(() => {
+		controller.abort(
+			new LokaliseError(`No data received for ${idleTimeout}ms`, 408, {
+				reason: "idle timeout",
+			}),
+		);
+	}, idleTimeout);
+
+	return {
+		signal: controller.signal,
+		touch: () => {
+			timer.refresh();
+		},
+		stop: () => {
+			clearTimeout(timer);
+		},
+	};
+}
+
+/**
+ * Validates and extracts the readable body stream from a fetch response.
+ *
+ * Ensures the response is OK and has a non-null body before returning it.
+ *
+ * @param response - The HTTP response returned by `fetch`.
+ * @param originalUrl - Original URL used for error diagnostics.
+ * @returns A web ReadableStream of the ZIP file contents.
+ * @throws {LokaliseError} If the response is not OK or body is missing.
+ */
+function getZipResponseBody(
+	response: Response,
+	originalUrl: string,
+): WebReadableStream<Uint8Array> {
+	if (!response.ok) {
+		throw new LokaliseError(
+			`Failed to download ZIP file: ${response.statusText} (${response.status})`,
+		);
+	}
+
+	const body = response.body as WebReadableStream<Uint8Array> | null;
+
+	if (!body) {
+		throw new LokaliseError(
+			`Response body is null. Cannot download ZIP file from URL: ${originalUrl}`,
+		);
+	}
+
+	return body;
+}
+
+/**
+ * Streams a ZIP response body into a sink.
+ *
+ * Errors raised while reading the body (for example, a connection reset)
+ * are wrapped into a retryable `LokaliseError`; errors raised by the sink
+ * are rethrown as-is. The body is destroyed as soon as `signal` aborts,
+ * so a stalled stream cannot outlive the download deadline.
+ *
+ * @param body - Web readable stream of the ZIP content.
+ * @param sink - Writable receiving the content.
+ * @param downloadTimeout - Timeout duration (ms) used for error messaging.
+ * @param onChunk - Optional callback receiving the size of each chunk as it passes through.
+ * @param signal - Optional `AbortSignal` cancelling the transfer.
+ * @throws {LokaliseError} If reading the body fails or times out.
+ */
+async function receiveZipBody(
+	body: WebReadableStream<Uint8Array>,
+	sink: Writable,
+	downloadTimeout: number,
+	onChunk?: (bytes: number) => void,
+	signal?: AbortSignal,
+): Promise<void> {
+	const source = Readable.fromWeb(body);
+	let failedSide: "source" | "sink" | undefined;
+
+	const abort = () => {
+		source.destroy(signal?.reason);
+	};
+	if (signal?.aborted) {
+		abort();
+	}
+	signal?.addEventListener("abort", abort, { once: true });
+
+	source.once("error", () => {
+		failedSide ??= "source";
+	});
+	sink.once("error", () => {
+		failedSide ??= "sink";
+	});
+
+	try {
+		if (onChunk) {
+			await streamPipeline(
+				source,
+				new Transform({
+					transform(chunk: Buffer, _encoding, callback) {
+						onChunk(chunk.length);
+						callback(null, chunk);
+					},
+				}),
+				sink,
+			);
+		} else {
+			await streamPipeline(source, sink);
+		}
+	} catch (error) {
+		// Let pending writes settle so a retry can resume from the actual size
+		if (!sink.closed) {
+			await new Promise((resolve) => sink.once("close", resolve));
+		}
+
+		if (failedSide !== "source" || error instanceof LokaliseError) {
+			throw error;
+		}
+
+		if (error instanceof Error && error.name === "TimeoutError") {
+			throw new LokaliseError(
+				`Request timed out after ${downloadTimeout}ms`,
+				408,
+				{ reason: "timeout" },
+			);
+		}
+
+		throw new LokaliseError(
+			`Failed to read ZIP response: ${error instanceof Error ? error.message : String(error)}`,
+			500,
+			{ reason: "network or fetch error" },
+		);
+	} finally {
+		signal?.removeEventListener("abort", abort);
+	}
+}
+
+/**
+ * Checks whether a failed bundle download should be retried.
+ *
+ * @param error - Error raised by a download attempt.
+ * @returns `true` for network errors, retryable statuses, failed resumes, and stalled transfers.
+ */
+function isRetryableDownloadError(error: LokaliseError): boolean {
+	const reason = error.details?.reason;
+	return (
+		typeof reason === "string" && RETRYABLE_DOWNLOAD_REASONS.includes(reason)
+	);
+}
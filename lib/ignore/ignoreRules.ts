@@ -0,0 +1,166 @@
+import path from "node:path";
+
+/**
+ * A single pattern read from a gitignore-style file.
+ */
+export interface IgnoreRule {
+	/** Absolute path of the directory containing the ignore file. */
+	base: string;
+	regex: RegExp;
+	negated: boolean;
+	directoryOnly: boolean;
+}
+
+/**
+ * Escapes a character for use in a regular expression.
+ *
+ * @param char - The character to escape.
+ * @returns The escaped character.
+ */
+function escapeRegExp(char: string): string {
+	return /[.*+?^${}()|[\]\\/]/.test(char) ? `\\${char}` : char;
+}
+
+/**
+ * Converts a gitignore pattern into regular expression source.
+ *
+ * `*` and `?` don't cross `/`, a `**` segment matches any number of
+ * directories, character classes are kept (`[!...]` is negated), and a
+ * backslash escapes the next character. Unlike shell globs, wildcards match
+ * dotfiles, as they do in Git.
+ *
+ * @param pattern - The pattern without negation, leading and trailing slashes.
+ * @returns The regular expression source, without anchors.
+ */
+function globToRegExpSource(pattern: string): string {
+	let source = "";
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i] as string;
+
+		if (char === "\\" && i + 1 < pattern.length) {
+			source += escapeRegExp(pattern[++i] as string);
+		} else if (char === "*") {
+			const isSegment =
+				pattern[i + 1] === "*" &&
+				(i === 0 || pattern[i - 1] === "/") &&
+				(i + 2 === pattern.length || pattern[i + 2] === "/");
+
+			if (!isSegment) {
+				source += "[^/]*";
+			} else if (pattern[i + 2] === "/") {
+				source += "(?:.*/)?";
+				i += 2;
+			} else {
+				source += ".*";
+				i++;
+			}
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "[") {
+			const end = pattern.indexOf("]", i + 2);
+			if (end === -1) {
+				source += "\\[";
+				continue;
+			}
+			const body = pattern.slice(i + 1, end).replace(/^!/, "^");
+			source += `[${body}]`;
+			i = end;
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+
+	return source;
+}
+
+/**
+ * Reads the patterns of a gitignore-style file.
+ *
+ * Follows the gitignore rules: blank lines and `#` comments are skipped,
+ * trailing spaces are trimmed unless escaped, `!` negates a pattern, a
+ * trailing `/` only matches directories, and a pattern containing a `/`
+ * elsewhere is relative to the file's directory while other patterns match
+ * at any depth below it.
+ *
+ * @param content - Contents of the ignore file.
+ * @param base - Absolute path of the directory containing the file.
+ * @returns The rules in file order.
+ */
+export function parseIgnoreFile(content: string, base: string): IgnoreRule[] {
+	const rules: IgnoreRule[] = [];
+
+	for (const raw of content.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+		let line = raw.replace(/(^|[^\\]) +$/, "$1");
+		if (!line || line.startsWith("#")) {
+			continue;
+		}
+
+		const negated = line.startsWith("!");
+		if (negated) {
+			line = line.slice(1);
+		}
+
+		const directoryOnly = line.endsWith("/");
+		line = line.replace(/\/+$/, "");
+		const anchored = line.includes("/");
+		line = line.replace(/^\/+/, "");
+		if (!line) {
+			continue;
+		}
+
+		rules.push({
+			base,
+			regex: new RegExp(
+				`^${anchored ? "" : "(?:.*/)?"}${globToRegExpSource(line)}$`,
+			),
+			negated,
+			directoryOnly,
+		});
+	}
+
+	return rules;
+}
+
+/**
+ * Checks a path against ignore rules.
+ *
+ * Rules are applied in order and the last matching one wins, so rules from
+ * deeper ignore files override those of their parents. Rules never match
+ * paths outside the directory of their ignore file.
+ *
+ * @param fullPath - Absolute path of the file or directory.
+ * @param isDirectory - Whether the path is a directory.
+ * @param rules - Rules of every ignore file above the path, outermost first.
+ * @returns `true` if the path is ignored.
+ */
+export function isIgnored(
+	fullPath: string,
+	isDirectory: boolean,
+	rules: readonly IgnoreRule[],
+): boolean {
+	let ignored = false;
+
+	for (const rule of rules) {
+		if (rule.directoryOnly && !isDirectory) {
+			continue;
+		}
+
+		const relative = path
+			.relative(rule.base, fullPath)
+			.split(path.sep)
+			.join("/");
+		if (
+			relative === ".." ||
+			relative.startsWith("../") ||
+			path.isAbsolute(relative)
+		) {
+			continue;
+		}
+		if (rule.regex.test(relative)) {
+			ignored = !rule.negated;
+		}
+	}
+
+	return ignored;
+}
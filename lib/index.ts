@@ -1,3 +1,4 @@
 export * from "./errors/LokaliseError.js";
 export * from "./interfaces/index.js";
 export * from "./services/index.js";
+export * from "./validators/index.js";
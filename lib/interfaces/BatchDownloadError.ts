@@ -0,0 +1,4 @@
+export interface BatchDownloadError {
+	index: number;
+	error: unknown;
+}
@@ -0,0 +1,6 @@
+import type { DownloadResult } from "./DownloadResult.js";
+
+export interface BatchDownloadItem {
+	index: number;
+	result: DownloadResult;
+}
@@ -0,0 +1,3 @@
+export interface BatchDownloadOptions {
+	concurrency?: number;
+}
@@ -0,0 +1,7 @@
+import type { BatchDownloadError } from "./BatchDownloadError.js";
+import type { BatchDownloadItem } from "./BatchDownloadItem.js";
+
+export interface BatchDownloadResult {
+	results: BatchDownloadItem[];
+	errors: BatchDownloadError[];
+}
@@ -0,0 +1,5 @@
+export interface BundleArchiveParams {
+	dir: string;
+	filename?: string;
+	keep?: number;
+}
@@ -0,0 +1,7 @@
+export interface BundleFetchParams {
+	fetch?: typeof globalThis.fetch;
+	// Any undici dispatcher; typed structurally so that dispatchers from both
+	// the bundled and the standalone undici versions are accepted.
+	dispatcher?: { dispatch(...args: never[]): unknown };
+	headers?: Record<string, string>;
+}
@@ -0,0 +1,4 @@
+export interface BundleUrlParams {
+	allowedHosts: string[];
+	requireHttps: boolean;
+}
@@ -4,4 +4,7 @@ export interface CollectFileParams {
 	excludePatterns?: string[] | RegExp[];
 	recursive?: boolean;
 	fileNamePattern?: string | RegExp;
+	include?: string | string[];
+	exclude?: string | string[];
+	ignoreFiles?: boolean | string[];
 }
@@ -0,0 +1,6 @@
+export type ConflictPolicy =
+	| "overwrite"
+	| "skip-if-exists"
+	| "fail-on-existing"
+	| "overwrite-if-changed"
+	| "backup";
@@ -0,0 +1,7 @@
+type Inferer = (filePath: string) => Promise<string> | string;
+
+export interface DiffReportParams {
+	reportFile?: string;
+	format?: "json" | "markdown";
+	languageInferer?: Inferer;
+}
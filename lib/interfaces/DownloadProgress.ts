@@ -0,0 +1,5 @@
+export type DownloadProgress =
+	| { phase: "download"; receivedBytes: number; totalBytes?: number }
+	| { phase: "extract"; entriesDone: number; totalEntries: number };
+
+export type DownloadProgressCallback = (progress: DownloadProgress) => void;
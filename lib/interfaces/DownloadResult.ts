@@ -0,0 +1,9 @@
+import type { DownloadTimings } from "./DownloadTimings.js";
+import type { ExtractTranslationResult } from "./ExtractTranslationResult.js";
+
+export interface DownloadResult extends ExtractTranslationResult {
+	bundleUrl: string;
+	processId?: string;
+	archivePath?: string;
+	timings: DownloadTimings;
+}
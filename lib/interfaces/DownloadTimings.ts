@@ -0,0 +1,6 @@
+export interface DownloadTimings {
+	queue: number;
+	poll: number;
+	fetch: number;
+	unpack: number;
+}
@@ -1,3 +1,27 @@
+import type { ConflictPolicy } from "./ConflictPolicy.js";
+import type { DiffReportParams } from "./DiffReportParams.js";
+import type { MirrorParams } from "./MirrorParams.js";
+import type { SpecialEntryPolicy } from "./SpecialEntryPolicy.js";
+import type { ValidationParams } from "./ValidationParams.js";
+import type { ZipEntryPathMapper } from "./ZipEntryPathMapper.js";
+
 export interface ExtractParams {
 	outputDir?: string;
+	atomic?: boolean;
+	include?: string | string[];
+	exclude?: string | string[];
+	mapPath?: string | ZipEntryPathMapper;
+	conflictPolicy?: ConflictPolicy;
+	backupSuffix?: string;
+	backupDir?: string;
+	mirror?: MirrorParams;
+	syncStateFile?: string;
+	specialEntries?: SpecialEntryPolicy;
+	preserveAttributes?: boolean;
+	validation?: ValidationParams;
+	diffReport?: DiffReportParams;
+	maxEntries?: number;
+	maxTotalBytes?: number;
+	maxFileBytes?: number;
+	maxCompressionRatio?: number;
 }
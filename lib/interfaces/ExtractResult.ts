@@ -0,0 +1,9 @@
+import type { ExtractedFile } from "./ExtractedFile.js";
+import type { FileValidationError } from "./FileValidationError.js";
+import type { SkippedZipEntry } from "./SkippedZipEntry.js";
+
+export interface ExtractResult {
+	files: ExtractedFile[];
+	skipped: SkippedZipEntry[];
+	validationErrors?: FileValidationError[];
+}
@@ -0,0 +1,8 @@
+import type { DownloadProgressCallback } from "./DownloadProgress.js";
+import type { ExtractParams } from "./ExtractParams.js";
+
+export interface ExtractTranslationParams {
+	zipFilePath: string;
+	extractParams?: ExtractParams;
+	onProgress?: DownloadProgressCallback;
+}
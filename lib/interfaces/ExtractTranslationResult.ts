@@ -0,0 +1,10 @@
+import type { ExtractResult } from "./ExtractResult.js";
+import type { KeyDiffReport } from "./KeyDiffReport.js";
+
+export interface ExtractTranslationResult extends ExtractResult {
+	bundleSize: number;
+	outputDir: string;
+	deleted: string[];
+	bundleUnchanged?: boolean;
+	diffReport?: KeyDiffReport;
+}
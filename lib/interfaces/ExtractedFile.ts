@@ -0,0 +1,5 @@
+export interface ExtractedFile {
+	entryName: string;
+	path: string;
+	size: number;
+}
@@ -0,0 +1,9 @@
+export interface FileKeyDiff {
+	path: string;
+	language: string;
+	status: "added" | "modified" | "unparsable";
+	added: string[];
+	removed: string[];
+	changed: string[];
+	error?: string;
+}
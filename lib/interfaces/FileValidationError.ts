@@ -0,0 +1,6 @@
+import type { FileValidationIssue } from "./FileValidationIssue.js";
+
+export interface FileValidationError extends FileValidationIssue {
+	entryName: string;
+	path: string;
+}
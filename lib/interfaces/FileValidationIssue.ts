@@ -0,0 +1,5 @@
+export interface FileValidationIssue {
+	message: string;
+	line?: number;
+	column?: number;
+}
@@ -0,0 +1,6 @@
+import type { FileValidationIssue } from "./FileValidationIssue.js";
+
+export type FileValidator = (
+	content: string,
+	filePath: string,
+) => FileValidationIssue[] | Promise<FileValidationIssue[]>;
@@ -0,0 +1,9 @@
+import type { DownloadFileParams } from "@lokalise/node-api";
+import type { InMemoryExtractParams } from "./InMemoryExtractParams.js";
+import type { ProcessDownloadFileParams } from "./ProcessDownloadFileParams.js";
+
+export interface InMemoryDownloadParams {
+	downloadFileParams: DownloadFileParams;
+	extractParams?: InMemoryExtractParams;
+	processDownloadFileParams?: ProcessDownloadFileParams;
+}
@@ -0,0 +1,17 @@
+import type { ExtractParams } from "./ExtractParams.js";
+
+export interface InMemoryExtractParams
+	extends Pick<
+		ExtractParams,
+		| "include"
+		| "exclude"
+		| "mapPath"
+		| "specialEntries"
+		| "maxEntries"
+		| "maxTotalBytes"
+		| "maxFileBytes"
+		| "maxCompressionRatio"
+	> {
+	bufferZip?: boolean;
+	maxZipBytes?: number;
+}
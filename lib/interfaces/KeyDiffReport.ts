@@ -0,0 +1,7 @@
+import type { FileKeyDiff } from "./FileKeyDiff.js";
+import type { LanguageKeyDiff } from "./LanguageKeyDiff.js";
+
+export interface KeyDiffReport {
+	files: FileKeyDiff[];
+	languages: LanguageKeyDiff[];
+}
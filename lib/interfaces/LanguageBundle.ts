@@ -0,0 +1,7 @@
+export interface LanguageBundle {
+	languages: string[];
+	bundleUrl: string;
+	processId: string;
+	bundleSize: number;
+	archivePath?: string;
+}
@@ -0,0 +1,7 @@
+export interface LanguageKeyDiff {
+	language: string;
+	files: number;
+	added: number;
+	removed: number;
+	changed: number;
+}
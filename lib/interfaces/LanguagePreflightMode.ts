@@ -0,0 +1 @@
+export type LanguagePreflightMode = "error" | "skip";
@@ -0,0 +1,5 @@
+import type { DownloadTranslationParams } from "./DownloadTranslationParams.js";
+
+export interface LanguageSplitDownloadParams extends DownloadTranslationParams {
+	languageGroups?: string[][];
+}
@@ -0,0 +1,13 @@
+import type { DownloadTimings } from "./DownloadTimings.js";
+import type { ExtractResult } from "./ExtractResult.js";
+import type { KeyDiffReport } from "./KeyDiffReport.js";
+import type { LanguageBundle } from "./LanguageBundle.js";
+
+export interface LanguageSplitDownloadResult extends ExtractResult {
+	bundles: LanguageBundle[];
+	bundleSize: number;
+	outputDir: string;
+	deleted: string[];
+	diffReport?: KeyDiffReport;
+	timings: DownloadTimings;
+}
@@ -0,0 +1,8 @@
+export type LanguageStrategyName =
+	| "android"
+	| "basename"
+	| "directory"
+	| "ios"
+	| "suffix";
+
+export type LanguageStrategy = LanguageStrategyName | RegExp;
@@ -1,5 +1,9 @@
 import type { LogThreshold } from "kliedz";
-import type { RetryParams } from "../interfaces/index.js";
+import type {
+	BundleFetchParams,
+	BundleUrlParams,
+	RetryParams,
+} from "../interfaces/index.js";
 
 export interface LokaliseExchangeConfig {
 	projectId: string;
@@ -7,4 +11,6 @@ export interface LokaliseExchangeConfig {
 	retryParams?: Partial<RetryParams>;
 	logThreshold?: LogThreshold;
 	logColor?: boolean;
+	bundleUrlParams?: Partial<BundleUrlParams>;
+	bundleFetchParams?: BundleFetchParams;
 }
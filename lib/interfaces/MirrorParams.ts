@@ -0,0 +1,4 @@
+export interface MirrorParams {
+	include: string | string[];
+	dryRun?: boolean;
+}
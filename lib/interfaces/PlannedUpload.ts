@@ -0,0 +1,9 @@
+import type { UploadFileParams } from "@lokalise/node-api";
+
+export interface PlannedUpload {
+	file: string;
+	filename: string;
+	language: string;
+	size: number;
+	uploadFileParams: Omit<UploadFileParams, "data">;
+}
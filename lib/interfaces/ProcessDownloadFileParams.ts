@@ -1,6 +1,13 @@
+import type { BundleArchiveParams } from "./BundleArchiveParams.js";
+import type { DownloadProgressCallback } from "./DownloadProgress.js";
+
 export interface ProcessDownloadFileParams {
 	asyncDownload?: boolean;
 	pollInitialWaitTime?: number;
 	pollMaximumWaitTime?: number;
 	bundleDownloadTimeout?: number;
+	bundleIdleTimeout?: number;
+	onProgress?: DownloadProgressCallback;
+	tempDir?: string;
+	archive?: BundleArchiveParams;
 }
@@ -1,7 +1,13 @@
+import type { LanguagePreflightMode } from "./LanguagePreflightMode.js";
+import type { LanguageStrategy } from "./LanguageStrategy.js";
+
 type Inferer = (filePath: string) => Promise<string> | string;
 
 export interface ProcessUploadFileParams {
 	languageInferer?: Inferer;
+	languageStrategy?: LanguageStrategy;
+	languageMapping?: Record<string, string>;
+	languagePreflight?: LanguagePreflightMode;
 	filenameInferer?: Inferer;
 	pollStatuses?: boolean;
 	pollInitialWaitTime?: number;
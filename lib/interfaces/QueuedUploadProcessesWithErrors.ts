@@ -1,7 +1,11 @@
 import type { QueuedProcess } from "@lokalise/node-api";
 import type { FileUploadError } from "./FileUploadError.js";
+import type { UnknownLanguage } from "./UnknownLanguage.js";
+import type { UploadPlan } from "./UploadPlan.js";
 
 export interface QueuedUploadProcessesWithErrors {
 	processes: QueuedProcess[];
 	errors: FileUploadError[];
+	plan?: UploadPlan;
+	unknownLanguages?: UnknownLanguage[];
 }
@@ -0,0 +1,12 @@
+export type ZipEntrySkipReason =
+	| "directory"
+	| "exists"
+	| "filtered"
+	| "special"
+	| "unchanged";
+
+export interface SkippedZipEntry {
+	entryName: string;
+	reason: ZipEntrySkipReason;
+	path?: string;
+}
@@ -0,0 +1 @@
+export type SpecialEntryPolicy = "reject" | "skip";
@@ -0,0 +1,8 @@
+import type { SyncedFile } from "./SyncedFile.js";
+
+export interface SyncState {
+	version: 1;
+	lastSync: string;
+	bundleHash: string;
+	files: SyncedFile[];
+}
@@ -0,0 +1,5 @@
+export interface SyncedFile {
+	entryName: string;
+	path: string;
+	hash: string;
+}
@@ -0,0 +1,7 @@
+import type { DownloadTimings } from "./DownloadTimings.js";
+
+export interface TranslationBundleInfo {
+	bundleUrl: string;
+	processId?: string;
+	timings: Pick<DownloadTimings, "queue" | "poll">;
+}
@@ -0,0 +1,4 @@
+export interface UnknownLanguage {
+	language: string;
+	files: string[];
+}
@@ -0,0 +1,8 @@
+import type { DownloadProgressCallback } from "./DownloadProgress.js";
+import type { ZipSyncContext } from "./ZipSyncContext.js";
+
+export interface UnpackZipOptions {
+	destinationDir?: string;
+	onProgress?: DownloadProgressCallback;
+	sync?: ZipSyncContext;
+}
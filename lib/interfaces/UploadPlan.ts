@@ -0,0 +1,7 @@
+import type { PlannedUpload } from "./PlannedUpload.js";
+import type { UploadPlanProblem } from "./UploadPlanProblem.js";
+
+export interface UploadPlan {
+	files: PlannedUpload[];
+	problems: UploadPlanProblem[];
+}
@@ -0,0 +1,5 @@
+export interface UploadPlanProblem {
+	reason: "duplicate" | "empty language" | "unknown language";
+	message: string;
+	files: string[];
+}
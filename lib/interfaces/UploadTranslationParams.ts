@@ -6,4 +6,5 @@ export interface UploadTranslationParams {
 	uploadFileParams?: PartialUploadFileParams;
 	collectFileParams?: CollectFileParams;
 	processUploadFileParams?: ProcessUploadFileParams;
+	dryRun?: boolean;
 }
@@ -0,0 +1,6 @@
+import type { FileValidator } from "./FileValidator.js";
+
+export interface ValidationParams {
+	mode?: "warn" | "fail";
+	validators?: Record<string, FileValidator | null>;
+}
@@ -0,0 +1,8 @@
+import type { DownloadProgressCallback } from "./DownloadProgress.js";
+
+export interface ZipDownloadOptions {
+	downloadTimeout?: number;
+	idleTimeout?: number;
+	onProgress?: DownloadProgressCallback;
+	tempDir?: string;
+}
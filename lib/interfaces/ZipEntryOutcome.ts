@@ -0,0 +1,6 @@
+import type { ExtractedFile } from "./ExtractedFile.js";
+import type { SkippedZipEntry } from "./SkippedZipEntry.js";
+
+export type ZipEntryOutcome =
+	| { file: ExtractedFile }
+	| { skipped: SkippedZipEntry };
@@ -0,0 +1 @@
+export type ZipEntryPathMapper = (entryName: string) => string;
@@ -0,0 +1,10 @@
+import type { ExtractParams } from "./ExtractParams.js";
+import type { ZipSyncContext } from "./ZipSyncContext.js";
+
+export interface ZipExtractionContext {
+	extractParams: ExtractParams;
+	totalBytes: number;
+	destinationDir?: string;
+	sync?: ZipSyncContext;
+	createdPaths?: Set<string>;
+}
@@ -0,0 +1,6 @@
+import type { SyncedFile } from "./SyncedFile.js";
+
+export interface ZipSyncContext {
+	previous: Map<string, string>;
+	files: SyncedFile[];
+}
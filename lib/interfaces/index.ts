@@ -1,12 +1,61 @@
+export type { BatchDownloadError } from "./BatchDownloadError.js";
+export type { BatchDownloadItem } from "./BatchDownloadItem.js";
+export type { BatchDownloadOptions } from "./BatchDownloadOptions.js";
+export type { BatchDownloadResult } from "./BatchDownloadResult.js";
+export type { BundleArchiveParams } from "./BundleArchiveParams.js";
+export type { BundleFetchParams } from "./BundleFetchParams.js";
+export type { BundleUrlParams } from "./BundleUrlParams.js";
 export type { CollectFileParams } from "./CollectFileParams.js";
+export type { ConflictPolicy } from "./ConflictPolicy.js";
+export type { DiffReportParams } from "./DiffReportParams.js";
+export type {
+	DownloadProgress,
+	DownloadProgressCallback,
+} from "./DownloadProgress.js";
+export type { DownloadResult } from "./DownloadResult.js";
+export type { DownloadTimings } from "./DownloadTimings.js";
 export type { DownloadTranslationParams } from "./DownloadTranslationParams.js";
+export type { ExtractedFile } from "./ExtractedFile.js";
 export type { ExtractParams } from "./ExtractParams.js";
+export type { ExtractResult } from "./ExtractResult.js";
+export type { ExtractTranslationParams } from "./ExtractTranslationParams.js";
+export type { ExtractTranslationResult } from "./ExtractTranslationResult.js";
+export type { FileKeyDiff } from "./FileKeyDiff.js";
 export type { FileUploadError } from "./FileUploadError.js";
+export type { FileValidationError } from "./FileValidationError.js";
+export type { FileValidationIssue } from "./FileValidationIssue.js";
+export type { FileValidator } from "./FileValidator.js";
+export type { InMemoryDownloadParams } from "./InMemoryDownloadParams.js";
+export type { InMemoryExtractParams } from "./InMemoryExtractParams.js";
+export type { KeyDiffReport } from "./KeyDiffReport.js";
+export type { LanguageBundle } from "./LanguageBundle.js";
+export type { LanguageKeyDiff } from "./LanguageKeyDiff.js";
+export type { LanguagePreflightMode } from "./LanguagePreflightMode.js";
+export type { LanguageSplitDownloadParams } from "./LanguageSplitDownloadParams.js";
+export type { LanguageSplitDownloadResult } from "./LanguageSplitDownloadResult.js";
+export type {
+	LanguageStrategy,
+	LanguageStrategyName,
+} from "./LanguageStrategy.js";
 export type { LokaliseExchangeConfig } from "./LokaliseExchangeConfig.js";
+export type { MirrorParams } from "./MirrorParams.js";
 export type { PartialUploadFileParams } from "./PartialUploadFileParams.js";
+export type { PlannedUpload } from "./PlannedUpload.js";
 export type { ProcessDownloadFileParams } from "./ProcessDownloadFileParams.js";
 export type { ProcessedFile } from "./ProcessedFile.js";
 export type { ProcessUploadFileParams } from "./ProcessUploadFileParams.js";
 export type { QueuedUploadProcessesWithErrors } from "./QueuedUploadProcessesWithErrors.js";
 export type { RetryParams } from "./RetryParams.js";
+export type {
+	SkippedZipEntry,
+	ZipEntrySkipReason,
+} from "./SkippedZipEntry.js";
+export type { SpecialEntryPolicy } from "./SpecialEntryPolicy.js";
+export type { SyncedFile } from "./SyncedFile.js";
+export type { SyncState } from "./SyncState.js";
+export type { UnknownLanguage } from "./UnknownLanguage.js";
+export type { UploadPlan } from "./UploadPlan.js";
+export type { UploadPlanProblem } from "./UploadPlanProblem.js";
 export type { UploadTranslationParams } from "./UploadTranslationParams.js";
+export type { ValidationParams } from "./ValidationParams.js";
+export type { ZipEntryPathMapper } from "./ZipEntryPathMapper.js";
@@ -0,0 +1,200 @@
+import type {
+	LanguageStrategy,
+	LanguageStrategyName,
+} from "../interfaces/LanguageStrategy.js";
+
+type LanguageStrategyFn = (
+	segments: string[],
+	knownLanguages?: ReadonlySet<string>,
+) => string | undefined;
+
+/**
+ * Deprecated language codes still used by Android resource qualifiers.
+ */
+const ANDROID_LEGACY_CODES: ReadonlyMap<string, string> = new Map([
+	["iw", "he"],
+	["in", "id"],
+	["ji", "yi"],
+]);
+
+const LOCALE_SUFFIX = /[_-]([a-z]{2,3})(?:[_-]([A-Z]{2}|\d{3}))?$/;
+
+/**
+ * Reads the language from the part of the filename before the first dot,
+ * as in `fr.yml` or `pt-BR.json`.
+ *
+ * @param segments - Path segments of the file.
+ * @returns The language, if any.
+ */
+function fromBasename(segments: string[]): string | undefined {
+	return segments.at(-1)?.split(".")[0];
+}
+
+/**
+ * Reads the language from the name of the parent directory, as in `locales/fr/common.json`.
+ *
+ * @param segments - Path segments of the file.
+ * @returns The language, if any.
+ */
+function fromDirectory(segments: string[]): string | undefined {
+	return segments.at(-2);
+}
+
+/**
+ * Reads the language from the nearest Android `values-*` directory.
+ *
+ * Supports `values-fr`, region qualifiers such as `values-pt-rBR` (`pt_BR`),
+ * BCP 47 qualifiers such as `values-b+sr+Latn` (`sr_Latn`), and trailing
+ * qualifiers such as `values-fr-land`. Legacy codes are replaced with
+ * current ones (`iw` becomes `he`).
+ *
+ * @param segments - Path segments of the file.
+ * @returns The language, if any.
+ */
+function fromAndroid(segments: string[]): string | undefined {
+	for (const dir of segments.slice(0, -1).reverse()) {
+		if (!dir.startsWith("values-")) {
+			continue;
+		}
+
+		const [first = "", second = ""] = dir.slice("values-".length).split("-");
+		let subtags: string[];
+
+		if (first.startsWith("b+")) {
+			subtags = first.slice(2).split("+");
+		} else if (/^[a-z]{2,3}$/.test(first)) {
+			const region = /^r([A-Z]{2}|\d{3})$/.exec(second)?.[1];
+			subtags = region ? [first, region] : [first];
+		} else {
+			continue;
+		}
+
+		const [language = "", ...rest] = subtags;
+		if (!/^[a-zA-Z]{2,3}$/.test(language)) {
+			continue;
+		}
+
+		const code = language.toLowerCase();
+		return [
+			ANDROID_LEGACY_CODES.get(code) ?? code,
+			...rest.map((subtag) =>
+				subtag.length === 4
+					? subtag[0]?.toUpperCase() + subtag.slice(1).toLowerCase()
+					: subtag.toUpperCase(),
+			),
+		].join("_");
+	}
+
+	return undefined;
+}
+
+/**
+ * Reads the language from the nearest iOS `*.lproj` directory, as in
+ * `fr.lproj/Localizable.strings` or `zh-Hans.lproj` (`zh_Hans`). `Base.lproj`
+ * has no language.
+ *
+ * @param segments - Path segments of the file.
+ * @returns The language, if any.
+ */
+function fromIos(segments: string[]): string | undefined {
+	const dir = segments
+		.slice(0, -1)
+		.reverse()
+		.find((name) => name.endsWith(".lproj"));
+	const code = dir?.slice(0, -".lproj".length);
+
+	return code === "Base" ? undefined : code?.replace(/-/g, "_");
+}
+
+/**
+ * Reads the language from a locale suffix of the filename, as in Java
+ * `messages_fr.properties` or `messages_pt_BR.properties`. A `-` separator is
+ * accepted as well.
+ *
+ * Ordinary words look like suffixes too (`common_app.properties`,
+ * `foo-bar.json`), so when known languages are given, other codes are ignored.
+ *
+ * @param segments - Path segments of the file.
+ * @param knownLanguages - Optional codes the suffix must be one of.
+ * @returns The language, if any.
+ */
+function fromSuffix(
+	segments: string[],
+	knownLanguages?: ReadonlySet<string>,
+): string | undefined {
+	const name = segments.at(-1)?.replace(/\.[^.]*$/, "") ?? "";
+	const match = LOCALE_SUFFIX.exec(name);
+	const code = match
+		? [match[1], match[2]].filter(Boolean).join("_")
+		: undefined;
+
+	return code && (!knownLanguages || knownLanguages.has(code))
+		? code
+		: undefined;
+}
+
+const strategies: Readonly<Record<LanguageStrategyName, LanguageStrategyFn>> = {
+	android: fromAndroid,
+	basename: fromBasename,
+	directory: fromDirectory,
+	ios: fromIos,
+	suffix: fromSuffix,
+};
+
+/**
+ * Checks whether a value is a supported language strategy.
+ *
+ * @param value - The value to check.
+ * @returns `true` for a strategy name or a regular expression.
+ */
+export function isLanguageStrategy(value: unknown): value is LanguageStrategy {
+	return (
+		value instanceof RegExp ||
+		(typeof value === "string" && Object.hasOwn(strategies, value))
+	);
+}
+
+/**
+ * Reads the language from the part of a filename before its last extension,
+ * as in `fr.json` or `common.fr.json`. This is the fallback used when no
+ * other inference applies.
+ *
+ * @param baseName - Name of the file without its directory.
+ * @returns The language code, or `"unknown"` if the name has no extension.
+ */
+export function inferLanguageFromFilename(baseName: string): string {
+	return baseName.split(".").slice(-2, -1)[0] ?? "unknown";
+}
+
+/**
+ * Infers the language of a file from its path.
+ *
+ * A regular expression is matched against the path and its first capture
+ * group is used. The `suffix` strategy only accepts codes from
+ * `knownLanguages`, when given.
+ *
+ * @param filePath - POSIX path of the file relative to the project root.
+ * @param strategy - A strategy name or a regular expression.
+ * @param knownLanguages - Optional language codes of the project.
+ * @returns The trimmed language code, or `undefined` if the path doesn't match the strategy.
+ */
+export function inferLanguageFromPath(
+	filePath: string,
+	strategy: LanguageStrategy,
+	knownLanguages?: ReadonlySet<string>,
+): string | undefined {
+	if (strategy instanceof RegExp) {
+		// Global and sticky expressions keep state between calls
+		strategy.lastIndex = 0;
+	}
+
+	const language =
+		strategy instanceof RegExp
+			? strategy.exec(filePath)?.[1]
+			: strategies[strategy](
+					filePath.split("/").filter(Boolean),
+					knownLanguages,
+				);
+
+	return language?.trim() || undefined;
+}
@@ -2,80 +2,710 @@ import crypto from "node:crypto";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { pipeline, Readable } from "node:stream";
-import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import { pipeline, type Readable, Transform, Writable } from "node:stream";
 import { promisify } from "node:util";
 import type {
+	ClientParams,
 	DownloadBundle,
 	DownloadedFileProcessDetails,
 	DownloadFileParams,
 	QueuedProcess,
 } from "@lokalise/node-api";
 import yauzl from "yauzl";
+import {
+	buildArchiveFilename,
+	pruneArchives,
+	storeArchive,
+	TEMP_ZIP_SUFFIX,
+	validateArchiveParams,
+} from "../archive/bundleArchive.js";
+import {
+	diffFileKeys,
+	formatKeyDiffMarkdown,
+	inferDiffLanguage,
+	summarizeKeyDiff,
+} from "../diff/keyDiffReport.js";
+import { hasTranslationKeyParser } from "../diff/translationKeys.js";
 import { LokaliseError } from "../errors/LokaliseError.js";
+import {
+	type BundleRetryContext,
+	fetchBundleResponse,
+	fetchZipWithRetries,
+	validateBundleFetchParams,
+	validateBundleUrlParams,
+} from "../fetch/bundleFetch.js";
 import type {
+	BatchDownloadError,
+	BatchDownloadItem,
+	BatchDownloadOptions,
+	BatchDownloadResult,
+	BundleArchiveParams,
+	BundleFetchParams,
+	BundleUrlParams,
+	DiffReportParams,
+	DownloadProgressCallback,
+	DownloadResult,
 	DownloadTranslationParams,
+	ExtractedFile,
+	ExtractParams,
+	ExtractResult,
+	ExtractTranslationParams,
+	ExtractTranslationResult,
+	FileKeyDiff,
+	FileValidationError,
+	FileValidator,
+	InMemoryDownloadParams,
+	KeyDiffReport,
+	LanguageBundle,
+	LanguageSplitDownloadParams,
+	LanguageSplitDownloadResult,
+	LokaliseExchangeConfig,
+	MirrorParams,
 	ProcessDownloadFileParams,
+	ValidationParams,
 } from "../interfaces/index.js";
+import type { TranslationBundleInfo } from "../interfaces/TranslationBundleInfo.js";
+import type { UnpackZipOptions } from "../interfaces/UnpackZipOptions.js";
+import type { ZipDownloadOptions } from "../interfaces/ZipDownloadOptions.js";
+import type { ZipEntryOutcome } from "../interfaces/ZipEntryOutcome.js";
+import type { ZipExtractionContext } from "../interfaces/ZipExtractionContext.js";
+import type { ZipSyncContext } from "../interfaces/ZipSyncContext.js";
+import {
+	hashContent,
+	hashFile,
+	readSyncState,
+	writeSyncState,
+} from "../sync/syncState.js";
+import { builtInFileValidators } from "../validators/index.js";
 import { LokaliseFileExchange } from "./LokaliseFileExchange.js";
 
+/**
+ * A single file move performed while committing an atomic extraction.
+ */
+interface StagedFileSwap {
+	target: string;
+	backup?: string;
+	keptBackup?: string;
+	placed: boolean;
+}
+
+/**
+ * Download process settings that have no default value.
+ */
+type OptionalProcessParam = "onProgress" | "tempDir" | "archive";
+
+/**
+ * Download process settings with defaults applied; settings without a default stay optional.
+ */
+type ResolvedProcessParams = Required<
+	Omit<ProcessDownloadFileParams, OptionalProcessParam>
+> &
+	Pick<ProcessDownloadFileParams, OptionalProcessParam>;
+
+/**
+ * Result of extracting a single bundle.
+ */
+type ExtractedBundle = ExtractResult & {
+	bundleSize: number;
+	bundleUnchanged?: boolean;
+	diffReport?: KeyDiffReport;
+};
+
+/**
+ * Optional settings of `processZip`.
+ */
+interface ProcessZipOptions {
+	onProgress?: DownloadProgressCallback;
+	archive?: BundleArchiveParams;
+	processId?: string;
+}
+
+/**
+ * A single configuration of a batch download along with its progress.
+ */
+interface BatchDownloadJob {
+	index: number;
+	params: DownloadTranslationParams;
+	processParams: ResolvedProcessParams;
+	queued?: QueuedProcess;
+	queueTime?: number;
+}
+
 /**
  * Handles downloading and extracting translation files from Lokalise.
  */
 export class LokaliseDownload extends LokaliseFileExchange {
-	private static readonly defaultProcessParams: Required<ProcessDownloadFileParams> =
-		{
-			asyncDownload: false,
-			pollInitialWaitTime: 1000,
-			pollMaximumWaitTime: 120_000,
-			bundleDownloadTimeout: 0,
-		};
+	private static readonly defaultProcessParams: ResolvedProcessParams = {
+		asyncDownload: false,
+		pollInitialWaitTime: 1000,
+		pollMaximumWaitTime: 120_000,
+		bundleDownloadTimeout: 0,
+		bundleIdleTimeout: 0,
+	};
+
+	private static readonly ZIP_LIMIT_REASON = "zip limit exceeded";
+
+	private static readonly DEFAULT_MAX_ZIP_BYTES = 100 * 1024 * 1024;
+
+	private static readonly IN_MEMORY_ROOT = path.resolve("/lokalise-bundle");
+
+	private static readonly OFFLINE_PLACEHOLDER = "offline";
+
+	private static readonly defaultBundleUrlParams: BundleUrlParams = {
+		allowedHosts: [
+			"s3-eu-west-1.amazonaws.com/lokalise-live-lok-s3-fss-export/",
+			"lokalise-live-lok-s3-fss-export.s3.eu-west-1.amazonaws.com",
+			"*.lokalise.com",
+		],
+		requireHttps: true,
+	};
+
+	private static readonly ZIP_UNIX_HOST = 3;
+
+	private static readonly SPECIAL_FILE_TYPES = new Map<number, string>([
+		[0o010000, "fifo"],
+		[0o020000, "character device"],
+		[0o060000, "block device"],
+		[0o120000, "symlink"],
+		[0o140000, "socket"],
+	]);
+
+	private static readonly VALIDATION_MODES = ["warn", "fail"];
+
+	private static readonly DIFF_REPORT_FORMATS = ["json", "markdown"];
+
+	/**
+	 * Hosts and protocols that bundles may be downloaded from.
+	 */
+	protected readonly bundleUrlParams: BundleUrlParams;
+
+	/**
+	 * Transport settings used for bundle downloads.
+	 */
+	protected readonly bundleFetchParams: BundleFetchParams;
 
 	private readonly streamPipeline = promisify(pipeline);
 
+	/**
+	 * Creates a new instance of LokaliseDownload.
+	 *
+	 * @param clientConfig - Configuration for the Lokalise SDK.
+	 * @param exchangeConfig - The configuration object for file exchange operations.
+	 * @throws {LokaliseError} If the provided configuration is invalid.
+	 */
+	constructor(
+		clientConfig: ClientParams,
+		exchangeConfig: LokaliseExchangeConfig,
+	) {
+		super(clientConfig, exchangeConfig);
+
+		this.bundleUrlParams = {
+			...LokaliseDownload.defaultBundleUrlParams,
+			...exchangeConfig.bundleUrlParams,
+		};
+		this.bundleFetchParams = exchangeConfig.bundleFetchParams ?? {};
+		validateBundleUrlParams(this.bundleUrlParams);
+		validateBundleFetchParams(this.bundleFetchParams);
+	}
+
+	/**
+	 * Creates a downloader that only works with local bundles.
+	 *
+	 * No credentials are required: the API client is configured with placeholder
+	 * values, so only `extractTranslations` is usable and any call to the
+	 * Lokalise API will be rejected as unauthorized.
+	 *
+	 * @param exchangeConfig - Optional retry and logging settings.
+	 * @returns A downloader for extracting local bundles.
+	 */
+	static forLocalBundles(
+		exchangeConfig: Omit<
+			LokaliseExchangeConfig,
+			"projectId" | "useOAuth2"
+		> = {},
+	): LokaliseDownload {
+		return new LokaliseDownload(
+			{ apiKey: LokaliseDownload.OFFLINE_PLACEHOLDER },
+			{ ...exchangeConfig, projectId: LokaliseDownload.OFFLINE_PLACEHOLDER },
+		);
+	}
+
 	/**
 	 * Downloads translations from Lokalise, optionally using async polling, and extracts them to disk.
 	 *
 	 * @param downloadTranslationParams - Full configuration for the download process, extraction destination, and optional polling or timeout settings.
+	 * @returns Summary of the download: bundle URL, async process ID, extracted files, skipped entries, and per-phase timings.
 	 * @throws {LokaliseError} If the download, polling, or extraction fails.
 	 */
 	async downloadTranslations({
 		downloadFileParams,
 		extractParams = {},
 		processDownloadFileParams,
-	}: DownloadTranslationParams): Promise<void> {
+	}: DownloadTranslationParams): Promise<DownloadResult> {
 		this.logMsg("debug", "Downloading translations from Lokalise...");
 
 		const processParams = this.buildProcessParams(processDownloadFileParams);
+		this.validateDownloadParams(extractParams, processParams);
 
-		const translationsBundleURL = await this.fetchTranslationBundleURL(
+		const bundleInfo = await this.fetchTranslationBundleURL(
 			downloadFileParams,
 			processParams,
 		);
 
-		const zipFilePath = await this.downloadZip(
-			translationsBundleURL,
-			processParams.bundleDownloadTimeout,
+		return await this.downloadBundle(bundleInfo, extractParams, processParams);
+	}
+
+	/**
+	 * Downloads several bundle configurations, for example one per platform.
+	 *
+	 * All async download processes are queued first and polled together, then
+	 * the bundles are downloaded and extracted with bounded concurrency. A
+	 * failing configuration does not stop the others: its error is collected
+	 * and reported alongside the successful results.
+	 *
+	 * @param configs - Download configurations, each with its own extraction settings.
+	 * @param batchOptions - Maximum number of configurations processed at the same time.
+	 * @returns Results and errors of the configurations, identified by their index in `configs`.
+	 * @throws {LokaliseError} If the concurrency setting is invalid.
+	 */
+	async downloadTranslationsBatch(
+		configs: DownloadTranslationParams[],
+		{
+			concurrency = LokaliseFileExchange.maxConcurrentProcesses,
+		}: BatchDownloadOptions = {},
+	): Promise<BatchDownloadResult> {
+		if (!(Number.isInteger(concurrency) && concurrency > 0)) {
+			throw new LokaliseError("concurrency must be a positive integer.");
+		}
+
+		this.logMsg(
+			"debug",
+			`Downloading ${configs.length} translation bundles from Lokalise...`,
+		);
+
+		const results: BatchDownloadItem[] = [];
+		const errors: BatchDownloadError[] = [];
+		const fail = (job: BatchDownloadJob, error: unknown) => {
+			this.logMsg(
+				"warn",
+				`Batch download #${job.index} failed: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			errors.push({ index: job.index, error });
+		};
+
+		const jobs: BatchDownloadJob[] = [];
+		configs.forEach((params, index) => {
+			const job: BatchDownloadJob = {
+				index,
+				params,
+				processParams: this.buildProcessParams(
+					params.processDownloadFileParams,
+				),
+			};
+
+			try {
+				this.validateDownloadParams(
+					params.extractParams ?? {},
+					job.processParams,
+				);
+				jobs.push(job);
+			} catch (error) {
+				fail(job, error);
+			}
+		});
+
+		await this.runWithConcurrencyLimit(
+			jobs.filter((job) => job.processParams.asyncDownload),
+			concurrency,
+			async (job) => {
+				try {
+					const queueStartedAt = Date.now();
+					job.queued = await this.getTranslationsBundleAsync(
+						job.params.downloadFileParams,
+					);
+					job.queueTime = Date.now() - queueStartedAt;
+				} catch (error) {
+					fail(job, error);
+				}
+			},
+		);
+
+		const queuedJobs = jobs.filter((job) => job.queued);
+		const maxWait = Math.max(
+			0,
+			...queuedJobs.map((job) => job.processParams.pollMaximumWaitTime),
 		);
+		let completed: QueuedProcess[] = [];
+		let pollTime = 0;
 
-		await this.processZip(
-			zipFilePath,
-			path.resolve(extractParams.outputDir ?? "./"),
+		if (queuedJobs.length > 0) {
+			const pollStartedAt = Date.now();
+			try {
+				completed = await this.pollProcesses(
+					queuedJobs.map((job) => job.queued as QueuedProcess),
+					Math.min(
+						...queuedJobs.map((job) => job.processParams.pollInitialWaitTime),
+					),
+					maxWait,
+					concurrency,
+				);
+			} catch (error) {
+				for (const job of queuedJobs) {
+					fail(job, error);
+				}
+			}
+			pollTime = Date.now() - pollStartedAt;
+		}
+
+		const failed = new Set(errors.map(({ index }) => index));
+
+		await this.runWithConcurrencyLimit(
+			jobs.filter((job) => !failed.has(job.index)),
+			concurrency,
+			async (job) => {
+				try {
+					const bundleInfo = job.queued
+						? this.resolveAsyncBundleInfo(
+								this.assertDownloadProcessFinished(
+									job.queued,
+									completed.find(
+										(p) => p.process_id === job.queued?.process_id,
+									),
+									maxWait,
+								),
+								maxWait,
+								{ queue: job.queueTime ?? 0, poll: pollTime },
+							)
+						: await this.fetchBundleURLSync(job.params.downloadFileParams);
+
+					results.push({
+						index: job.index,
+						result: await this.downloadBundle(
+							bundleInfo,
+							job.params.extractParams ?? {},
+							job.processParams,
+						),
+					});
+				} catch (error) {
+					fail(job, error);
+				}
+			},
 		);
+
+		return {
+			results: results.sort((a, b) => a.index - b.index),
+			errors: errors.sort((a, b) => a.index - b.index),
+		};
 	}
 
 	/**
-	 * Unpacks a ZIP file into the specified directory.
+	 * Downloads translations as several bundles, one per language or language group.
+	 *
+	 * Building a single async bundle for a project with dozens of languages can
+	 * take minutes. Here one async process is queued per group with
+	 * `filter_langs` narrowed to that group, all processes are polled together,
+	 * and the bundles are downloaded in parallel and extracted into the same
+	 * `outputDir`. Before anything is written, the bundles are checked for
+	 * files that would land on the same path.
+	 *
+	 * @param languageSplitDownloadParams - Download, extraction and process settings, plus optional explicit language groups.
+	 * @returns Summary of the download: per-bundle details, extracted files, skipped entries, and per-phase timings.
+	 * @throws {LokaliseError} If the settings are invalid, bundles overlap, or any download, polling, or extraction fails.
+	 */
+	async downloadTranslationsByLanguage({
+		downloadFileParams,
+		extractParams = {},
+		processDownloadFileParams,
+		languageGroups,
+	}: LanguageSplitDownloadParams): Promise<LanguageSplitDownloadResult> {
+		const processParams = this.buildProcessParams(processDownloadFileParams);
+		this.validateDownloadParams(extractParams, processParams);
+
+		const groups = this.buildLanguageGroups(
+			languageGroups ?? downloadFileParams.filter_langs,
+		);
+		if (extractParams.syncStateFile) {
+			throw new LokaliseError(
+				"syncStateFile is not supported when splitting a download by language.",
+			);
+		}
+		if (
+			processParams.archive &&
+			!processParams.archive.filename?.includes("{processId}")
+		) {
+			throw new LokaliseError(
+				"archive.filename must contain {processId} when splitting a download by language.",
+			);
+		}
+
+		this.logMsg(
+			"debug",
+			`Downloading translations as ${groups.length} language bundles...`,
+		);
+
+		const queueStartedAt = Date.now();
+		const queued = await this.runWithConcurrencyLimit(
+			groups,
+			LokaliseFileExchange.maxConcurrentProcesses,
+			(languages) =>
+				this.getTranslationsBundleAsync({
+					...downloadFileParams,
+					filter_langs: languages,
+				}),
+		);
+		const queueTime = Date.now() - queueStartedAt;
+
+		const { pollInitialWaitTime, pollMaximumWaitTime } = processParams;
+
+		const pollStartedAt = Date.now();
+		const completed = await this.pollProcesses(
+			queued,
+			pollInitialWaitTime,
+			pollMaximumWaitTime,
+		);
+		const pollTime = Date.now() - pollStartedAt;
+
+		const bundleUrls = queued.map(
+			(downloadProcess) =>
+				this.resolveAsyncBundleInfo(
+					this.assertDownloadProcessFinished(
+						downloadProcess,
+						completed.find((p) => p.process_id === downloadProcess.process_id),
+						pollMaximumWaitTime,
+					),
+					pollMaximumWaitTime,
+					{ queue: queueTime, poll: pollTime },
+				).bundleUrl,
+		);
+
+		const outputDir = path.resolve(extractParams.outputDir ?? "./");
+		const zipFilePaths: string[] = [];
+		const bundles: LanguageBundle[] = [];
+		const result: ExtractResult = { files: [], skipped: [] };
+		const diffFiles: FileKeyDiff[] = [];
+		let fetchTime = 0;
+		let unpackTime = 0;
+
+		try {
+			const fetchStartedAt = Date.now();
+			let fetchFailure: { error: unknown } | undefined;
+			// Workers never reject, so downloads still in flight after a failure
+			// settle before their temporary ZIPs are released below
+			await this.runWithConcurrencyLimit(
+				bundleUrls,
+				LokaliseFileExchange.maxConcurrentProcesses,
+				async (bundleUrl, index) => {
+					if (fetchFailure) {
+						return;
+					}
+					try {
+						zipFilePaths[index] = await this.downloadZip(
+							bundleUrl,
+							this.buildZipDownloadOptions(processParams),
+						);
+					} catch (error) {
+						fetchFailure ??= { error };
+					}
+				},
+			);
+			if (fetchFailure) {
+				throw fetchFailure.error;
+			}
+			fetchTime = Date.now() - fetchStartedAt;
+
+			const unpackStartedAt = Date.now();
+			await this.assertNoOverlappingPaths(
+				zipFilePaths,
+				groups,
+				outputDir,
+				extractParams,
+			);
+
+			for (const [index, zipFilePath] of zipFilePaths.entries()) {
+				const { bundleSize, files, skipped, validationErrors, diffReport } =
+					await this.extractZip(
+						zipFilePath,
+						outputDir,
+						extractParams,
+						processParams.onProgress,
+					);
+				result.files.push(...files);
+				result.skipped.push(...skipped);
+				if (validationErrors) {
+					result.validationErrors = [
+						...(result.validationErrors ?? []),
+						...validationErrors,
+					];
+				}
+				diffFiles.push(...(diffReport?.files ?? []));
+				bundles[index] = {
+					languages: groups[index] as string[],
+					bundleUrl: bundleUrls[index] as string,
+					processId: (queued[index] as QueuedProcess).process_id,
+					bundleSize,
+				};
+			}
+			unpackTime = Date.now() - unpackStartedAt;
+		} finally {
+			for (const [index, zipFilePath] of zipFilePaths.entries()) {
+				if (!zipFilePath) {
+					continue;
+				}
+				const archivePath = await this.releaseZip(
+					zipFilePath,
+					processParams.archive,
+					queued[index]?.process_id,
+				);
+				if (archivePath && bundles[index]) {
+					bundles[index].archivePath = archivePath;
+				}
+			}
+		}
+
+		const mirrorStartedAt = Date.now();
+		const deleted = extractParams.mirror
+			? await this.mirrorOutputDir(outputDir, result, extractParams.mirror)
+			: [];
+		const diffReport = extractParams.diffReport
+			? summarizeKeyDiff(diffFiles)
+			: undefined;
+		if (diffReport && extractParams.diffReport) {
+			await this.writeKeyDiffReport(diffReport, extractParams.diffReport);
+		}
+		unpackTime += Date.now() - mirrorStartedAt;
+
+		return {
+			bundles,
+			bundleSize: bundles.reduce(
+				(total, bundle) => total + bundle.bundleSize,
+				0,
+			),
+			outputDir,
+			deleted,
+			files: result.files,
+			skipped: result.skipped,
+			...(result.validationErrors
+				? { validationErrors: result.validationErrors }
+				: {}),
+			...(diffReport ? { diffReport } : {}),
+			timings: {
+				queue: queueTime,
+				poll: pollTime,
+				fetch: fetchTime,
+				unpack: unpackTime,
+			},
+		};
+	}
+
+	/**
+	 * Validates the languages of a split download and groups them.
+	 *
+	 * @param languages - Explicit language groups, or a flat list where each language forms its own group.
+	 * @returns Non-empty language groups.
+	 * @throws {LokaliseError} If no languages are given, a group is empty, or a language is listed twice.
+	 */
+	private buildLanguageGroups(languages?: string[] | string[][]): string[][] {
+		if (!languages?.length) {
+			throw new LokaliseError(
+				"Splitting a download by language requires downloadFileParams.filter_langs or languageGroups.",
+			);
+		}
+
+		const groups = languages.map((group) =>
+			typeof group === "string" ? [group] : group,
+		);
+		const seen = new Set<string>();
+
+		for (const group of groups) {
+			if (
+				!group.length ||
+				group.some((lang) => typeof lang !== "string" || !lang.trim())
+			) {
+				throw new LokaliseError(
+					"Language groups must be non-empty lists of language ISO codes.",
+				);
+			}
+			for (const lang of group) {
+				if (seen.has(lang)) {
+					throw new LokaliseError(
+						`Language ${lang} is listed in more than one language group.`,
+					);
+				}
+				seen.add(lang);
+			}
+		}
+
+		return groups;
+	}
+
+	/**
+	 * Ensures that no two bundles of a split download write the same file.
+	 *
+	 * Only the central directories of the archives are read; entry filters and
+	 * path mapping are applied exactly like during extraction.
+	 *
+	 * @param zipFilePaths - Paths to the downloaded bundles.
+	 * @param groups - Language groups of the bundles, used for error messaging.
+	 * @param outputDir - Directory the bundles will be extracted into.
+	 * @param extractParams - Extraction settings with filters and mapping.
+	 * @throws {LokaliseError} If the same path is produced by more than one bundle.
+	 */
+	private async assertNoOverlappingPaths(
+		zipFilePaths: string[],
+		groups: string[][],
+		outputDir: string,
+		extractParams: ExtractParams,
+	): Promise<void> {
+		const owners = new Map<string, number>();
+		const overlaps: { path: string; languages: string }[] = [];
+
+		for (const [index, zipFilePath] of zipFilePaths.entries()) {
+			for (const filePath of await this.listZipEntryPaths(
+				zipFilePath,
+				outputDir,
+				extractParams,
+			)) {
+				const owner = owners.get(filePath);
+				if (owner === undefined) {
+					owners.set(filePath, index);
+				} else if (owner !== index) {
+					overlaps.push({
+						path: path.relative(outputDir, filePath),
+						languages: `${groups[owner]?.join(",")} and ${groups[index]?.join(",")}`,
+					});
+				}
+			}
+		}
+
+		const [first] = overlaps;
+		if (first) {
+			throw new LokaliseError(
+				`Language bundles contain overlapping file paths: ${overlaps
+					.map((overlap) => `${overlap.path} (${overlap.languages})`)
+					.join("; ")}`,
+				409,
+				{ reason: "overlapping paths", path: first.path },
+			);
+		}
+	}
+
+	/**
+	 * Lists the destination paths of the files in a ZIP archive without extracting it.
 	 *
 	 * @param zipFilePath - Path to the ZIP file.
-	 * @param outputDir - Directory to extract the files into.
-	 * @throws {LokaliseError} If extraction fails or malicious paths are detected.
+	 * @param outputDir - Directory the archive would be extracted into.
+	 * @param extractParams - Extraction settings with filters and mapping.
+	 * @returns Absolute destination paths; directories and filtered entries are left out.
+	 * @throws {LokaliseError} If the archive cannot be read or malicious paths are detected.
 	 */
-	protected async unpackZip(
+	private async listZipEntryPaths(
 		zipFilePath: string,
 		outputDir: string,
-	): Promise<void> {
-		return new Promise((resolve, reject) => {
+		extractParams: ExtractParams,
+	): Promise<string[]> {
+		const paths: string[] = [];
+
+		await new Promise<void>((resolve, reject) => {
 			yauzl.open(zipFilePath, { lazyEntries: true }, (err, zipfile) => {
 				if (err) {
 					return reject(
@@ -87,264 +717,1957 @@ export class LokaliseDownload extends LokaliseFileExchange {
 
 				zipfile.readEntry();
 
-				zipfile.on("entry", (entry) => {
-					this.handleZipEntry(entry, zipfile, outputDir)
-						.then(() => zipfile.readEntry())
-						.catch(reject);
+				zipfile.on("entry", (entry: yauzl.Entry) => {
+					try {
+						const entryPath =
+							entry.fileName.endsWith("/") ||
+							this.isSkippedSpecialEntry(entry, extractParams)
+								? null
+								: this.resolveZipEntryPath(entry.fileName, extractParams);
+						if (entryPath !== null) {
+							paths.push(this.processZipEntryPath(outputDir, entryPath));
+						}
+					} catch (error) {
+						zipfile.close();
+						return reject(error);
+					}
+					zipfile.readEntry();
 				});
 
-				zipfile.on("end", resolve);
-				zipfile.on("error", reject);
+				zipfile.on("end", () => resolve());
+				zipfile.on("error", (error) => {
+					zipfile.close();
+					reject(error);
+				});
 			});
 		});
+
+		return paths;
 	}
 
 	/**
-	 * Downloads a ZIP file from the given URL and stores it as a temporary file.
+	 * Validates extraction and archiving settings before anything is requested from Lokalise.
 	 *
-	 * Performs URL validation, optional timeout handling, fetch request execution,
-	 * response integrity checks, and writes the ZIP stream to disk.
-	 *
-	 * @param url - Direct URL to the ZIP bundle provided by Lokalise.
-	 * @param downloadTimeout - Optional timeout (in ms) for the HTTP request. `0` disables timeouts.
-	 * @returns Absolute path to the temporary ZIP file on disk.
+	 * @param extractParams - Extraction settings.
+	 * @param processParams - Effective process parameters.
+	 * @throws {LokaliseError} If the extraction or archive settings are invalid.
 	 */
-	protected async downloadZip(
-		url: string,
-		downloadTimeout = 0,
-	): Promise<string> {
-		this.logMsg("debug", "Downloading translation bundle...");
+	private validateDownloadParams(
+		extractParams: ExtractParams,
+		processParams: ResolvedProcessParams,
+	): void {
+		this.validateExtractParams(extractParams);
+		if (processParams.archive) {
+			validateArchiveParams(processParams.archive, this.projectId);
+		}
+	}
 
-		const bundleURL = this.assertHttpUrl(url);
-		const tempZipPath = this.buildTempZipPath();
+	/**
+	 * Validates the extraction settings that are checked before any work starts.
+	 *
+	 * @param extractParams - Extraction settings.
+	 * @throws {LokaliseError} If the mirror, validation, or diff report settings are invalid.
+	 */
+	private validateExtractParams(extractParams: ExtractParams): void {
+		if (extractParams.mirror) {
+			this.validateMirrorParams(extractParams.mirror);
+		}
+		if (extractParams.validation) {
+			this.resolveFileValidators(extractParams.validation);
+		}
+		if (extractParams.diffReport) {
+			this.validateDiffReportParams(extractParams.diffReport);
+		}
+	}
 
-		const signal = this.buildAbortSignal(downloadTimeout);
-		const response = await this.fetchZipResponse(
-			bundleURL,
-			signal,
-			downloadTimeout,
+	/**
+	 * Downloads a bundle and extracts it into the output directory.
+	 *
+	 * @param bundleInfo - Bundle URL, async process ID, and timings of the preceding phases.
+	 * @param extractParams - Extraction settings.
+	 * @param processParams - Effective process parameters.
+	 * @returns Summary of the download.
+	 */
+	private async downloadBundle(
+		bundleInfo: TranslationBundleInfo,
+		extractParams: ExtractParams,
+		processParams: ResolvedProcessParams,
+	): Promise<DownloadResult> {
+		const outputDir = path.resolve(extractParams.outputDir ?? "./");
+
+		const fetchStartedAt = Date.now();
+		const zipFilePath = await this.downloadZip(
+			bundleInfo.bundleUrl,
+			this.buildZipDownloadOptions(processParams),
 		);
+		const fetchTime = Date.now() - fetchStartedAt;
+
+		const unpackStartedAt = Date.now();
+		const {
+			bundleSize,
+			bundleUnchanged,
+			files,
+			skipped,
+			validationErrors,
+			diffReport,
+			archivePath,
+		} = await this.processZip(zipFilePath, outputDir, extractParams, {
+			...(processParams.onProgress
+				? { onProgress: processParams.onProgress }
+				: {}),
+			...(processParams.archive ? { archive: processParams.archive } : {}),
+			...(bundleInfo.processId ? { processId: bundleInfo.processId } : {}),
+		});
+		const deleted = extractParams.mirror
+			? await this.mirrorOutputDir(
+					outputDir,
+					{ files, skipped },
+					extractParams.mirror,
+				)
+			: [];
+		if (diffReport && extractParams.diffReport) {
+			await this.writeKeyDiffReport(diffReport, extractParams.diffReport);
+		}
+		const unpackTime = Date.now() - unpackStartedAt;
+
+		return {
+			bundleUrl: bundleInfo.bundleUrl,
+			...(bundleInfo.processId ? { processId: bundleInfo.processId } : {}),
+			...(archivePath ? { archivePath } : {}),
+			...(bundleUnchanged !== undefined ? { bundleUnchanged } : {}),
+			...(diffReport ? { diffReport } : {}),
+			bundleSize,
+			outputDir,
+			deleted,
+			files,
+			skipped,
+			...(validationErrors ? { validationErrors } : {}),
+			timings: {
+				...bundleInfo.timings,
+				fetch: fetchTime,
+				unpack: unpackTime,
+			},
+		};
+	}
+
+	/**
+	 * Extracts translations from a local ZIP bundle, such as an archived build artifact.
+	 *
+	 * Runs the same extraction pipeline as `downloadTranslations`, including
+	 * the path-safety checks, but makes no API calls and leaves the input
+	 * archive in place.
+	 *
+	 * @param extractTranslationParams - Path to the ZIP bundle, extraction settings, and an optional progress callback.
+	 * @returns Summary of the extraction: archive size, output directory, extracted files, skipped entries, and deleted files.
+	 * @throws {LokaliseError} If the archive is missing or the extraction fails.
+	 */
+	async extractTranslations({
+		zipFilePath,
+		extractParams = {},
+		onProgress,
+	}: ExtractTranslationParams): Promise<ExtractTranslationResult> {
+		const zipPath = path.resolve(zipFilePath);
+		this.logMsg("debug", `Extracting translations from ${zipPath}...`);
 
-		const body = this.getZipResponseBody(response, url);
+		const outputDir = path.resolve(extractParams.outputDir ?? "./");
 
-		await this.writeZipToDisk(body, tempZipPath);
+		this.validateExtractParams(extractParams);
 
-		return tempZipPath;
+		const stats = await fs.promises.stat(zipPath).catch(() => null);
+		if (!stats?.isFile()) {
+			throw new LokaliseError(`ZIP file not found: ${zipPath}`);
+		}
+
+		const {
+			bundleSize,
+			bundleUnchanged,
+			files,
+			skipped,
+			validationErrors,
+			diffReport,
+		} = await this.extractZip(zipPath, outputDir, extractParams, onProgress);
+		const deleted = extractParams.mirror
+			? await this.mirrorOutputDir(
+					outputDir,
+					{ files, skipped },
+					extractParams.mirror,
+				)
+			: [];
+		if (diffReport && extractParams.diffReport) {
+			await this.writeKeyDiffReport(diffReport, extractParams.diffReport);
+		}
+
+		return {
+			bundleSize,
+			outputDir,
+			deleted,
+			files,
+			skipped,
+			...(validationErrors ? { validationErrors } : {}),
+			...(bundleUnchanged !== undefined ? { bundleUnchanged } : {}),
+			...(diffReport ? { diffReport } : {}),
+		};
 	}
 
 	/**
-	 * Builds a unique temporary file path for storing the downloaded ZIP bundle.
+	 * Downloads translations from Lokalise and returns their contents without writing to `outputDir`.
 	 *
-	 * Uses a UUID when available or falls back to a combination of PID, timestamp, and random bytes.
+	 * Entries are filtered, remapped, and validated exactly like during a regular
+	 * extraction, and the resource limits are enforced. By default the bundle is
+	 * stored in a temporary file; with `bufferZip` it is kept in memory instead,
+	 * capped at `maxZipBytes`.
 	 *
-	 * @returns A full path to a temporary ZIP file in the OS temp directory.
+	 * @param inMemoryDownloadParams - Download settings, extraction filters and limits, and optional polling or timeout settings.
+	 * @returns A map of POSIX paths (relative to the bundle root, after mapping) to file contents.
+	 * @throws {LokaliseError} If the download, polling, or reading the archive fails.
+	 */
+	async downloadTranslationsToMemory({
+		downloadFileParams,
+		extractParams = {},
+		processDownloadFileParams,
+	}: InMemoryDownloadParams): Promise<Map<string, Buffer>> {
+		this.logMsg("debug", "Downloading translations into memory...");
+
+		const processParams = this.buildProcessParams(processDownloadFileParams);
+		const {
+			bufferZip = false,
+			maxZipBytes = LokaliseDownload.DEFAULT_MAX_ZIP_BYTES,
+			...readParams
+		} = extractParams;
+
+		if (bufferZip && !(maxZipBytes > 0)) {
+			throw new LokaliseError("maxZipBytes must be a positive number.");
+		}
+		this.validateExtractLimits(readParams);
+		if (processParams.archive) {
+			validateArchiveParams(processParams.archive, this.projectId);
+		}
+
+		const { bundleUrl, processId } = await this.fetchTranslationBundleURL(
+			downloadFileParams,
+			processParams,
+		);
+
+		if (bufferZip) {
+			const zipBuffer = await this.downloadZipToBuffer(
+				bundleUrl,
+				maxZipBytes,
+				this.buildZipDownloadOptions(processParams),
+			);
+			if (processParams.archive) {
+				await this.archiveZip(zipBuffer, processParams.archive, processId);
+			}
+			return await this.readZipToMemory(
+				zipBuffer,
+				readParams,
+				processParams.onProgress,
+			);
+		}
+
+		const zipFilePath = await this.downloadZip(
+			bundleUrl,
+			this.buildZipDownloadOptions(processParams),
+		);
+
+		try {
+			return await this.readZipToMemory(
+				zipFilePath,
+				readParams,
+				processParams.onProgress,
+			);
+		} finally {
+			await this.releaseZip(zipFilePath, processParams.archive, processId);
+		}
+	}
+
+	/**
+	 * Unpacks a ZIP file into the specified directory.
+	 *
+	 * Enforces the resource limits from `extractParams` while streaming. When a
+	 * limit is exceeded, files created by this extraction are removed before
+	 * rethrowing. Files that already existed and were overwritten keep their
+	 * new contents; use `atomic` to leave the output directory untouched.
+	 * When `extractParams.validation` is set, the extracted files are checked
+	 * for syntax errors afterwards.
+	 *
+	 * @param zipFilePath - Path to the ZIP file.
+	 * @param outputDir - Directory to extract the files into.
+	 * @param extractParams - Optional extraction settings including resource limits.
+	 * @param options - Optional final directory used for conflict checks when `outputDir` is a staging area, progress callback notified after each processed entry, and incremental sync state used to skip files that did not change.
+	 * @returns Extracted files with their sizes, the entries that were skipped, and validation errors in `warn` mode.
+	 * @throws {LokaliseError} If extraction fails, a limit is exceeded, malicious paths are detected, or validation fails in `fail` mode.
+	 */
+	protected async unpackZip(
+		zipFilePath: string,
+		outputDir: string,
+		extractParams: ExtractParams = {},
+		{ destinationDir, onProgress, sync }: UnpackZipOptions = {},
+	): Promise<ExtractResult> {
+		this.validateExtractLimits(extractParams);
+
+		const result: ExtractResult = { files: [], skipped: [] };
+		const context: ZipExtractionContext = {
+			extractParams,
+			totalBytes: 0,
+			createdPaths: new Set(),
+			...(destinationDir ? { destinationDir } : {}),
+			...(sync ? { sync } : {}),
+		};
+
+		try {
+			await new Promise<void>((resolve, reject) => {
+				yauzl.open(zipFilePath, { lazyEntries: true }, (err, zipfile) => {
+					if (err) {
+						return reject(
+							new LokaliseError(
+								`Failed to open ZIP file at ${zipFilePath}: ${err.message}`,
+							),
+						);
+					}
+
+					const fail = (error: unknown) => {
+						zipfile.close();
+						reject(error);
+					};
+
+					try {
+						this.assertEntryCount(zipfile.entryCount, extractParams);
+					} catch (error) {
+						return fail(error);
+					}
+
+					zipfile.readEntry();
+
+					zipfile.on("entry", (entry) => {
+						this.handleZipEntry(entry, zipfile, outputDir, context)
+							.then((outcome) => {
+								if ("file" in outcome) {
+									result.files.push(outcome.file);
+								} else {
+									result.skipped.push(outcome.skipped);
+								}
+								onProgress?.({
+									phase: "extract",
+									entriesDone: result.files.length + result.skipped.length,
+									totalEntries: zipfile.entryCount,
+								});
+								zipfile.readEntry();
+							})
+							.catch(fail);
+					});
+
+					zipfile.on("end", () => resolve());
+					zipfile.on("error", fail);
+				});
+			});
+		} catch (error) {
+			if (LokaliseDownload.isZipLimitError(error)) {
+				await this.removeExtractedFiles(
+					result.files.filter((file) => context.createdPaths?.has(file.path)),
+				);
+			}
+			throw error;
+		}
+
+		if (extractParams.validation) {
+			const validationErrors = await this.validateExtractedFiles(
+				result.files,
+				extractParams.validation,
+				outputDir,
+				destinationDir,
+			);
+			if (validationErrors.length) {
+				result.validationErrors = validationErrors;
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Checks the syntax of extracted files with the validator registered for their extension.
+	 *
+	 * In `warn` mode every error is logged and returned. In `fail` mode all
+	 * errors are reported in a single exception; combined with atomic
+	 * extraction this leaves the output directory untouched.
+	 *
+	 * @param files - Files written by the extraction.
+	 * @param validation - Validation mode and validator overrides.
+	 * @param outputDir - Directory the files were extracted into.
+	 * @param destinationDir - Final directory when `outputDir` is a staging area, used for reported paths.
+	 * @returns Validation errors found in `warn` mode.
+	 * @throws {LokaliseError} If a file is invalid in `fail` mode.
+	 */
+	private async validateExtractedFiles(
+		files: ExtractedFile[],
+		validation: ValidationParams,
+		outputDir: string,
+		destinationDir?: string,
+	): Promise<FileValidationError[]> {
+		const validators = this.resolveFileValidators(validation);
+		const errors: FileValidationError[] = [];
+
+		for (const file of files) {
+			const validator = validators.get(path.extname(file.path).toLowerCase());
+			if (!validator) {
+				continue;
+			}
+
+			const reportedPath = destinationDir
+				? path.join(destinationDir, path.relative(outputDir, file.path))
+				: file.path;
+			const content = await fs.promises.readFile(file.path, "utf8");
+
+			let issues: FileValidationError[];
+			try {
+				issues = (await validator(content, reportedPath)).map((issue) => ({
+					...issue,
+					entryName: file.entryName,
+					path: reportedPath,
+				}));
+			} catch (error) {
+				issues = [
+					{
+						message: error instanceof Error ? error.message : String(error),
+						entryName: file.entryName,
+						path: reportedPath,
+					},
+				];
+			}
+
+			errors.push(...issues);
+		}
+
+		if (errors.length && validation.mode !== "warn") {
+			const failedFiles = new Set(errors.map((error) => error.path)).size;
+			throw new LokaliseError(
+				`Validation failed for ${failedFiles} file(s): ${errors
+					.map(LokaliseDownload.formatValidationError)
+					.join("; ")}`,
+				422,
+				{ reason: "validation failed", files: failedFiles },
+			);
+		}
+
+		for (const error of errors) {
+			this.logMsg(
+				"warn",
+				`Validation error in ${LokaliseDownload.formatValidationError(error)}`,
+			);
+		}
+
+		return errors;
+	}
+
+	/**
+	 * Merges the built-in validators with the overrides from the validation settings.
+	 *
+	 * @param validation - Validation mode and validator overrides.
+	 * @returns Validators keyed by lowercase extension with a leading dot.
+	 * @throws {LokaliseError} If the mode is unknown or an override is not a function or `null`.
+	 */
+	private resolveFileValidators({
+		mode,
+		validators = {},
+	}: ValidationParams): Map<string, FileValidator> {
+		if (
+			mode !== undefined &&
+			!LokaliseDownload.VALIDATION_MODES.includes(mode)
+		) {
+			throw new LokaliseError(`Unknown validation mode: ${mode}`);
+		}
+
+		const resolved = new Map(Object.entries(builtInFileValidators));
+
+		for (const [extension, validator] of Object.entries(validators)) {
+			const key = extension.toLowerCase().replace(/^\.?/, ".");
+
+			if (validator === null) {
+				resolved.delete(key);
+			} else if (typeof validator === "function") {
+				resolved.set(key, validator);
+			} else {
+				throw new LokaliseError(
+					`Validator for ${extension} must be a function or null.`,
+				);
+			}
+		}
+
+		return resolved;
+	}
+
+	/**
+	 * Formats a validation error as `path:line:column: message`, omitting unknown positions.
+	 *
+	 * @param issue - The validation issue.
+	 * @returns A short human-readable description.
+	 */
+	private static formatValidationError({
+		message,
+		path: filePath,
+		line,
+		column,
+	}: FileValidationError): string {
+		const location = [filePath, line, column].filter(
+			(part) => part !== undefined,
+		);
+		return `${location.join(":")}: ${message}`;
+	}
+
+	/**
+	 * Reads the files of a ZIP archive into memory.
+	 *
+	 * Applies the same entry filters, path mapping, traversal check, and
+	 * resource limits as `unpackZip`, but nothing is written to disk.
+	 * Directory entries are ignored.
+	 *
+	 * @param source - Path to the ZIP file or the archive contents.
+	 * @param extractParams - Entry filters, path mapping, and resource limits.
+	 * @param onProgress - Optional callback notified after each processed entry.
+	 * @returns A map of POSIX paths (after mapping) to file contents.
+	 * @throws {LokaliseError} If the archive cannot be read, a limit is exceeded, or malicious paths are detected.
+	 */
+	protected async readZipToMemory(
+		source: string | Buffer,
+		extractParams: ExtractParams = {},
+		onProgress?: DownloadProgressCallback,
+	): Promise<Map<string, Buffer>> {
+		this.validateExtractLimits(extractParams);
+
+		const contents = new Map<string, Buffer>();
+		const context: ZipExtractionContext = { extractParams, totalBytes: 0 };
+		const options = { lazyEntries: true };
+
+		await new Promise<void>((resolve, reject) => {
+			const onOpen = (err: Error | null, zipfile: yauzl.ZipFile) => {
+				if (err) {
+					return reject(
+						new LokaliseError(`Failed to open ZIP file: ${err.message}`),
+					);
+				}
+
+				const fail = (error: unknown) => {
+					zipfile.close();
+					reject(error);
+				};
+
+				try {
+					this.assertEntryCount(zipfile.entryCount, extractParams);
+				} catch (error) {
+					return fail(error);
+				}
+
+				let entriesDone = 0;
+				zipfile.readEntry();
+
+				zipfile.on("entry", (entry: yauzl.Entry) => {
+					this.readZipEntryToMemory(entry, zipfile, context)
+						.then((file) => {
+							if (file) {
+								contents.set(file.key, file.content);
+							}
+							onProgress?.({
+								phase: "extract",
+								entriesDone: ++entriesDone,
+								totalEntries: zipfile.entryCount,
+							});
+							zipfile.readEntry();
+						})
+						.catch(fail);
+				});
+
+				zipfile.on("end", () => resolve());
+				zipfile.on("error", fail);
+			};
+
+			if (typeof source === "string") {
+				yauzl.open(source, options, onOpen);
+			} else {
+				yauzl.fromBuffer(source, options, onOpen);
+			}
+		});
+
+		return contents;
+	}
+
+	/**
+	 * Reads a single ZIP entry into memory.
+	 *
+	 * @param entry - The ZIP entry to read.
+	 * @param zipfile - The open ZIP file instance.
+	 * @param context - Extraction settings and running totals shared across entries.
+	 * @returns The mapped POSIX path and contents, or `null` for directories and filtered entries.
+	 */
+	private async readZipEntryToMemory(
+		entry: yauzl.Entry,
+		zipfile: yauzl.ZipFile,
+		context: ZipExtractionContext,
+	): Promise<{ key: string; content: Buffer } | null> {
+		if (
+			entry.fileName.endsWith("/") ||
+			this.isSkippedSpecialEntry(entry, context.extractParams)
+		) {
+			return null;
+		}
+
+		const entryPath = this.resolveZipEntryPath(
+			entry.fileName,
+			context.extractParams,
+		);
+		if (entryPath === null) {
+			return null;
+		}
+
+		const root = LokaliseDownload.IN_MEMORY_ROOT;
+		const key = path
+			.relative(root, this.processZipEntryPath(root, entryPath))
+			.split(path.sep)
+			.join(path.posix.sep);
+
+		this.assertEntryWithinLimits(
+			entry,
+			entry.uncompressedSize,
+			context.totalBytes + entry.uncompressedSize,
+			context.extractParams,
+		);
+
+		return {
+			key,
+			content: await this.readZipEntry(entry, zipfile, context),
+		};
+	}
+
+	/**
+	 * Unpacks a ZIP file atomically.
+	 *
+	 * The archive is extracted into a sibling staging directory first and the
+	 * staged files are validated. Only then are they moved into `outputDir`,
+	 * replacing existing files. If anything fails while moving, files that were
+	 * already replaced are restored, so `outputDir` is either fully updated or
+	 * left untouched. Staging and backup directories are always removed.
+	 *
+	 * @param zipFilePath - Path to the ZIP file.
+	 * @param outputDir - Directory to extract the files into.
+	 * @param extractParams - Extraction settings passed to `unpackZip`.
+	 * @param options - Optional progress callback and incremental sync state passed to `unpackZip`.
+	 * @returns Extracted files (with their final paths) and the skipped entries.
+	 * @throws {LokaliseError} If extraction, validation, or the final swap fails.
+	 */
+	protected async unpackZipAtomically(
+		zipFilePath: string,
+		outputDir: string,
+		extractParams: ExtractParams = {},
+		options: Omit<UnpackZipOptions, "destinationDir"> = {},
+	): Promise<ExtractResult> {
+		const stagingDir = this.buildSiblingDir(outputDir, "staging");
+		this.logMsg("debug", `Extracting translations to staging ${stagingDir}`);
+
+		try {
+			const staged = await this.unpackZip(
+				zipFilePath,
+				stagingDir,
+				extractParams,
+				{ ...options, destinationDir: outputDir },
+			);
+			await this.validateStagedFiles(staged);
+
+			return await this.commitStagedFiles(
+				staged,
+				stagingDir,
+				outputDir,
+				extractParams,
+			);
+		} finally {
+			await fs.promises.rm(stagingDir, { recursive: true, force: true });
+		}
+	}
+
+	/**
+	 * Checks that every staged file was fully written before it is moved into place.
+	 *
+	 * @param staged - Result of extracting into the staging directory.
+	 * @throws {LokaliseError} If a staged file is missing or its size does not match.
+	 */
+	protected async validateStagedFiles(staged: ExtractResult): Promise<void> {
+		for (const file of staged.files) {
+			const stats = await fs.promises.stat(file.path).catch(() => null);
+
+			if (!stats?.isFile() || stats.size !== file.size) {
+				throw new LokaliseError(
+					`Staged file is missing or incomplete: ${file.entryName}`,
+					500,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Moves staged files into the output directory, backing up files that get replaced.
+	 *
+	 * On failure, rolls back everything moved so far and restores the backups.
+	 * If the rollback itself fails, the backup directory is kept and its
+	 * location is logged so nothing is lost. With the `backup` conflict policy,
+	 * a permanent backup of every replaced file is created as well.
+	 *
+	 * @param staged - Result of extracting into the staging directory.
+	 * @param stagingDir - Directory holding the staged files.
+	 * @param outputDir - Final destination directory.
+	 * @param extractParams - Extraction settings including the conflict policy.
+	 * @returns The extraction result with paths pointing into `outputDir`.
+	 */
+	private async commitStagedFiles(
+		staged: ExtractResult,
+		stagingDir: string,
+		outputDir: string,
+		extractParams: ExtractParams,
+	): Promise<ExtractResult> {
+		const backupDir = this.buildSiblingDir(outputDir, "backup");
+		const committed: StagedFileSwap[] = [];
+		const createdDirs: string[] = [];
+		const files: ExtractedFile[] = [];
+
+		const ensureDir = async (dir: string) => {
+			const missing = await this.findFirstMissingDir(dir);
+			if (missing) {
+				await this.createDir(dir);
+				createdDirs.push(missing);
+			}
+		};
+
+		try {
+			for (const file of staged.files) {
+				const relative = path.relative(stagingDir, file.path);
+				const target = this.processZipEntryPath(outputDir, relative);
+
+				await ensureDir(path.dirname(target));
+
+				const record: StagedFileSwap = { target, placed: false };
+				committed.push(record);
+
+				if (await this.pathExists(target)) {
+					if (extractParams.conflictPolicy === "backup") {
+						record.keptBackup = await this.backupExistingFile(
+							target,
+							relative,
+							extractParams,
+						);
+					}
+
+					const backup = path.join(backupDir, relative);
+					await this.createDir(path.dirname(backup));
+					await fs.promises.rename(target, backup);
+					record.backup = backup;
+				}
+
+				await fs.promises.rename(file.path, target);
+				record.placed = true;
+
+				files.push({ ...file, path: target });
+			}
+
+			for (const entry of staged.skipped) {
+				if (entry.reason === "directory") {
+					await ensureDir(this.processZipEntryPath(outputDir, entry.entryName));
+				}
+			}
+		} catch (error) {
+			this.logMsg("warn", "Atomic extraction failed, rolling back changes...");
+
+			try {
+				await this.rollbackCommittedFiles(committed, createdDirs);
+			} catch (rollbackError) {
+				this.logMsg(
+					"error",
+					`Rollback failed, original files are kept in ${backupDir}:`,
+					rollbackError,
+				);
+				throw error;
+			}
+
+			await fs.promises.rm(backupDir, { recursive: true, force: true });
+			throw error;
+		}
+
+		await fs.promises.rm(backupDir, { recursive: true, force: true });
+
+		return {
+			files,
+			skipped: staged.skipped,
+			...(staged.validationErrors
+				? { validationErrors: staged.validationErrors }
+				: {}),
+		};
+	}
+
+	/**
+	 * Reverts files moved into the output directory during a failed atomic swap.
+	 *
+	 * Removes newly placed files, moves backups back to their original location,
+	 * deletes backups created for the `backup` conflict policy, and removes
+	 * directories created during the swap.
+	 *
+	 * @param committed - Swap records in the order they were made.
+	 * @param createdDirs - Directories created during the swap.
+	 */
+	private async rollbackCommittedFiles(
+		committed: StagedFileSwap[],
+		createdDirs: string[],
+	): Promise<void> {
+		for (const { target, backup, keptBackup, placed } of [
+			...committed,
+		].reverse()) {
+			if (placed) {
+				await fs.promises.rm(target, { force: true });
+			}
+			if (backup) {
+				await fs.promises.rename(backup, target);
+			}
+			if (keptBackup) {
+				await fs.promises.rm(keptBackup, { force: true });
+			}
+		}
+
+		for (const dir of [...createdDirs].reverse()) {
+			await fs.promises.rm(dir, { recursive: true, force: true });
+		}
+	}
+
+	/**
+	 * Builds a unique path next to the given directory, used for staging and backups.
+	 *
+	 * Keeping it on the same level ensures files can be moved with a cheap rename.
+	 *
+	 * @param dir - Directory to build the sibling path for.
+	 * @param purpose - Short label included in the directory name.
+	 * @returns Absolute path of the sibling directory.
+	 */
+	private buildSiblingDir(dir: string, purpose: string): string {
+		return path.join(
+			path.dirname(dir),
+			`.${path.basename(dir)}.lokalise-${purpose}-${LokaliseDownload.uniqueId()}`,
+		);
+	}
+
+	/**
+	 * Finds the top-most ancestor of `dir` (or `dir` itself) that does not exist yet.
+	 *
+	 * @param dir - Directory that is about to be created.
+	 * @returns The first directory that would be created, or `undefined` if `dir` exists.
+	 */
+	private async findFirstMissingDir(dir: string): Promise<string | undefined> {
+		let missing: string | undefined;
+		let current = dir;
+
+		while (!(await this.pathExists(current))) {
+			missing = current;
+			const parent = path.dirname(current);
+			if (parent === current) break;
+			current = parent;
+		}
+
+		return missing;
+	}
+
+	/**
+	 * Checks whether something exists at the given path.
+	 *
+	 * @param target - Path to check.
+	 * @returns `true` if the path exists, otherwise `false`.
+	 */
+	private async pathExists(target: string): Promise<boolean> {
+		try {
+			await fs.promises.lstat(target);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Removes stale files from the output directory after a download.
+	 *
+	 * Walks `outputDir` and collects files that match one of the `include` globs
+	 * (tested against POSIX paths relative to `outputDir`) but were not produced
+	 * by the bundle. Files not matching `include` are never touched. In dry-run
+	 * mode nothing is deleted and the candidates are only reported. Files kept
+	 * by the conflict policy (existing or unchanged) count as produced.
+	 *
+	 * @param outputDir - Directory the bundle was extracted into.
+	 * @param extractResult - Files produced by the bundle and skipped entries.
+	 * @param mirrorParams - Include globs and dry-run flag.
+	 * @returns Absolute paths of deleted files (or files that would be deleted in dry-run mode).
+	 */
+	protected async mirrorOutputDir(
+		outputDir: string,
+		{ files, skipped }: ExtractResult,
+		{ include, dryRun = false }: MirrorParams,
+	): Promise<string[]> {
+		const patterns = LokaliseDownload.toPatternList(include);
+		const produced = new Set([
+			...files.map((file) => file.path),
+			...skipped.flatMap((entry) => (entry.path ? [entry.path] : [])),
+		]);
+
+		const stale = (await this.listFilesRecursively(outputDir)).filter(
+			(file) => {
+				if (produced.has(file)) {
+					return false;
+				}
+
+				const relative = path
+					.relative(outputDir, file)
+					.split(path.sep)
+					.join(path.posix.sep);
+
+				return patterns.some((pattern) =>
+					path.posix.matchesGlob(relative, pattern),
+				);
+			},
+		);
+
+		for (const file of stale) {
+			if (dryRun) {
+				this.logMsg("info", `Mirror (dry run): would delete ${file}`);
+				continue;
+			}
+
+			this.logMsg("debug", `Mirror: deleting stale file ${file}`);
+			await fs.promises.rm(file, { force: true });
+		}
+
+		return stale.sort();
+	}
+
+	/**
+	 * Lists all regular files under a directory, recursively.
+	 *
+	 * Symbolic links are not followed.
+	 *
+	 * @param dir - Directory to walk.
+	 * @returns Absolute paths of the files found.
+	 */
+	private async listFilesRecursively(dir: string): Promise<string[]> {
+		const files: string[] = [];
+		const queue = [dir];
+
+		while (queue.length) {
+			const current = queue.shift() as string;
+			const entries = await fs.promises
+				.readdir(current, { withFileTypes: true })
+				.catch(() => []);
+
+			for (const entry of entries) {
+				const fullPath = path.join(current, entry.name);
+
+				if (entry.isDirectory()) {
+					queue.push(fullPath);
+				} else if (entry.isFile()) {
+					files.push(fullPath);
+				}
+			}
+		}
+
+		return files;
+	}
+
+	/**
+	 * Validates mirror settings before anything is downloaded.
+	 *
+	 * @param mirrorParams - Mirror settings to check.
+	 * @throws {LokaliseError} If no include glob is provided.
+	 */
+	private validateMirrorParams({ include }: MirrorParams): void {
+		const patterns = Array.isArray(include) ? include : [include];
+
+		if (
+			patterns.length === 0 ||
+			patterns.some((pattern) => typeof pattern !== "string" || !pattern.trim())
+		) {
+			throw new LokaliseError(
+				"mirror.include must contain at least one non-empty glob pattern.",
+			);
+		}
+	}
+
+	/**
+	 * Downloads a ZIP file from the given URL and stores it as a temporary file.
+	 *
+	 * Performs URL validation, optional timeout handling, fetch request execution
+	 * with retries, response integrity checks, and writes the ZIP stream to disk.
+	 * Interrupted downloads are resumed when the server supports range requests.
+	 *
+	 * @param url - Direct URL to the ZIP bundle provided by Lokalise.
+	 * @param options - Optional deadline and idle timeout (in ms, `0` disables them), progress callback, and directory for the temporary file (created if missing, defaults to the OS temp directory).
+	 * @returns Absolute path to the temporary ZIP file on disk.
+	 */
+	protected async downloadZip(
+		url: string,
+		options: ZipDownloadOptions = {},
+	): Promise<string> {
+		const { tempDir } = options;
+		this.logMsg("debug", "Downloading translation bundle...");
+
+		if (tempDir) {
+			await fs.promises.mkdir(tempDir, { recursive: true });
+		}
+		const tempZipPath = this.buildTempZipPath(tempDir);
+
+		try {
+			await fetchZipWithRetries(
+				url,
+				{
+					size: async () =>
+						(await fs.promises.stat(tempZipPath).catch(() => null))?.size ?? 0,
+					open: (append) =>
+						append
+							? fs.createWriteStream(tempZipPath, { flags: "a" })
+							: fs.createWriteStream(tempZipPath),
+				},
+				options,
+				this.buildRetryContext(options.downloadTimeout),
+			);
+		} catch (e) {
+			try {
+				await fs.promises.unlink(tempZipPath);
+			} catch {
+				this.logMsg(
+					"debug",
+					`Download failed and unable to remove temp path ${tempZipPath}`,
+				);
+			}
+			throw e;
+		}
+
+		return tempZipPath;
+	}
+
+	/**
+	 * Downloads a ZIP file from the given URL into memory.
+	 *
+	 * The download is aborted as soon as the archive grows beyond `maxZipBytes`
+	 * (or the server announces a larger `Content-Length`). Transient failures
+	 * are retried just like in `downloadZip`.
+	 *
+	 * @param url - Direct URL to the ZIP bundle provided by Lokalise.
+	 * @param maxZipBytes - Maximum size of the archive in bytes.
+	 * @param options - Optional deadline and idle timeout (in ms, `0` disables them) and progress callback.
+	 * @returns The archive contents.
+	 * @throws {LokaliseError} If the download fails or the archive exceeds `maxZipBytes`.
+	 */
+	protected async downloadZipToBuffer(
+		url: string,
+		maxZipBytes: number,
+		options: Omit<ZipDownloadOptions, "tempDir"> = {},
+	): Promise<Buffer> {
+		this.logMsg("debug", "Downloading translation bundle into memory...");
+
+		const chunks: Buffer[] = [];
+		let size = 0;
+
+		const assertSize = (totalBytes: number) => {
+			if (totalBytes > maxZipBytes) {
+				throw LokaliseDownload.zipLimitError(
+					`ZIP archive exceeds maxZipBytes=${maxZipBytes}`,
+					"maxZipBytes",
+					maxZipBytes,
+				);
+			}
+		};
+
+		await fetchZipWithRetries(
+			url,
+			{
+				size: async () => size,
+				open: (append) => {
+					if (!append) {
+						chunks.length = 0;
+						size = 0;
+					}
+
+					return new Writable({
+						write(chunk: Buffer, _encoding, callback) {
+							try {
+								assertSize(size + chunk.length);
+							} catch (error) {
+								return callback(error as Error);
+							}
+							size += chunk.length;
+							chunks.push(chunk);
+							callback();
+						},
+					});
+				},
+				assertSize,
+			},
+			options,
+			this.buildRetryContext(options.downloadTimeout),
+		);
+
+		return Buffer.concat(chunks);
+	}
+
+	/**
+	 * Builds the retry settings and transport used by `fetchZipWithRetries`.
+	 *
+	 * Attempts go through `fetchZipResponse` and wait between retries with
+	 * exponential backoff according to `retryParams`.
+	 *
+	 * @param downloadTimeout - Timeout duration (ms) used for error messaging.
+	 * @returns The retry context for a single bundle download.
+	 */
+	private buildRetryContext(downloadTimeout = 0): BundleRetryContext {
+		return {
+			urlParams: this.bundleUrlParams,
+			maxRetries: this.retryParams.maxRetries,
+			retryDelay: (attempt) => this.calculateSleepMs(this.retryParams, attempt),
+			sleep: (ms) => LokaliseDownload.sleep(ms),
+			fetchResponse: (bundleURL, signal, headers) =>
+				this.fetchZipResponse(bundleURL, signal, downloadTimeout, headers),
+			log: (message) => this.logMsg("debug", message),
+		};
+	}
+
+	/**
+	 * Builds a unique temporary file path for storing the downloaded ZIP bundle.
+	 *
+	 * Uses a UUID when available or falls back to a combination of PID, timestamp, and random bytes.
+	 * The `.partial` suffix is reserved, so archive filename templates can never
+	 * match temporary bundles that are still being downloaded or extracted.
+	 *
+	 * @param tempDir - Directory for the file. Defaults to the OS temp directory.
+	 * @returns A full path to a temporary ZIP file.
+	 */
+	protected buildTempZipPath(tempDir = os.tmpdir()): string {
+		return path.join(
+			path.resolve(tempDir),
+			`lokalise-${LokaliseDownload.uniqueId()}.zip${TEMP_ZIP_SUFFIX}`,
+		);
+	}
+
+	/**
+	 * Keeps a downloaded bundle in the archive directory.
+	 *
+	 * Temporary files are moved, buffered bundles are written out. Afterwards
+	 * only the `keep` most recent archives matching the filename template are retained.
+	 *
+	 * @param source - Path to the temporary ZIP file or the ZIP contents.
+	 * @param archive - Archive directory, filename template, and retention count.
+	 * @param processId - Optional ID of the async download process.
+	 * @returns Absolute path to the archived bundle.
+	 */
+	protected async archiveZip(
+		source: string | Buffer,
+		archive: BundleArchiveParams,
+		processId?: string,
+	): Promise<string> {
+		const archiveDir = path.resolve(archive.dir);
+		const archivePath = path.join(
+			archiveDir,
+			buildArchiveFilename(this.projectId, archive.filename, processId),
+		);
+
+		await this.createDir(archiveDir);
+		await storeArchive(source, archivePath);
+
+		this.logMsg("debug", `Bundle archived to ${archivePath}`);
+
+		if (archive.keep !== undefined) {
+			const removed = await pruneArchives(
+				archiveDir,
+				this.projectId,
+				archive.filename,
+				archive.keep,
+			);
+			for (const removedPath of removed) {
+				this.logMsg("debug", `Removed old bundle archive ${removedPath}`);
+			}
+		}
+
+		return archivePath;
+	}
+
+	/**
+	 * Archives the temporary ZIP file when archiving is enabled, or removes it otherwise.
+	 *
+	 * @param zipFilePath - Path to the temporary ZIP file.
+	 * @param archive - Optional archive settings.
+	 * @param processId - Optional ID of the async download process.
+	 * @returns Absolute path to the archived bundle, if archived.
+	 */
+	private async releaseZip(
+		zipFilePath: string,
+		archive?: BundleArchiveParams,
+		processId?: string,
+	): Promise<string | undefined> {
+		if (archive) {
+			return await this.archiveZip(zipFilePath, archive, processId);
+		}
+
+		this.logMsg("debug", `Removing temp archive from ${zipFilePath}`);
+		await fs.promises.unlink(zipFilePath);
+		return undefined;
+	}
+
+	/**
+	 * Normalizes a single glob or a list of globs into a list of non-empty patterns.
+	 *
+	 * @param patterns - Glob or globs to normalize.
+	 * @returns The list of patterns.
+	 */
+	private static toPatternList(patterns?: string | string[]): string[] {
+		if (patterns === undefined) {
+			return [];
+		}
+
+		return (Array.isArray(patterns) ? patterns : [patterns]).filter(
+			(pattern) => pattern.trim() !== "",
+		);
+	}
+
+	/**
+	 * Generates a unique identifier for temporary files and directories.
+	 *
+	 * @returns A UUID, or a PID/timestamp/random-bytes combination when UUIDs are unavailable.
+	 */
+	private static uniqueId(): string {
+		return (
+			crypto.randomUUID?.() ??
+			`${process.pid}-${Date.now()}-${crypto.randomBytes(8).toString("hex")}`
+		);
+	}
+
+	/**
+	 * Executes a fetch request for the ZIP bundle URL with optional timeout handling.
+	 *
+	 * Wraps network failures, timeouts, and unexpected fetch errors into `LokaliseError`
+	 * so higher-level logic receives consistent exceptions. Requests use the
+	 * configured fetch implementation, dispatcher and extra headers. Redirects
+	 * are followed manually, and every redirect target must pass the same host
+	 * and protocol checks as the original URL.
+	 *
+	 * @param bundleURL - Parsed URL pointing to the ZIP file.
+	 * @param signal - Optional `AbortSignal` used to enforce request timeouts.
+	 * @param downloadTimeout - Timeout duration (ms) used for error messaging.
+	 * @param headers - Optional request headers, such as `Range` when resuming.
+	 * @returns The raw `Response` object returned by `fetch` if the request succeeds.
+	 */
+	protected async fetchZipResponse(
+		bundleURL: URL,
+		signal: AbortSignal | undefined,
+		downloadTimeout: number,
+		headers: Record<string, string> = {},
+	): Promise<Response> {
+		return await fetchBundleResponse(
+			bundleURL,
+			{
+				urlParams: this.bundleUrlParams,
+				fetchParams: this.bundleFetchParams,
+				downloadTimeout,
+				headers,
+				...(signal ? { signal } : {}),
+			},
+			(message) => this.logMsg("debug", message),
+		);
+	}
+
+	/**
+	 * Retrieves a translation bundle from Lokalise with retries and exponential backoff.
+	 *
+	 * @param downloadFileParams - Parameters for Lokalise API file download.
+	 * @returns The downloaded bundle metadata.
+	 * @throws {LokaliseError} If retries are exhausted or an API error occurs.
+	 */
+	protected async getTranslationsBundle(
+		downloadFileParams: DownloadFileParams,
+	): Promise<DownloadBundle> {
+		return this.withExponentialBackoff(() =>
+			this.apiClient.files().download(this.projectId, downloadFileParams),
+		);
+	}
+
+	/**
+	 * Retrieves a translation bundle from Lokalise with retries and exponential backoff.
+	 *
+	 * @param downloadFileParams - Parameters for Lokalise API file download.
+	 * @returns The queued process.
+	 * @throws {LokaliseError} If retries are exhausted or an API error occurs.
+	 */
+	protected async getTranslationsBundleAsync(
+		downloadFileParams: DownloadFileParams,
+	): Promise<QueuedProcess> {
+		return this.withExponentialBackoff(() =>
+			this.apiClient.files().async_download(this.projectId, downloadFileParams),
+		);
+	}
+
+	/**
+	 * Extracts a single entry from a ZIP archive to the specified output directory.
+	 *
+	 * Creates necessary directories and streams the file content to disk.
+	 * Directory entries are created but reported as skipped. Resource limits
+	 * from the extraction context are checked against the entry headers first
+	 * and then enforced on the actual bytes while streaming; a partially
+	 * written file is removed if streaming fails.
+	 *
+	 * Entries are filtered by the `include`/`exclude` globs and relocated with
+	 * `mapPath` before the output path is resolved, so mapped paths are still
+	 * subject to the traversal check. Directory entries are not recreated when
+	 * filtering or remapping is enabled.
+	 *
+	 * Existing files are handled according to `conflictPolicy`. When extracting
+	 * into a staging directory, `context.destinationDir` points to the final
+	 * directory and conflicts are checked against it instead.
+	 *
+	 * @param entry - The ZIP entry to extract.
+	 * @param zipfile - The open ZIP file instance.
+	 * @param outputDir - The directory where the entry should be written.
+	 * @param context - Extraction settings and running totals shared across entries.
+	 * @returns A promise resolving with the written file or the skipped entry.
+	 */
+	protected async handleZipEntry(
+		entry: yauzl.Entry,
+		zipfile: yauzl.ZipFile,
+		outputDir: string,
+		context: ZipExtractionContext = { extractParams: {}, totalBytes: 0 },
+	): Promise<ZipEntryOutcome> {
+		if (this.isSkippedSpecialEntry(entry, context.extractParams)) {
+			return { skipped: { entryName: entry.fileName, reason: "special" } };
+		}
+
+		if (entry.fileName.endsWith("/")) {
+			// it's a directory
+			if (this.isEntryRoutingEnabled(context.extractParams)) {
+				return { skipped: { entryName: entry.fileName, reason: "filtered" } };
+			}
+
+			await this.createDir(this.processZipEntryPath(outputDir, entry.fileName));
+			return { skipped: { entryName: entry.fileName, reason: "directory" } };
+		}
+
+		const entryPath = this.resolveZipEntryPath(
+			entry.fileName,
+			context.extractParams,
+		);
+		if (entryPath === null) {
+			this.logMsg("debug", `Skipping filtered ZIP entry ${entry.fileName}`);
+			return { skipped: { entryName: entry.fileName, reason: "filtered" } };
+		}
+
+		const fullPath = this.processZipEntryPath(outputDir, entryPath);
+
+		this.assertEntryWithinLimits(
+			entry,
+			entry.uncompressedSize,
+			context.totalBytes + entry.uncompressedSize,
+			context.extractParams,
+		);
+
+		const destinationPath = context.destinationDir
+			? this.processZipEntryPath(context.destinationDir, entryPath)
+			: fullPath;
+		const action = await this.resolveConflict(
+			entry,
+			destinationPath,
+			context.extractParams,
+		);
+
+		if (action === "skip") {
+			return {
+				skipped: {
+					entryName: entry.fileName,
+					reason: "exists",
+					path: destinationPath,
+				},
+			};
+		}
+
+		await this.createDir(path.dirname(fullPath));
+		const existed = await this.pathExists(fullPath);
+
+		if (action === "compare" || context.sync) {
+			const content = await this.readZipEntry(entry, zipfile, context);
+			const unchanged = {
+				skipped: {
+					entryName: entry.fileName,
+					reason: "unchanged" as const,
+					path: destinationPath,
+				},
+			};
+
+			if (context.sync) {
+				const hash = hashContent(content);
+				const previousHash = context.sync.previous.get(entryPath);
+				context.sync.files.push({
+					entryName: entry.fileName,
+					path: entryPath,
+					hash,
+				});
+
+				if (
+					previousHash === hash &&
+					(await hashFile(destinationPath).catch(() => null)) === hash
+				) {
+					return unchanged;
+				}
+			}
+
+			if (
+				action === "compare" &&
+				content.equals(await fs.promises.readFile(destinationPath))
+			) {
+				return unchanged;
+			}
+
+			if (action === "backup" && !context.destinationDir) {
+				await this.backupExistingFile(
+					destinationPath,
+					entryPath,
+					context.extractParams,
+				);
+			}
+
+			await fs.promises.writeFile(fullPath, content);
+			if (!existed) {
+				context.createdPaths?.add(fullPath);
+			}
+			if (context.extractParams.preserveAttributes) {
+				await this.applyEntryAttributes(entry, fullPath);
+			}
+			return {
+				file: {
+					entryName: entry.fileName,
+					path: fullPath,
+					size: content.length,
+				},
+			};
+		}
+
+		if (action === "backup" && !context.destinationDir) {
+			await this.backupExistingFile(
+				destinationPath,
+				entryPath,
+				context.extractParams,
+			);
+		}
+
+		// Existing files are replaced only once the entry is fully written, so a
+		// failed entry never truncates them
+		const writePath = existed
+			? `${fullPath}.${LokaliseDownload.uniqueId()}.tmp`
+			: fullPath;
+		const readStream = await this.openZipEntryStream(entry, zipfile);
+		const writeStream = fs.createWriteStream(writePath);
+
+		try {
+			await this.streamPipeline(
+				readStream,
+				this.createLimitStream(entry, context),
+				writeStream,
+			);
+			if (existed) {
+				await fs.promises.rename(writePath, fullPath);
+			}
+		} catch (e) {
+			await fs.promises.rm(writePath, { force: true });
+			throw e;
+		}
+
+		if (!existed) {
+			context.createdPaths?.add(fullPath);
+		}
+
+		if (context.extractParams.preserveAttributes) {
+			await this.applyEntryAttributes(entry, fullPath);
+		}
+
+		return {
+			file: {
+				entryName: entry.fileName,
+				path: fullPath,
+				size: writeStream.bytesWritten,
+			},
+		};
+	}
+
+	/**
+	 * Checks a ZIP entry for symlinks, devices, and other special files.
+	 *
+	 * The file type is read from the Unix mode stored in the entry's external
+	 * attributes, so only archives created on Unix systems can contain special
+	 * entries. Depending on `specialEntries`, such an entry is rejected or
+	 * skipped with a warning.
+	 *
+	 * @param entry - The ZIP entry to check.
+	 * @param extractParams - Extraction settings with the special entry policy.
+	 * @returns `true` if the entry is special and must be skipped.
+	 * @throws {LokaliseError} If the entry is special and the policy is `reject`.
+	 */
+	private isSkippedSpecialEntry(
+		entry: yauzl.Entry,
+		{ specialEntries = "reject" }: ExtractParams,
+	): boolean {
+		const type = LokaliseDownload.isUnixEntry(entry)
+			? LokaliseDownload.SPECIAL_FILE_TYPES.get(
+					(entry.externalFileAttributes >>> 16) & 0o170000,
+				)
+			: undefined;
+
+		if (!type) {
+			return false;
+		}
+
+		switch (specialEntries) {
+			case "skip":
+				this.logMsg("warn", `Skipping ${type} ZIP entry ${entry.fileName}`);
+				return true;
+			case "reject":
+				throw new LokaliseError(
+					`Unsupported ZIP entry type (${type}): ${entry.fileName}`,
+					422,
+					{ reason: "unsupported entry type", entry: entry.fileName, type },
+				);
+			default:
+				throw new LokaliseError(`Unknown specialEntries: ${specialEntries}`);
+		}
+	}
+
+	/**
+	 * Applies the permissions and modification time stored in a ZIP entry to an extracted file.
+	 *
+	 * Only the permission bits are applied; setuid, setgid and sticky bits are
+	 * dropped. Entries created on non-Unix systems carry no permissions, so
+	 * only their modification time is applied.
+	 *
+	 * @param entry - The ZIP entry the file was extracted from.
+	 * @param filePath - Path of the extracted file.
+	 */
+	private async applyEntryAttributes(
+		entry: yauzl.Entry,
+		filePath: string,
+	): Promise<void> {
+		const mode = LokaliseDownload.isUnixEntry(entry)
+			? (entry.externalFileAttributes >>> 16) & 0o777
+			: 0;
+		if (mode) {
+			await fs.promises.chmod(filePath, mode);
+		}
+
+		const modified = entry.getLastModDate();
+		await fs.promises.utimes(filePath, modified, modified);
+	}
+
+	/**
+	 * Checks whether a ZIP entry was created on a Unix system.
+	 *
+	 * @param entry - The ZIP entry to check.
+	 * @returns `true` if the external attributes hold a Unix mode.
+	 */
+	private static isUnixEntry(entry: yauzl.Entry): boolean {
+		return entry.versionMadeBy >> 8 === LokaliseDownload.ZIP_UNIX_HOST;
+	}
+
+	/**
+	 * Checks whether entry filtering or path remapping is configured.
+	 *
+	 * @param extractParams - Extraction settings.
+	 * @returns `true` if `include`, `exclude`, or `mapPath` is set.
+	 */
+	private isEntryRoutingEnabled({
+		include,
+		exclude,
+		mapPath,
+	}: ExtractParams): boolean {
+		return (
+			LokaliseDownload.toPatternList(include).length > 0 ||
+			LokaliseDownload.toPatternList(exclude).length > 0 ||
+			mapPath !== undefined
+		);
+	}
+
+	/**
+	 * Applies the entry filters and path mapping to a ZIP entry name.
+	 *
+	 * An entry is kept if it matches one of the `include` globs (or no
+	 * `include` is given) and none of the `exclude` globs. Kept entries are
+	 * then relocated with `mapPath`, which is either a callback or a template.
+	 *
+	 * @param entryName - Name of the ZIP entry.
+	 * @param extractParams - Extraction settings with filters and mapping.
+	 * @returns The path relative to the output directory, or `null` if the entry is filtered out.
+	 * @throws {LokaliseError} If the mapped path is empty or the template is invalid.
+	 */
+	private resolveZipEntryPath(
+		entryName: string,
+		{ include, exclude, mapPath }: ExtractParams,
+	): string | null {
+		const includePatterns = LokaliseDownload.toPatternList(include);
+		const excludePatterns = LokaliseDownload.toPatternList(exclude);
+		const matches = (pattern: string) =>
+			path.posix.matchesGlob(entryName, pattern);
+
+		if (
+			(includePatterns.length && !includePatterns.some(matches)) ||
+			excludePatterns.some(matches)
+		) {
+			return null;
+		}
+
+		if (mapPath === undefined) {
+			return entryName;
+		}
+
+		const mapped =
+			typeof mapPath === "function"
+				? mapPath(entryName)
+				: this.applyPathTemplate(mapPath, entryName);
+
+		if (typeof mapped !== "string" || !mapped.trim() || mapped.endsWith("/")) {
+			throw new LokaliseError(
+				`Invalid mapped path for ZIP entry ${entryName}: ${String(mapped)}`,
+			);
+		}
+
+		return mapped;
+	}
+
+	/**
+	 * Builds a path for a ZIP entry from a `mapPath` template.
+	 *
+	 * Supported placeholders: `{path}` (full entry name), `{dir}` (entry
+	 * directory), `{lang}` (name of the parent directory), `{basename}` (file
+	 * name with extension), `{name}` (file name without extension) and `{ext}`
+	 * (extension without the dot).
+	 *
+	 * @param template - Template such as `src/i18n/{lang}/{basename}`.
+	 * @param entryName - Name of the ZIP entry.
+	 * @returns The expanded path.
+	 * @throws {LokaliseError} If the template contains an unknown placeholder.
+	 */
+	private applyPathTemplate(template: string, entryName: string): string {
+		const dir = path.posix.dirname(entryName);
+		const basename = path.posix.basename(entryName);
+		const ext = path.posix.extname(basename);
+		const values: Record<string, string> = {
+			path: entryName,
+			dir,
+			lang: path.posix.basename(dir),
+			basename,
+			name: basename.slice(0, basename.length - ext.length),
+			ext: ext.slice(1),
+		};
+
+		return template.replace(/\{(\w+)\}/g, (_, key: string) => {
+			const value = values[key];
+			if (value === undefined) {
+				throw new LokaliseError(
+					`Unknown placeholder {${key}} in mapPath template: ${template}`,
+				);
+			}
+			return value;
+		});
+	}
+
+	/**
+	 * Decides how to handle a ZIP entry whose destination file may already exist.
+	 *
+	 * @param entry - The ZIP entry being extracted.
+	 * @param destinationPath - Final path of the file in the output directory.
+	 * @param extractParams - Extraction settings including the conflict policy.
+	 * @returns `"write"` to (over)write the file, `"skip"` to keep the existing one,
+	 *          `"compare"` to write only if the content differs, or `"backup"`
+	 *          to back up the existing file before overwriting it.
+	 * @throws {LokaliseError} If the file exists and the policy is `fail-on-existing`.
+	 */
+	private async resolveConflict(
+		entry: yauzl.Entry,
+		destinationPath: string,
+		{ conflictPolicy = "overwrite" }: ExtractParams,
+	): Promise<"write" | "skip" | "compare" | "backup"> {
+		if (conflictPolicy === "overwrite") {
+			return "write";
+		}
+
+		const existing = await fs.promises.stat(destinationPath).catch(() => null);
+		if (!existing) {
+			return "write";
+		}
+
+		switch (conflictPolicy) {
+			case "skip-if-exists":
+				this.logMsg("debug", `Skipping existing file ${destinationPath}`);
+				return "skip";
+			case "fail-on-existing":
+				throw new LokaliseError(
+					`File already exists: ${destinationPath}`,
+					409,
+					{ reason: "file exists", entry: entry.fileName },
+				);
+			case "overwrite-if-changed":
+				return existing.size === entry.uncompressedSize ? "compare" : "write";
+			case "backup":
+				return "backup";
+			default:
+				throw new LokaliseError(`Unknown conflictPolicy: ${conflictPolicy}`);
+		}
+	}
+
+	/**
+	 * Copies an existing file to its backup location before it gets overwritten.
+	 *
+	 * Uses `backupDir` (mirroring the entry path) when provided, otherwise
+	 * appends `backupSuffix` (`.bak` by default) to the original path.
+	 *
+	 * @param existingPath - File that is about to be overwritten.
+	 * @param entryName - Path of the file relative to the output directory.
+	 * @param extractParams - Extraction settings including backup options.
+	 * @returns Path of the created backup.
+	 */
+	private async backupExistingFile(
+		existingPath: string,
+		entryName: string,
+		{ backupSuffix = ".bak", backupDir }: ExtractParams,
+	): Promise<string> {
+		const backupPath = backupDir
+			? this.processZipEntryPath(path.resolve(backupDir), entryName)
+			: `${existingPath}${backupSuffix}`;
+
+		await this.createDir(path.dirname(backupPath));
+		await fs.promises.copyFile(existingPath, backupPath);
+
+		this.logMsg("debug", `Backed up ${existingPath} to ${backupPath}`);
+		return backupPath;
+	}
+
+	/**
+	 * Reads a ZIP entry into memory while enforcing the resource limits.
+	 *
+	 * @param entry - The ZIP entry to read.
+	 * @param zipfile - The open ZIP file instance.
+	 * @param context - Extraction settings and running totals.
+	 * @returns The decompressed entry content.
 	 */
-	protected buildTempZipPath(): string {
-		const uid =
-			crypto.randomUUID?.() ??
-			`${process.pid}-${Date.now()}-${crypto.randomBytes(8).toString("hex")}`;
+	private async readZipEntry(
+		entry: yauzl.Entry,
+		zipfile: yauzl.ZipFile,
+		context: ZipExtractionContext,
+	): Promise<Buffer> {
+		const chunks: Buffer[] = [];
+		const readStream = await this.openZipEntryStream(entry, zipfile);
+
+		await this.streamPipeline(
+			readStream,
+			this.createLimitStream(entry, context),
+			new Writable({
+				write(chunk: Buffer, _encoding, callback) {
+					chunks.push(chunk);
+					callback();
+				},
+			}),
+		);
 
-		return path.join(os.tmpdir(), `lokalise-${uid}.zip`);
+		return Buffer.concat(chunks);
 	}
 
 	/**
-	 * Creates an optional AbortSignal for enforcing request timeouts.
-	 *
-	 * Returns `undefined` when no timeout is configured, disabling abort handling.
+	 * Opens a readable stream for a single ZIP entry.
 	 *
-	 * @param downloadTimeout - Timeout in milliseconds. `0` or negative disables the signal.
-	 * @returns An AbortSignal if timeout is enabled, otherwise `undefined`.
+	 * @param entry - The ZIP entry to read.
+	 * @param zipfile - The open ZIP file instance.
+	 * @returns A readable stream with the decompressed entry content.
+	 * @throws {LokaliseError} If the entry cannot be read.
 	 */
-	private buildAbortSignal(downloadTimeout: number): AbortSignal | undefined {
-		if (downloadTimeout <= 0) {
-			return undefined;
-		}
+	private openZipEntryStream(
+		entry: yauzl.Entry,
+		zipfile: yauzl.ZipFile,
+	): Promise<Readable> {
+		return new Promise((resolve, reject) => {
+			zipfile.openReadStream(entry, (readErr, readStream) => {
+				if (readErr || !readStream) {
+					return reject(
+						new LokaliseError(`Failed to read ZIP entry: ${entry.fileName}`),
+					);
+				}
 
-		return AbortSignal.timeout(downloadTimeout);
+				resolve(readStream);
+			});
+		});
 	}
 
 	/**
-	 * Executes a fetch request for the ZIP bundle URL with optional timeout handling.
+	 * Creates a pass-through stream that counts the bytes of a ZIP entry and
+	 * aborts the pipeline once a configured resource limit is exceeded.
 	 *
-	 * Wraps network failures, timeouts, and unexpected fetch errors into `LokaliseError`
-	 * so higher-level logic receives consistent exceptions.
+	 * Updates `context.totalBytes` as data flows through.
 	 *
-	 * @param bundleURL - Parsed URL pointing to the ZIP file.
-	 * @param signal - Optional `AbortSignal` used to enforce request timeouts.
-	 * @param downloadTimeout - Timeout duration (ms) used for error messaging.
-	 * @returns The raw `Response` object returned by `fetch` if the request succeeds.
+	 * @param entry - The ZIP entry being extracted.
+	 * @param context - Extraction settings and running totals.
+	 * @returns A transform stream enforcing the limits.
 	 */
-	protected async fetchZipResponse(
-		bundleURL: URL,
-		signal: AbortSignal | undefined,
-		downloadTimeout: number,
-	): Promise<Response> {
-		try {
-			return await fetch(bundleURL, signal ? { signal } : {});
-		} catch (err) {
-			if (err instanceof Error) {
-				if (err.name === "TimeoutError") {
-					throw new LokaliseError(
-						`Request timed out after ${downloadTimeout}ms`,
-						408,
-						{ reason: "timeout" },
+	private createLimitStream(
+		entry: yauzl.Entry,
+		context: ZipExtractionContext,
+	): Transform {
+		let entryBytes = 0;
+
+		return new Transform({
+			transform: (chunk: Buffer, _encoding, callback) => {
+				entryBytes += chunk.length;
+				context.totalBytes += chunk.length;
+
+				try {
+					this.assertEntryWithinLimits(
+						entry,
+						entryBytes,
+						context.totalBytes,
+						context.extractParams,
 					);
+				} catch (error) {
+					return callback(error as Error);
 				}
 
-				throw new LokaliseError(err.message, 500, {
-					reason: "network or fetch error",
-				});
-			}
+				callback(null, chunk);
+			},
+		});
+	}
 
-			// This should never happen in production
-			// as realistically fetch always raises Error,
-			// unless some black magic has been involved.
-			/* v8 ignore start */
-			throw new LokaliseError(
-				"An unknown error occurred. This might indicate a bug.",
-				500,
-				{
-					reason: String(err),
-				},
+	/**
+	 * Ensures the number of entries declared by the archive does not exceed `maxEntries`.
+	 *
+	 * @param entryCount - Number of entries in the ZIP central directory.
+	 * @param extractParams - Extraction settings including limits.
+	 * @throws {LokaliseError} If the archive has too many entries.
+	 */
+	private assertEntryCount(
+		entryCount: number,
+		{ maxEntries }: ExtractParams,
+	): void {
+		if (maxEntries !== undefined && entryCount > maxEntries) {
+			throw LokaliseDownload.zipLimitError(
+				`ZIP archive has ${entryCount} entries, exceeding maxEntries=${maxEntries}`,
+				"maxEntries",
+				maxEntries,
 			);
-			/* v8 ignore end */
 		}
 	}
 
 	/**
-	 * Validates and extracts the readable body stream from a fetch response.
+	 * Checks a ZIP entry against the per-file, total size, and compression ratio limits.
 	 *
-	 * Ensures the response is OK and has a non-null body before returning it.
-	 *
-	 * @param response - The HTTP response returned by `fetch`.
-	 * @param originalUrl - Original URL used for error diagnostics.
-	 * @returns A web ReadableStream of the ZIP file contents.
-	 * @throws {LokaliseError} If the response is not OK or body is missing.
+	 * @param entry - The ZIP entry being extracted.
+	 * @param entryBytes - Uncompressed bytes of the entry (declared or streamed so far).
+	 * @param totalBytes - Uncompressed bytes of the whole archive including this entry.
+	 * @param extractParams - Extraction settings including limits.
+	 * @throws {LokaliseError} If any of the limits is exceeded.
 	 */
-	private getZipResponseBody(
-		response: Response,
-		originalUrl: string,
-	): WebReadableStream<Uint8Array> {
-		if (!response.ok) {
-			throw new LokaliseError(
-				`Failed to download ZIP file: ${response.statusText} (${response.status})`,
+	private assertEntryWithinLimits(
+		entry: yauzl.Entry,
+		entryBytes: number,
+		totalBytes: number,
+		{ maxFileBytes, maxTotalBytes, maxCompressionRatio }: ExtractParams,
+	): void {
+		if (maxFileBytes !== undefined && entryBytes > maxFileBytes) {
+			throw LokaliseDownload.zipLimitError(
+				`ZIP entry ${entry.fileName} exceeds maxFileBytes=${maxFileBytes}`,
+				"maxFileBytes",
+				maxFileBytes,
+				entry.fileName,
 			);
 		}
 
-		const body = response.body as WebReadableStream<Uint8Array> | null;
-
-		if (!body) {
-			throw new LokaliseError(
-				`Response body is null. Cannot download ZIP file from URL: ${originalUrl}`,
+		if (maxTotalBytes !== undefined && totalBytes > maxTotalBytes) {
+			throw LokaliseDownload.zipLimitError(
+				`ZIP archive exceeds maxTotalBytes=${maxTotalBytes}`,
+				"maxTotalBytes",
+				maxTotalBytes,
+				entry.fileName,
 			);
 		}
 
-		return body;
+		if (
+			maxCompressionRatio !== undefined &&
+			entryBytes > 0 &&
+			entryBytes / entry.compressedSize > maxCompressionRatio
+		) {
+			throw LokaliseDownload.zipLimitError(
+				`ZIP entry ${entry.fileName} exceeds maxCompressionRatio=${maxCompressionRatio}`,
+				"maxCompressionRatio",
+				maxCompressionRatio,
+				entry.fileName,
+			);
+		}
 	}
 
 	/**
-	 * Streams the ZIP response body to a temporary file on disk.
-	 *
-	 * Cleans up the temporary file if the streaming pipeline fails.
+	 * Validates the resource limits passed in extraction settings.
 	 *
-	 * @param body - Web readable stream of the ZIP content.
-	 * @param tempZipPath - Path where the ZIP should be written.
-	 * @returns A promise that resolves once the file is fully written.
-	 * @throws {Error} Re-throws any pipeline errors after attempting cleanup.
+	 * @param extractParams - Extraction settings including limits.
+	 * @throws {LokaliseError} If any limit is not a positive number.
 	 */
-	private async writeZipToDisk(
-		body: WebReadableStream<Uint8Array>,
-		tempZipPath: string,
-	): Promise<void> {
-		try {
-			const nodeReadable = Readable.fromWeb(body);
-			await this.streamPipeline(
-				nodeReadable,
-				fs.createWriteStream(tempZipPath),
-			);
-		} catch (e) {
-			try {
-				await fs.promises.unlink(tempZipPath);
-			} catch {
-				this.logMsg(
-					"debug",
-					`Stream pipeline failed and unable to remove temp path ${tempZipPath}`,
-				);
+	private validateExtractLimits(extractParams: ExtractParams): void {
+		const limits = [
+			"maxEntries",
+			"maxTotalBytes",
+			"maxFileBytes",
+			"maxCompressionRatio",
+		] as const;
+
+		for (const limit of limits) {
+			const value = extractParams[limit];
+			if (value !== undefined && !(value > 0)) {
+				throw new LokaliseError(`${limit} must be a positive number.`);
 			}
-			throw e;
 		}
 	}
 
 	/**
-	 * Retrieves a translation bundle from Lokalise with retries and exponential backoff.
+	 * Removes files written during a failed extraction. Errors are logged and ignored.
 	 *
-	 * @param downloadFileParams - Parameters for Lokalise API file download.
-	 * @returns The downloaded bundle metadata.
-	 * @throws {LokaliseError} If retries are exhausted or an API error occurs.
+	 * @param files - Files created before the failure.
 	 */
-	protected async getTranslationsBundle(
-		downloadFileParams: DownloadFileParams,
-	): Promise<DownloadBundle> {
-		return this.withExponentialBackoff(() =>
-			this.apiClient.files().download(this.projectId, downloadFileParams),
-		);
+	private async removeExtractedFiles(files: ExtractedFile[]): Promise<void> {
+		for (const file of files) {
+			try {
+				await fs.promises.rm(file.path, { force: true });
+			} catch {
+				this.logMsg("debug", `Unable to remove extracted file ${file.path}`);
+			}
+		}
 	}
 
 	/**
-	 * Retrieves a translation bundle from Lokalise with retries and exponential backoff.
+	 * Builds the error raised when a ZIP archive exceeds a resource limit.
 	 *
-	 * @param downloadFileParams - Parameters for Lokalise API file download.
-	 * @returns The queued process.
-	 * @throws {LokaliseError} If retries are exhausted or an API error occurs.
+	 * @param message - Human-readable description of the violation.
+	 * @param limit - Name of the violated `ExtractParams` limit.
+	 * @param max - Configured value of the limit.
+	 * @param entryName - Name of the offending entry, if any.
+	 * @returns A `LokaliseError` with code 413.
 	 */
-	protected async getTranslationsBundleAsync(
-		downloadFileParams: DownloadFileParams,
-	): Promise<QueuedProcess> {
-		return this.withExponentialBackoff(() =>
-			this.apiClient.files().async_download(this.projectId, downloadFileParams),
-		);
+	private static zipLimitError(
+		message: string,
+		limit: string,
+		max: number,
+		entryName?: string,
+	): LokaliseError {
+		return new LokaliseError(message, 413, {
+			reason: LokaliseDownload.ZIP_LIMIT_REASON,
+			limit,
+			max,
+			...(entryName ? { entry: entryName } : {}),
+		});
 	}
 
 	/**
-	 * Extracts a single entry from a ZIP archive to the specified output directory.
+	 * Checks whether an error was raised because a ZIP resource limit was exceeded.
 	 *
-	 * Creates necessary directories and streams the file content to disk.
-	 *
-	 * @param entry - The ZIP entry to extract.
-	 * @param zipfile - The open ZIP file instance.
-	 * @param outputDir - The directory where the entry should be written.
-	 * @returns A promise that resolves when the entry is fully written.
+	 * @param error - The error to inspect.
+	 * @returns `true` for ZIP limit violations, otherwise `false`.
 	 */
-	protected async handleZipEntry(
-		entry: yauzl.Entry,
-		zipfile: yauzl.ZipFile,
-		outputDir: string,
-	): Promise<void> {
-		const fullPath = this.processZipEntryPath(outputDir, entry.fileName);
-
-		if (entry.fileName.endsWith("/")) {
-			// it's a directory
-			await this.createDir(fullPath);
-			return;
-		}
-
-		await this.createDir(path.dirname(fullPath));
-
-		return new Promise((response, reject) => {
-			zipfile.openReadStream(entry, (readErr, readStream) => {
-				if (readErr || !readStream) {
-					return reject(
-						new LokaliseError(`Failed to read ZIP entry: ${entry.fileName}`),
-					);
-				}
-
-				const writeStream = fs.createWriteStream(fullPath);
-				readStream.pipe(writeStream);
-				writeStream.on("finish", response);
-				writeStream.on("error", reject);
-				readStream.on("error", reject);
-			});
-		});
+	private static isZipLimitError(error: unknown): boolean {
+		return (
+			error instanceof LokaliseError &&
+			error.details?.reason === LokaliseDownload.ZIP_LIMIT_REASON
+		);
 	}
 
 	/**
@@ -381,28 +2704,6 @@ export class LokaliseDownload extends LokaliseFileExchange {
 		return fullPath;
 	}
 
-	/**
-	 * Parses and validates a URL string, ensuring it uses HTTP or HTTPS protocol.
-	 *
-	 * @param value - The URL string to validate.
-	 * @returns A parsed `URL` object if valid.
-	 * @throws {LokaliseError} If the URL is invalid or uses an unsupported protocol.
-	 */
-	private assertHttpUrl(value: string): URL {
-		let parsed: URL;
-		try {
-			parsed = new URL(value);
-		} catch {
-			throw new LokaliseError(`Invalid URL: ${value}`);
-		}
-
-		if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
-			throw new LokaliseError(`Unsupported protocol in URL: ${value}`);
-		}
-
-		return parsed;
-	}
-
 	/**
 	 * Builds effective process parameters for the download workflow.
 	 *
@@ -413,40 +2714,331 @@ export class LokaliseDownload extends LokaliseFileExchange {
 	 */
 	private buildProcessParams(
 		overrides?: Partial<ProcessDownloadFileParams>,
-	): Required<ProcessDownloadFileParams> {
+	): ResolvedProcessParams {
 		return {
 			...LokaliseDownload.defaultProcessParams,
 			...overrides,
 		};
 	}
 
+	/**
+	 * Picks the bundle download settings from the process parameters.
+	 *
+	 * @param processParams - Resolved process parameters.
+	 * @returns Options for `downloadZip` and `downloadZipToBuffer`.
+	 */
+	private buildZipDownloadOptions({
+		bundleDownloadTimeout,
+		bundleIdleTimeout,
+		onProgress,
+		tempDir,
+	}: ResolvedProcessParams): ZipDownloadOptions {
+		return {
+			downloadTimeout: bundleDownloadTimeout,
+			idleTimeout: bundleIdleTimeout,
+			...(onProgress ? { onProgress } : {}),
+			...(tempDir ? { tempDir } : {}),
+		};
+	}
+
 	/**
 	 * Unpacks the downloaded ZIP archive into the target directory and
-	 * removes the temporary archive file afterwards.
+	 * removes (or archives) the temporary archive file afterwards.
 	 *
-	 * Logs progress and always attempts to delete the temporary file.
+	 * Logs progress and always attempts to release the temporary file.
 	 *
 	 * @param zipFilePath - Path to the temporary ZIP file.
 	 * @param unpackTo - Destination directory for extracted files.
+	 * @param extractParams - Extraction settings passed to `unpackZip`.
+	 * @param options - Optional progress callback, archive settings, and ID of the async download process used in archive filenames.
+	 * @returns The extraction result along with the archive size in bytes and the archived bundle path.
 	 */
 	private async processZip(
 		zipFilePath: string,
 		unpackTo: string,
-	): Promise<void> {
+		extractParams: ExtractParams,
+		{ onProgress, archive, processId }: ProcessZipOptions = {},
+	): Promise<ExtractedBundle & { archivePath?: string }> {
+		let result: ExtractedBundle;
+		let archivePath: string | undefined;
+
+		try {
+			result = await this.extractZip(
+				zipFilePath,
+				unpackTo,
+				extractParams,
+				onProgress,
+			);
+			this.logMsg("debug", "Download successful!");
+		} finally {
+			archivePath = await this.releaseZip(zipFilePath, archive, processId);
+		}
+
+		return { ...result, ...(archivePath ? { archivePath } : {}) };
+	}
+
+	/**
+	 * Unpacks a ZIP archive into the target directory, atomically if requested.
+	 *
+	 * @param zipFilePath - Path to the ZIP file.
+	 * @param unpackTo - Destination directory for extracted files.
+	 * @param extractParams - Extraction settings passed to `unpackZip`.
+	 * @param onProgress - Optional callback notified after each extracted entry.
+	 * @returns The extraction result along with the archive size in bytes and, if requested, the key diff report.
+	 */
+	private async extractZip(
+		zipFilePath: string,
+		unpackTo: string,
+		extractParams: ExtractParams,
+		onProgress?: DownloadProgressCallback,
+	): Promise<ExtractedBundle> {
 		this.logMsg(
 			"debug",
 			`Unpacking translations from ${zipFilePath} to ${unpackTo}`,
 		);
 
-		try {
-			await this.unpackZip(zipFilePath, unpackTo);
+		const { size: bundleSize } = await fs.promises.stat(zipFilePath);
+		const diffReport = extractParams.diffReport
+			? summarizeKeyDiff(
+					await this.diffBundleKeys(
+						zipFilePath,
+						unpackTo,
+						extractParams,
+						extractParams.diffReport,
+					),
+				)
+			: undefined;
+
+		if (extractParams.syncStateFile) {
+			return {
+				...(await this.extractZipIncrementally(
+					zipFilePath,
+					unpackTo,
+					extractParams,
+					path.resolve(extractParams.syncStateFile),
+					onProgress,
+				)),
+				bundleSize,
+				...(diffReport ? { diffReport } : {}),
+			};
+		}
 
-			this.logMsg("debug", "Translations unpacked!");
-			this.logMsg("debug", "Download successful!");
-		} finally {
-			this.logMsg("debug", `Removing temp archive from ${zipFilePath}`);
-			await fs.promises.unlink(zipFilePath);
+		const unpackOptions = onProgress ? { onProgress } : {};
+		const result = extractParams.atomic
+			? await this.unpackZipAtomically(
+					zipFilePath,
+					unpackTo,
+					extractParams,
+					unpackOptions,
+				)
+			: await this.unpackZip(
+					zipFilePath,
+					unpackTo,
+					extractParams,
+					unpackOptions,
+				);
+
+		this.logMsg("debug", "Translations unpacked!");
+
+		return { ...result, bundleSize, ...(diffReport ? { diffReport } : {}) };
+	}
+
+	/**
+	 * Compares the keys of structured files in a bundle with the files already in the output directory.
+	 *
+	 * The bundle is read with the same filters and path mapping as the
+	 * extraction, before anything is written. Files in formats without a key
+	 * parser are ignored, and files without key changes are left out.
+	 *
+	 * @param zipFilePath - Path to the ZIP file.
+	 * @param outputDir - Directory the bundle is about to be extracted into.
+	 * @param extractParams - Extraction settings including filters and limits.
+	 * @param diffReportParams - Diff report settings.
+	 * @returns Key changes per file, sorted by path.
+	 */
+	private async diffBundleKeys(
+		zipFilePath: string,
+		outputDir: string,
+		extractParams: ExtractParams,
+		{ languageInferer }: DiffReportParams,
+	): Promise<FileKeyDiff[]> {
+		const contents = await this.readZipToMemory(zipFilePath, extractParams);
+		const diffs: FileKeyDiff[] = [];
+
+		for (const [relative, content] of [...contents].sort(([a], [b]) =>
+			a.localeCompare(b),
+		)) {
+			if (!hasTranslationKeyParser(path.extname(relative))) {
+				continue;
+			}
+
+			const target = this.processZipEntryPath(outputDir, relative);
+			const previous = await fs.promises
+				.readFile(target, "utf8")
+				.catch(() => null);
+			const diff = diffFileKeys(
+				relative,
+				await inferDiffLanguage(target, relative, languageInferer),
+				content.toString("utf8"),
+				previous,
+			);
+
+			if (diff) {
+				diffs.push(diff);
+			}
+		}
+
+		return diffs;
+	}
+
+	/**
+	 * Writes the key diff report to the configured file, if any.
+	 *
+	 * @param report - The report to write.
+	 * @param diffReportParams - Diff report settings with the target file and format.
+	 */
+	private async writeKeyDiffReport(
+		report: KeyDiffReport,
+		{ reportFile, format = "json" }: DiffReportParams,
+	): Promise<void> {
+		if (!reportFile) {
+			return;
+		}
+
+		const target = path.resolve(reportFile);
+		await this.createDir(path.dirname(target));
+		await fs.promises.writeFile(
+			target,
+			format === "markdown"
+				? formatKeyDiffMarkdown(report)
+				: `${JSON.stringify(report, null, 2)}\n`,
+		);
+		this.logMsg("debug", `Key diff report written to ${target}`);
+	}
+
+	/**
+	 * Validates diff report settings before anything is downloaded.
+	 *
+	 * @param diffReportParams - Diff report settings to check.
+	 * @throws {LokaliseError} If the format is unknown or the inferer is not a function.
+	 */
+	private validateDiffReportParams({
+		format,
+		reportFile,
+		languageInferer,
+	}: DiffReportParams): void {
+		if (
+			format !== undefined &&
+			!LokaliseDownload.DIFF_REPORT_FORMATS.includes(format)
+		) {
+			throw new LokaliseError(`Unknown diff report format: ${format}`);
+		}
+		if (reportFile !== undefined && !reportFile.trim()) {
+			throw new LokaliseError("diffReport.reportFile must not be empty.");
+		}
+		if (
+			languageInferer !== undefined &&
+			typeof languageInferer !== "function"
+		) {
+			throw new LokaliseError("diffReport.languageInferer must be a function.");
+		}
+	}
+
+	/**
+	 * Unpacks a ZIP archive, skipping work that was already done by the previous sync.
+	 *
+	 * If the bundle hash matches the one recorded in the sync state file and
+	 * all recorded files still exist with their recorded contents, extraction
+	 * is skipped entirely and every recorded file is reported as unchanged.
+	 * Otherwise the bundle is extracted, but files whose recorded hash and
+	 * contents on disk both match the entry are not rewritten. The state file
+	 * is updated after a successful extraction.
+	 *
+	 * @param zipFilePath - Path to the ZIP file.
+	 * @param unpackTo - Destination directory for extracted files.
+	 * @param extractParams - Extraction settings passed to `unpackZip`.
+	 * @param stateFile - Absolute path to the sync state file.
+	 * @param onProgress - Optional callback notified after each extracted entry.
+	 * @returns The extraction result and whether the whole bundle was unchanged.
+	 */
+	private async extractZipIncrementally(
+		zipFilePath: string,
+		unpackTo: string,
+		extractParams: ExtractParams,
+		stateFile: string,
+		onProgress?: DownloadProgressCallback,
+	): Promise<ExtractResult & { bundleUnchanged: boolean }> {
+		const bundleHash = await hashFile(zipFilePath);
+		const stored = await readSyncState(stateFile);
+
+		if (stored === null) {
+			this.logMsg("debug", `No sync state found at ${stateFile}`);
+		} else if (stored === "invalid") {
+			this.logMsg(
+				"warn",
+				`Ignoring invalid sync state file ${stateFile}; performing a full extraction`,
+			);
+		}
+		const state = stored === "invalid" ? null : stored;
+
+		if (state?.bundleHash === bundleHash) {
+			const skipped = state.files.map((file) => ({
+				entryName: file.entryName,
+				reason: "unchanged" as const,
+				path: this.processZipEntryPath(unpackTo, file.path),
+			}));
+			const changed = await Promise.all(
+				skipped.map(
+					async ({ path: filePath }, index) =>
+						(await hashFile(filePath).catch(() => null)) !==
+						state.files[index]?.hash,
+				),
+			);
+
+			if (!changed.includes(true)) {
+				this.logMsg(
+					"debug",
+					"Bundle unchanged since the last sync, skipping extraction",
+				);
+				return { files: [], skipped, bundleUnchanged: true };
+			}
 		}
+
+		const sync: ZipSyncContext = {
+			previous: new Map(
+				(state?.files ?? []).map((file) => [file.path, file.hash]),
+			),
+			files: [],
+		};
+		const unpackOptions = { ...(onProgress ? { onProgress } : {}), sync };
+		const result = extractParams.atomic
+			? await this.unpackZipAtomically(
+					zipFilePath,
+					unpackTo,
+					extractParams,
+					unpackOptions,
+				)
+			: await this.unpackZip(
+					zipFilePath,
+					unpackTo,
+					extractParams,
+					unpackOptions,
+				);
+
+		this.logMsg("debug", "Translations unpacked!");
+
+		await writeSyncState(
+			stateFile,
+			{
+				version: 1,
+				lastSync: new Date().toISOString(),
+				bundleHash,
+				files: sync.files,
+			},
+			LokaliseDownload.uniqueId(),
+		);
+
+		return { ...result, bundleUnchanged: false };
 	}
 
 	/**
@@ -455,16 +3047,21 @@ export class LokaliseDownload extends LokaliseFileExchange {
 	 * Calls the standard download endpoint without polling.
 	 *
 	 * @param downloadFileParams - Parameters for Lokalise API file download.
-	 * @returns Direct bundle URL returned by Lokalise.
+	 * @returns Direct bundle URL returned by Lokalise along with the request timing.
 	 */
 	private async fetchBundleURLSync(
 		downloadFileParams: DownloadFileParams,
-	): Promise<string> {
+	): Promise<TranslationBundleInfo> {
 		this.logMsg("debug", "Async download mode disabled.");
 
+		const queueStartedAt = Date.now();
 		const translationsBundle =
 			await this.getTranslationsBundle(downloadFileParams);
-		return translationsBundle.bundle_url;
+
+		return {
+			bundleUrl: translationsBundle.bundle_url,
+			timings: { queue: Date.now() - queueStartedAt, poll: 0 },
+		};
 	}
 
 	/**
@@ -498,10 +3095,27 @@ export class LokaliseDownload extends LokaliseFileExchange {
 			maxWait,
 		);
 
-		const completedProcess = results.find(
-			(p) => p.process_id === downloadProcess.process_id,
+		return this.assertDownloadProcessFinished(
+			downloadProcess,
+			results.find((p) => p.process_id === downloadProcess.process_id),
+			maxWait,
 		);
+	}
 
+	/**
+	 * Checks that a polled async download process has reached a final status.
+	 *
+	 * @param downloadProcess - The initially queued async process.
+	 * @param completedProcess - The process state after polling, if found.
+	 * @param maxWait - Maximum total wait time in ms, used for error messaging.
+	 * @returns The completed process object.
+	 * @throws {LokaliseError} If the process is not found or does not finish successfully.
+	 */
+	private assertDownloadProcessFinished(
+		downloadProcess: QueuedProcess,
+		completedProcess: QueuedProcess | undefined,
+		maxWait: number,
+	): QueuedProcess {
 		if (!completedProcess) {
 			throw new LokaliseError(
 				`Process ${downloadProcess.process_id} not found after polling`,
@@ -528,12 +3142,12 @@ export class LokaliseDownload extends LokaliseFileExchange {
 	 *
 	 * @param downloadFileParams - Parameters for Lokalise API file download.
 	 * @param processParams - Effective process parameters controlling async behavior and polling.
-	 * @returns Direct bundle URL to download.
+	 * @returns Direct bundle URL to download, the async process ID (if any) and timings.
 	 */
 	private fetchTranslationBundleURL(
 		downloadFileParams: DownloadFileParams,
-		processParams: Required<ProcessDownloadFileParams>,
-	): Promise<string> {
+		processParams: ResolvedProcessParams,
+	): Promise<TranslationBundleInfo> {
 		return processParams.asyncDownload
 			? this.fetchBundleURLAsync(downloadFileParams, processParams)
 			: this.fetchBundleURLSync(downloadFileParams);
@@ -614,42 +3228,69 @@ export class LokaliseDownload extends LokaliseFileExchange {
 	 *
 	 * @param downloadFileParams - Parameters for Lokalise API async file download.
 	 * @param processParams - Effective process parameters controlling polling behavior.
-	 * @returns Direct URL to the generated ZIP bundle.
+	 * @returns Direct URL to the generated ZIP bundle, the process ID and timings.
 	 * @throws {LokaliseError} If the process fails, is cancelled, or does not finalize properly.
 	 */
 	protected async fetchBundleURLAsync(
 		downloadFileParams: DownloadFileParams,
-		processParams: Required<ProcessDownloadFileParams>,
-	): Promise<string> {
+		processParams: ResolvedProcessParams,
+	): Promise<TranslationBundleInfo> {
 		this.logMsg("debug", "Async download mode enabled.");
 
+		const queueStartedAt = Date.now();
 		const downloadProcess =
 			await this.getTranslationsBundleAsync(downloadFileParams);
+		const queueTime = Date.now() - queueStartedAt;
 
 		const { pollInitialWaitTime, pollMaximumWaitTime } = processParams;
 
+		const pollStartedAt = Date.now();
 		const completedProcess = await this.pollAsyncDownload(
 			downloadProcess,
 			pollInitialWaitTime,
 			pollMaximumWaitTime,
 		);
+		const pollTime = Date.now() - pollStartedAt;
 
-		this.logMsg(
-			"debug",
-			`Download process status is ${completedProcess.status}`,
-		);
+		return this.resolveAsyncBundleInfo(completedProcess, pollMaximumWaitTime, {
+			queue: queueTime,
+			poll: pollTime,
+		});
+	}
 
-		if (completedProcess.status === "finished") {
-			return this.handleFinishedAsyncProcess(completedProcess);
+	/**
+	 * Turns a polled async download process into bundle information.
+	 *
+	 * Handles finished, failed/cancelled, and unexpected statuses separately.
+	 *
+	 * @param finalProcess - The process state after polling.
+	 * @param maxWait - Effective maximum wait time used during polling.
+	 * @param timings - Durations of the queue and poll phases.
+	 * @returns Direct URL to the generated ZIP bundle, the process ID and timings.
+	 * @throws {LokaliseError} If the process fails, is cancelled, or does not finalize properly.
+	 */
+	private resolveAsyncBundleInfo(
+		finalProcess: QueuedProcess,
+		maxWait: number,
+		timings: TranslationBundleInfo["timings"],
+	): TranslationBundleInfo {
+		this.logMsg("debug", `Download process status is ${finalProcess.status}`);
+
+		if (finalProcess.status === "finished") {
+			return {
+				bundleUrl: this.handleFinishedAsyncProcess(finalProcess),
+				processId: finalProcess.process_id,
+				timings,
+			};
 		}
 
 		if (
-			completedProcess.status === "failed" ||
-			completedProcess.status === "cancelled"
+			finalProcess.status === "failed" ||
+			finalProcess.status === "cancelled"
 		) {
-			this.handleFailedAsyncProcess(completedProcess);
+			this.handleFailedAsyncProcess(finalProcess);
 		}
 
-		this.handleUnexpectedAsyncProcess(completedProcess, pollMaximumWaitTime);
+		this.handleUnexpectedAsyncProcess(finalProcess, maxWait);
 	}
 }
@@ -1,21 +1,81 @@
 import fs from "node:fs";
 import path from "node:path";
 import type { QueuedProcess, UploadFileParams } from "@lokalise/node-api";
+import { LokaliseError } from "../errors/LokaliseError.js";
+import {
+	type IgnoreRule,
+	isIgnored,
+	parseIgnoreFile,
+} from "../ignore/ignoreRules.js";
 import type {
 	CollectFileParams,
 	FileUploadError,
+	LanguagePreflightMode,
 	PartialUploadFileParams,
+	PlannedUpload,
 	ProcessedFile,
 	ProcessUploadFileParams,
 	QueuedUploadProcessesWithErrors,
+	UnknownLanguage,
+	UploadPlan,
+	UploadPlanProblem,
 	UploadTranslationParams,
 } from "../interfaces/index.js";
+import {
+	inferLanguageFromFilename,
+	inferLanguageFromPath,
+	isLanguageStrategy,
+} from "../languages/languageStrategies.js";
 import { LokaliseFileExchange } from "./LokaliseFileExchange.js";
 
+/**
+ * A directory waiting to be read during file collection.
+ */
+interface QueuedDir {
+	dir: string;
+	root: string;
+	ignoreRules: IgnoreRule[];
+}
+
+/**
+ * An include or exclude glob of `CollectFileParams`, prepared for matching.
+ */
+interface GlobRule {
+	pattern: string;
+	negated: boolean;
+	expansions: string[];
+}
+
+/**
+ * Filters applied to every entry during file collection.
+ */
+interface CollectionFilters {
+	exts: string[];
+	nameRx: RegExp;
+	excludeRx: RegExp[];
+	include: GlobRule[];
+	exclude: GlobRule[];
+	ignoreFiles: string[];
+	recursive: boolean;
+}
+
 /**
  * Handles uploading translation files to Lokalise.
  */
 export class LokaliseUpload extends LokaliseFileExchange {
+	/**
+	 * Ignore files honored when `CollectFileParams.ignoreFiles` is `true`, in the order they are applied.
+	 */
+	static readonly DEFAULT_IGNORE_FILES: readonly string[] = [
+		".gitignore",
+		".lokaliseignore",
+	];
+
+	private static readonly LANGUAGE_PREFLIGHT_MODES: readonly LanguagePreflightMode[] =
+		["error", "skip"];
+
+	private static readonly languagesPageLimit = 500;
+
 	private static readonly defaultPollingParams = {
 		pollStatuses: false,
 		pollInitialWaitTime: 1000,
@@ -25,6 +85,9 @@ export class LokaliseUpload extends LokaliseFileExchange {
 	/**
 	 * Collects files, uploads them to Lokalise, and optionally polls for process completion, returning both processes and errors.
 	 *
+	 * In dry-run mode files are collected and processed, but nothing is uploaded: the result contains
+	 * an upload plan instead of processes.
+	 *
 	 * @param {UploadTranslationParams} uploadTranslationParams - Parameters for collecting and uploading files.
 	 * @returns {Promise<{ processes: QueuedProcess[]; errors: FileUploadError[] }>} A promise resolving with successful processes and upload errors.
 	 */
@@ -32,9 +95,12 @@ export class LokaliseUpload extends LokaliseFileExchange {
 		uploadFileParams,
 		collectFileParams,
 		processUploadFileParams,
+		dryRun = false,
 	}: UploadTranslationParams = {}): Promise<QueuedUploadProcessesWithErrors> {
 		this.logMsg("debug", "Uploading translations to Lokalise...");
 
+		this.validateProcessParams(processUploadFileParams);
+
 		const { pollStatuses, pollInitialWaitTime, pollMaximumWaitTime } = {
 			...LokaliseUpload.defaultPollingParams,
 			...processUploadFileParams,
@@ -44,12 +110,62 @@ export class LokaliseUpload extends LokaliseFileExchange {
 		const collectedFiles = await this.collectFiles(collectFileParams);
 		this.logMsg("debug", "Collected files:", collectedFiles);
 
+		const projectLanguages = this.needsProjectLanguages(processUploadFileParams)
+			? await this.fetchProjectLanguages()
+			: undefined;
+
+		if (dryRun) {
+			this.logMsg("debug", "Dry run: planning uploads...");
+
+			const { plan, errors } = await this.planUpload(
+				collectedFiles,
+				uploadFileParams,
+				processUploadFileParams,
+				projectLanguages,
+			);
+
+			for (const problem of plan.problems) {
+				this.logMsg("warn", problem.message);
+			}
+			this.logMsg(
+				"info",
+				`Dry run: ${plan.files.length} file(s) would be uploaded.`,
+			);
+
+			return { processes: [], errors, plan };
+		}
+
+		let filesToUpload = collectedFiles;
+		let processedFiles: Map<string, ProcessedFile> | undefined;
+		let unknownLanguages: UnknownLanguage[] | undefined;
+		const preflightErrors: FileUploadError[] = [];
+
+		if (processUploadFileParams?.languagePreflight && projectLanguages) {
+			this.logMsg("debug", "Checking languages against the project...");
+
+			const preflight = await this.runLanguagePreflight(
+				collectedFiles,
+				processUploadFileParams,
+				projectLanguages,
+			);
+			processedFiles = preflight.processed;
+			unknownLanguages = preflight.unknownLanguages;
+			preflightErrors.push(...preflight.errors);
+			filesToUpload = collectedFiles.filter((file) =>
+				processedFiles?.has(file),
+			);
+		}
+
 		this.logMsg("debug", "Performing parallel upload...");
-		const { processes, errors } = await this.parallelUpload(
-			collectedFiles,
+		const uploaded = await this.parallelUpload(
+			filesToUpload,
 			uploadFileParams,
 			processUploadFileParams,
+			processedFiles,
+			projectLanguages,
 		);
+		const processes = uploaded.processes;
+		const errors = [...preflightErrors, ...uploaded.errors];
 
 		let completedProcesses = processes;
 		this.logMsg(
@@ -72,7 +188,11 @@ export class LokaliseUpload extends LokaliseFileExchange {
 
 		this.logMsg("debug", "Upload successful!");
 
-		return { processes: completedProcesses, errors };
+		return {
+			processes: completedProcesses,
+			errors,
+			...(unknownLanguages ? { unknownLanguages } : {}),
+		};
 	}
 
 	/**
@@ -87,19 +207,21 @@ export class LokaliseUpload extends LokaliseFileExchange {
 		excludePatterns = [],
 		recursive = true,
 		fileNamePattern = ".*",
+		include,
+		exclude,
+		ignoreFiles = false,
 	}: CollectFileParams = {}): Promise<string[]> {
 		const queue = this.makeQueue(inputDirs);
-		const normalizedExtensions = this.normalizeExtensions(extensions);
-		const fileNameRegex = this.makeFilenameRegexp(fileNamePattern);
-		const excludeRegexes = this.makeExcludeRegExes(excludePatterns);
-
-		const files = await this.processCollectionQueue(
-			queue,
-			normalizedExtensions,
-			fileNameRegex,
-			excludeRegexes,
+
+		const files = await this.processCollectionQueue(queue, {
+			exts: this.normalizeExtensions(extensions),
+			nameRx: this.makeFilenameRegexp(fileNamePattern),
+			excludeRx: this.makeExcludeRegExes(excludePatterns),
+			include: this.makeGlobRules(include),
+			exclude: this.makeGlobRules(exclude),
+			ignoreFiles: this.resolveIgnoreFiles(ignoreFiles),
 			recursive,
-		);
+		});
 
 		return files.sort();
 	}
@@ -120,16 +242,19 @@ export class LokaliseUpload extends LokaliseFileExchange {
 
 	/**
 	 * Processes a file to prepare it for upload, converting it to base64 and extracting its language code.
+	 * The inferred language code is then translated with `languageMapping`, if any.
 	 *
 	 * @param file - The absolute path to the file.
 	 * @param projectRoot - The root directory of the project.
 	 * @param processParams - Optional processing settings including inferers.
+	 * @param projectLanguages - Optional language codes of the project, checked by the `suffix` strategy.
 	 * @returns A promise resolving with the processed file details, including base64 content, relative path, and language code.
 	 */
 	protected async processFile(
 		file: string,
 		projectRoot: string,
 		processParams?: ProcessUploadFileParams,
+		projectLanguages?: string[],
 	): Promise<ProcessedFile> {
 		const relativePath = await this.inferRelativePath(
 			file,
@@ -140,15 +265,22 @@ export class LokaliseUpload extends LokaliseFileExchange {
 		const languageCode = await this.inferLanguageCode(
 			file,
 			relativePath,
+			projectRoot,
 			processParams,
+			projectLanguages,
 		);
 
 		const base64Content = await this.readFileAsBase64(file);
 
+		const mapping = processParams?.languageMapping;
+
 		return {
 			data: base64Content,
 			filename: relativePath,
-			lang_iso: languageCode,
+			lang_iso:
+				mapping && Object.hasOwn(mapping, languageCode)
+					? (mapping[languageCode] as string)
+					: languageCode,
 		};
 	}
 
@@ -191,19 +323,26 @@ export class LokaliseUpload extends LokaliseFileExchange {
 	 * Infers the language code for an uploaded file.
 	 *
 	 * Tries a custom `languageInferer` first; if it fails or returns empty/whitespace,
-	 * falls back to extracting the language code from the filename before the last extension.
+	 * applies the `languageStrategy` to the file path relative to the project root.
+	 * If there is no strategy or it doesn't match, falls back to extracting the
+	 * language code from the filename before the last extension. A `suffix`
+	 * that is neither a project language nor mapped to one doesn't match.
 	 *
 	 * Example: "en.default.json" → "default"
 	 *
 	 * @param file - Absolute path to the source file.
 	 * @param relativePath - Effective relative path of the file (used for fallback parsing).
-	 * @param processParams - Optional processing settings including language inferer.
+	 * @param projectRoot - Root directory of the project.
+	 * @param processParams - Optional processing settings including language inferer and strategy.
+	 * @param projectLanguages - Optional language codes of the project.
 	 * @returns A promise resolving with the inferred language code.
 	 */
 	private async inferLanguageCode(
 		file: string,
 		relativePath: string,
+		projectRoot: string,
 		processParams?: ProcessUploadFileParams,
+		projectLanguages?: string[],
 	): Promise<string> {
 		try {
 			const fromInferer = processParams?.languageInferer
@@ -216,10 +355,73 @@ export class LokaliseUpload extends LokaliseFileExchange {
 
 			return fromInferer;
 		} catch {
+			const strategy = processParams?.languageStrategy;
+			if (strategy) {
+				const sourcePath = path.posix.relative(
+					this.toPosixPath(projectRoot),
+					this.toPosixPath(file),
+				);
+				const fromStrategy = inferLanguageFromPath(
+					sourcePath,
+					strategy,
+					projectLanguages &&
+						this.buildKnownLanguages(
+							projectLanguages,
+							processParams?.languageMapping,
+						),
+				);
+				if (fromStrategy) {
+					return fromStrategy;
+				}
+
+				this.logMsg(
+					"warn",
+					`Language strategy ${String(strategy)} did not match ${sourcePath}, falling back to the filename.`,
+				);
+			}
+
 			// Fallback: derive language code from the basename of the relative path
-			const baseName = path.basename(relativePath);
-			return baseName.split(".").slice(-2, -1)[0] ?? "unknown";
+			return inferLanguageFromFilename(path.basename(relativePath));
+		}
+	}
+
+	/**
+	 * Collects the codes accepted as project languages: the project's own codes
+	 * and the codes that `languageMapping` translates into one of them.
+	 *
+	 * @param projectLanguages - ISO codes of the project languages.
+	 * @param languageMapping - Optional mapping of inferred codes to project codes.
+	 * @returns The accepted codes.
+	 */
+	private buildKnownLanguages(
+		projectLanguages: string[],
+		languageMapping: Record<string, string> = {},
+	): Set<string> {
+		const known = new Set(projectLanguages);
+
+		for (const [code, target] of Object.entries(languageMapping)) {
+			if (known.has(target)) {
+				known.add(code);
+			}
 		}
+
+		return known;
+	}
+
+	/**
+	 * Checks whether the upload needs the project languages: for the language
+	 * preflight, or to recognize codes found by the `suffix` strategy.
+	 *
+	 * @param processParams - Optional processing settings.
+	 * @returns `true` if the project languages should be fetched.
+	 */
+	private needsProjectLanguages(
+		processParams?: ProcessUploadFileParams,
+	): boolean {
+		return (
+			Boolean(processParams?.languagePreflight) ||
+			processParams?.languageStrategy === "suffix"
+		);
 	}
 
 	/**
@@ -239,12 +441,16 @@ export class LokaliseUpload extends LokaliseFileExchange {
 	 * @param {string[]} files - List of file paths to upload.
 	 * @param {Partial<UploadFileParams>} baseUploadFileParams - Base parameters for uploads.
 	 * @param {ProcessUploadFileParams} [processParams] - Optional processing settings including inferers.
+	 * @param {Map<string, ProcessedFile>} [processedFiles] - Files already processed during the language preflight.
+	 * @param {string[]} [projectLanguages] - Language codes of the project, if fetched.
 	 * @returns {Promise<{ processes: QueuedProcess[]; errors: FileUploadError[] }>} A promise resolving with successful processes and upload errors.
 	 */
 	private async parallelUpload(
 		files: string[],
 		baseUploadFileParams: PartialUploadFileParams = {},
 		processParams?: ProcessUploadFileParams,
+		processedFiles?: Map<string, ProcessedFile>,
+		projectLanguages?: string[],
 	): Promise<QueuedUploadProcessesWithErrors> {
 		const projectRoot = process.cwd();
 		const queuedProcesses: QueuedProcess[] = [];
@@ -255,11 +461,14 @@ export class LokaliseUpload extends LokaliseFileExchange {
 			LokaliseUpload.maxConcurrentProcesses,
 			async (file) => {
 				try {
-					const processedFileParams = await this.processFile(
-						file,
-						projectRoot,
-						processParams,
-					);
+					const processedFileParams =
+						processedFiles?.get(file) ??
+						(await this.processFile(
+							file,
+							projectRoot,
+							processParams,
+							projectLanguages,
+						));
 					const queued = await this.uploadSingleFile({
 						...baseUploadFileParams,
 						...processedFileParams,
@@ -274,6 +483,275 @@ export class LokaliseUpload extends LokaliseFileExchange {
 		return { processes: queuedProcesses, errors };
 	}
 
+	/**
+	 * Processes files like an upload would, without uploading them.
+	 *
+	 * @param files - List of file paths to plan.
+	 * @param baseUploadFileParams - Base parameters for uploads.
+	 * @param processParams - Optional processing settings including inferers.
+	 * @param projectLanguages - Language codes of the project, if fetched.
+	 * @returns The upload plan and the files that could not be processed.
+	 */
+	private async planUpload(
+		files: string[],
+		baseUploadFileParams: PartialUploadFileParams = {},
+		processParams?: ProcessUploadFileParams,
+		projectLanguages?: string[],
+	): Promise<{ plan: UploadPlan; errors: FileUploadError[] }> {
+		const { processed, errors } = await this.processFiles(
+			files,
+			processParams,
+			projectLanguages,
+		);
+
+		const plannedFiles = files.flatMap((file): PlannedUpload[] => {
+			const processedFile = processed.get(file);
+			if (!processedFile) {
+				return [];
+			}
+
+			const { data, filename, lang_iso } = processedFile;
+			return [
+				{
+					file,
+					filename,
+					language: lang_iso,
+					size: Buffer.byteLength(data, "base64"),
+					uploadFileParams: { ...baseUploadFileParams, filename, lang_iso },
+				},
+			];
+		});
+
+		const problems = this.findPlanProblems(plannedFiles);
+		if (processParams?.languagePreflight && projectLanguages) {
+			const unknownLanguages = this.findUnknownLanguages(
+				files,
+				processed,
+				projectLanguages,
+			);
+
+			for (const { language, files: affected } of unknownLanguages) {
+				problems.push({
+					reason: "unknown language",
+					message: `Language ${language} is not in the project: ${affected.join(", ")}`,
+					files: affected,
+				});
+			}
+		}
+
+		return { plan: { files: plannedFiles, problems }, errors };
+	}
+
+	/**
+	 * Processes files without uploading them.
+	 *
+	 * @param files - List of file paths to process.
+	 * @param processParams - Optional processing settings including inferers.
+	 * @param projectLanguages - Language codes of the project, if fetched.
+	 * @returns Processed files by path, and the files that could not be processed.
+	 */
+	private async processFiles(
+		files: string[],
+		processParams?: ProcessUploadFileParams,
+		projectLanguages?: string[],
+	): Promise<{
+		processed: Map<string, ProcessedFile>;
+		errors: FileUploadError[];
+	}> {
+		const projectRoot = process.cwd();
+		const processed = new Map<string, ProcessedFile>();
+		const errors: FileUploadError[] = [];
+
+		await this.runWithConcurrencyLimit(
+			files,
+			LokaliseUpload.maxConcurrentProcesses,
+			async (file) => {
+				try {
+					processed.set(
+						file,
+						await this.processFile(
+							file,
+							projectRoot,
+							processParams,
+							projectLanguages,
+						),
+					);
+				} catch (error) {
+					errors.push({ file, error });
+				}
+			},
+		);
+
+		return { processed, errors };
+	}
+
+	/**
+	 * Processes all files and checks their language codes against the project before uploading.
+	 *
+	 * Depending on `languagePreflight`, files with unknown codes either abort the whole
+	 * upload or are skipped.
+	 *
+	 * @param files - List of file paths to upload.
+	 * @param processParams - Processing settings including the preflight mode.
+	 * @param projectLanguages - ISO codes of the project languages.
+	 * @returns Processed files to upload, the files that could not be processed, and the unknown languages.
+	 * @throws {LokaliseError} If unknown languages are found in `"error"` mode.
+	 */
+	private async runLanguagePreflight(
+		files: string[],
+		processParams: ProcessUploadFileParams,
+		projectLanguages: string[],
+	): Promise<{
+		processed: Map<string, ProcessedFile>;
+		errors: FileUploadError[];
+		unknownLanguages: UnknownLanguage[];
+	}> {
+		const { processed, errors } = await this.processFiles(
+			files,
+			processParams,
+			projectLanguages,
+		);
+		const unknownLanguages = this.findUnknownLanguages(
+			files,
+			processed,
+			projectLanguages,
+		);
+
+		if (
+			unknownLanguages.length &&
+			processParams.languagePreflight === "error"
+		) {
+			const summary = unknownLanguages
+				.map(
+					({ language, files: affected }) =>
+						`${language || "(empty)"} (${affected.join(", ")})`,
+				)
+				.join("; ");
+
+			throw new LokaliseError(
+				`Languages not found in the project: ${summary}`,
+				422,
+				{
+					reason: "unknown languages",
+					languages: unknownLanguages.map(({ language }) => language).join(","),
+					files: unknownLanguages.reduce(
+						(total, { files: affected }) => total + affected.length,
+						0,
+					),
+				},
+			);
+		}
+
+		for (const { language, files: affected } of unknownLanguages) {
+			this.logMsg(
+				"warn",
+				`Skipping ${affected.length} file(s) with language ${language || "(empty)"} not found in the project: ${affected.join(", ")}`,
+			);
+			for (const file of affected) {
+				processed.delete(file);
+			}
+		}
+
+		return { processed, errors, unknownLanguages };
+	}
+
+	/**
+	 * Groups processed files whose language code is missing from the project.
+	 *
+	 * @param files - File paths in upload order.
+	 * @param processed - Processed files by path.
+	 * @param projectLanguages - ISO codes of the project languages.
+	 * @returns Unknown languages in order of first appearance, with their files.
+	 */
+	private findUnknownLanguages(
+		files: string[],
+		processed: Map<string, ProcessedFile>,
+		projectLanguages: string[],
+	): UnknownLanguage[] {
+		const known = new Set(projectLanguages);
+		const unknown = new Map<string, string[]>();
+
+		for (const file of files) {
+			const language = processed.get(file)?.lang_iso;
+			if (language === undefined || known.has(language)) {
+				continue;
+			}
+			unknown.set(language, [...(unknown.get(language) ?? []), file]);
+		}
+
+		return [...unknown].map(([language, affected]) => ({
+			language,
+			files: affected,
+		}));
+	}
+
+	/**
+	 * Fetches the ISO codes of all project languages.
+	 *
+	 * @returns A promise resolving with the language ISO codes.
+	 */
+	protected async fetchProjectLanguages(): Promise<string[]> {
+		const codes: string[] = [];
+		let page = 1;
+		let hasNextPage = true;
+
+		while (hasNextPage) {
+			const result = await this.withExponentialBackoff(() =>
+				this.apiClient.languages().list({
+					project_id: this.projectId,
+					page,
+					limit: LokaliseUpload.languagesPageLimit,
+				}),
+			);
+
+			codes.push(...result.items.map((language) => language.lang_iso));
+			hasNextPage = result.hasNextPage();
+			page++;
+		}
+
+		return codes;
+	}
+
+	/**
+	 * Finds planned uploads that Lokalise would reject or that would overwrite each other.
+	 *
+	 * @param files - The planned uploads.
+	 * @returns Files with an empty language code, then groups of files sharing a filename and language.
+	 */
+	private findPlanProblems(files: PlannedUpload[]): UploadPlanProblem[] {
+		const problems: UploadPlanProblem[] = [];
+		const pairs = new Map<string, PlannedUpload[]>();
+
+		for (const item of files) {
+			if (!item.language.trim()) {
+				problems.push({
+					reason: "empty language",
+					message: `Empty language code inferred for ${item.file}`,
+					files: [item.file],
+				});
+				continue;
+			}
+
+			const key = JSON.stringify([item.filename, item.language]);
+			pairs.set(key, [...(pairs.get(key) ?? []), item]);
+		}
+
+		for (const [first, ...rest] of pairs.values()) {
+			if (!first || !rest.length) {
+				continue;
+			}
+
+			const group = [first, ...rest].map((item) => item.file);
+			problems.push({
+				reason: "duplicate",
+				message: `Duplicate filename/language pair ${first.filename} (${first.language}): ${group.join(", ")}`,
+				files: group,
+			});
+		}
+
+		return problems;
+	}
+
 	/**
 	 * Normalizes an array of file extensions by ensuring each starts with a dot and is lowercase.
 	 *
@@ -342,6 +820,303 @@ export class LokaliseUpload extends LokaliseFileExchange {
 		}
 	}
 
+	/**
+	 * Prepares include or exclude globs for matching.
+	 *
+	 * Empty patterns are ignored, a leading `!` negates a pattern, and a
+	 * leading `./` or `/` is removed since patterns are always relative to
+	 * the input directory.
+	 *
+	 * @param patterns - Glob or globs from `CollectFileParams`.
+	 * @returns The prepared rules in their original order.
+	 * @throws {Error} If a pattern is not a string.
+	 */
+	private makeGlobRules(patterns?: string | string[]): GlobRule[] {
+		if (patterns === undefined) {
+			return [];
+		}
+
+		return (Array.isArray(patterns) ? patterns : [patterns])
+			.filter((raw) => {
+				if (typeof raw !== "string") {
+					throw new Error(`Invalid glob pattern: ${String(raw)}`);
+				}
+				return raw.trim() !== "";
+			})
+			.map((raw) => {
+				const negated = raw.startsWith("!");
+				const pattern = (negated ? raw.slice(1) : raw).replace(
+					/^(?:\.?\/)+/,
+					"",
+				);
+
+				return {
+					pattern,
+					negated,
+					expansions: LokaliseUpload.expandBraces(pattern),
+				};
+			});
+	}
+
+	/**
+	 * Checks a file against the include and exclude globs.
+	 *
+	 * Within each list the last matching pattern wins, so a negated pattern
+	 * can carve exceptions out of an earlier one. Without positive include
+	 * patterns every file is included.
+	 *
+	 * @param relativePath - POSIX path of the file relative to its input directory.
+	 * @param include - Include rules.
+	 * @param exclude - Exclude rules.
+	 * @returns `true` if the file should be collected.
+	 */
+	private matchesGlobRules(
+		relativePath: string,
+		include: GlobRule[],
+		exclude: GlobRule[],
+	): boolean {
+		const decide = (rules: GlobRule[], initial: boolean) =>
+			rules.reduce(
+				(decision, rule) =>
+					path.posix.matchesGlob(relativePath, rule.pattern)
+						? !rule.negated
+						: decision,
+				initial,
+			);
+
+		return (
+			decide(include, !include.some((rule) => !rule.negated)) &&
+			!decide(exclude, false)
+		);
+	}
+
+	/**
+	 * Checks whether a directory can contain files that pass the include and exclude globs.
+	 *
+	 * Used to prune the traversal: a directory is skipped when no positive
+	 * include pattern can match below it, or when an exclude pattern ending
+	 * in `/**` covers it and no later negated exclude pattern can match below it.
+	 *
+	 * @param relativePath - POSIX path of the directory relative to its input directory.
+	 * @param include - Include rules.
+	 * @param exclude - Exclude rules.
+	 * @returns `false` if nothing below the directory can be collected.
+	 */
+	private canContainMatches(
+		relativePath: string,
+		include: GlobRule[],
+		exclude: GlobRule[],
+	): boolean {
+		const segments = relativePath.split("/");
+		const matchesBelow = (rule: GlobRule) =>
+			rule.expansions.some((expansion) =>
+				LokaliseUpload.couldMatchBelow(segments, expansion.split("/")),
+			);
+
+		const positiveIncludes = include.filter((rule) => !rule.negated);
+		if (positiveIncludes.length && !positiveIncludes.some(matchesBelow)) {
+			return false;
+		}
+
+		const coveringIndex = exclude.findLastIndex(
+			(rule) =>
+				!rule.negated &&
+				rule.expansions.some(
+					(expansion) =>
+						expansion.endsWith("/**") &&
+						path.posix.matchesGlob(relativePath, expansion.slice(0, -3)),
+				),
+		);
+
+		return (
+			coveringIndex === -1 ||
+			exclude
+				.slice(coveringIndex + 1)
+				.some((rule) => rule.negated && matchesBelow(rule))
+		);
+	}
+
+	/**
+	 * Checks whether a path below a directory could match a glob.
+	 *
+	 * @param dir - Segments of the directory path.
+	 * @param pattern - Segments of the glob, without braces.
+	 * @param i - Current directory segment.
+	 * @param j - Current pattern segment.
+	 * @returns `true` if some path starting with the directory may match the glob.
+	 */
+	private static couldMatchBelow(
+		dir: string[],
+		pattern: string[],
+		i = 0,
+		j = 0,
+	): boolean {
+		if (i === dir.length) {
+			return j < pattern.length;
+		}
+		if (j === pattern.length) {
+			return false;
+		}
+		if (pattern[j] === "**") {
+			return (
+				LokaliseUpload.couldMatchBelow(dir, pattern, i, j + 1) ||
+				LokaliseUpload.couldMatchBelow(dir, pattern, i + 1, j)
+			);
+		}
+
+		return (
+			path.posix.matchesGlob(dir[i] as string, pattern[j] as string) &&
+			LokaliseUpload.couldMatchBelow(dir, pattern, i + 1, j + 1)
+		);
+	}
+
+	/**
+	 * Expands brace alternatives in a glob, for example `{a,b}/*.json` into `a/*.json` and `b/*.json`.
+	 *
+	 * @param pattern - The glob to expand.
+	 * @returns Every expansion; the pattern itself if it has no alternatives.
+	 */
+	private static expandBraces(pattern: string): string[] {
+		let depth = 0;
+		let start = -1;
+		const commas: number[] = [];
+
+		for (let i = 0; i < pattern.length; i++) {
+			const char = pattern[i];
+			if (char === "\\") {
+				i++;
+			} else if (char === "{") {
+				if (depth++ === 0) {
+					start = i;
+					commas.length = 0;
+				}
+			} else if (char === "," && depth === 1) {
+				commas.push(i);
+			} else if (char === "}" && depth > 0 && --depth === 0) {
+				if (!commas.length) {
+					continue;
+				}
+
+				const bounds = [start, ...commas, i];
+				const prefix = pattern.slice(0, start);
+				const suffix = pattern.slice(i + 1);
+
+				return bounds
+					.slice(0, -1)
+					.flatMap((bound, index) =>
+						LokaliseUpload.expandBraces(
+							`${prefix}${pattern.slice(bound + 1, bounds[index + 1])}${suffix}`,
+						),
+					);
+			}
+		}
+
+		return [pattern];
+	}
+
+	/**
+	 * Validates the language settings of `ProcessUploadFileParams`.
+	 *
+	 * @param processParams - Processing settings to validate.
+	 * @throws {Error} If the strategy, mapping, or preflight mode is invalid.
+	 */
+	private validateProcessParams(processParams?: ProcessUploadFileParams): void {
+		const { languageStrategy, languageMapping, languagePreflight } =
+			processParams ?? {};
+
+		if (
+			languageStrategy !== undefined &&
+			!isLanguageStrategy(languageStrategy)
+		) {
+			throw new Error(`Unknown language strategy: ${String(languageStrategy)}`);
+		}
+
+		if (
+			languageMapping !== undefined &&
+			(typeof languageMapping !== "object" ||
+				languageMapping === null ||
+				Object.values(languageMapping).some(
+					(code) => typeof code !== "string" || !code.trim(),
+				))
+		) {
+			throw new Error(
+				"languageMapping must map language codes to non-empty strings.",
+			);
+		}
+
+		if (
+			languagePreflight !== undefined &&
+			!LokaliseUpload.LANGUAGE_PREFLIGHT_MODES.includes(languagePreflight)
+		) {
+			throw new Error(
+				`Unknown language preflight mode: ${String(languagePreflight)}`,
+			);
+		}
+	}
+
+	/**
+	 * Resolves the names of the ignore files to honor during collection.
+	 *
+	 * @param ignoreFiles - `true` for the defaults, `false` to disable, or custom file names.
+	 * @returns The file names; empty when ignore files are disabled.
+	 * @throws {Error} If a name is empty or contains a path separator.
+	 */
+	private resolveIgnoreFiles(ignoreFiles: boolean | string[]): string[] {
+		if (typeof ignoreFiles === "boolean") {
+			return ignoreFiles ? [...LokaliseUpload.DEFAULT_IGNORE_FILES] : [];
+		}
+
+		for (const name of ignoreFiles) {
+			if (
+				typeof name !== "string" ||
+				!name.trim() ||
+				/[\\/]/.test(name) ||
+				name === "." ||
+				name === ".."
+			) {
+				throw new Error(`Invalid ignore file name: ${String(name)}`);
+			}
+		}
+
+		return ignoreFiles;
+	}
+
+	/**
+	 * Reads the ignore files of a directory and appends their rules to the inherited ones.
+	 *
+	 * Unreadable ignore files are skipped with a warning.
+	 *
+	 * @param dir - The directory being collected.
+	 * @param entries - Entries of the directory.
+	 * @param ignoreFiles - Names of the ignore files to honor.
+	 * @param inherited - Rules of the ignore files in parent directories.
+	 * @returns The rules applying to the entries of the directory.
+	 */
+	private async loadIgnoreRules(
+		dir: string,
+		entries: fs.Dirent[],
+		ignoreFiles: string[],
+		inherited: IgnoreRule[],
+	): Promise<IgnoreRule[]> {
+		let rules = inherited;
+
+		for (const name of ignoreFiles) {
+			if (!entries.some((entry) => entry.isFile() && entry.name === name)) {
+				continue;
+			}
+
+			const ignoreFile = path.join(dir, name);
+			try {
+				const content = await fs.promises.readFile(ignoreFile, "utf8");
+				rules = rules.concat(parseIgnoreFile(content, dir));
+			} catch {
+				this.logMsg("warn", `Skipping unreadable ignore file: ${ignoreFile}`);
+			}
+		}
+
+		return rules;
+	}
+
 	/**
 	 * Safely reads the contents of a directory, returning an empty array if access fails.
 	 *
@@ -375,57 +1150,61 @@ export class LokaliseUpload extends LokaliseFileExchange {
 	 * Creates a queue of absolute paths from the provided input directories.
 	 *
 	 * @param inputDirs - An array of input directory paths (relative or absolute).
-	 * @returns An array of resolved absolute directory paths.
+	 * @returns Resolved absolute directory paths, each being its own glob root.
 	 */
-	private makeQueue(inputDirs: string[]): string[] {
-		return [...inputDirs.map((dir) => path.resolve(dir))];
+	private makeQueue(inputDirs: string[]): QueuedDir[] {
+		return inputDirs.map((dir) => {
+			const resolved = path.resolve(dir);
+			return { dir: resolved, root: resolved, ignoreRules: [] };
+		});
 	}
 
 	/**
 	 * Processes a queue of directories to collect files matching given criteria.
 	 *
 	 * Recursively reads directories (if enabled), filters files by extension,
-	 * filename pattern, and exclusion rules, and collects matching file paths.
+	 * filename pattern, globs, ignore files, and exclusion rules, and collects matching
+	 * file paths. Ignored directories and directories that cannot contain files matching
+	 * the globs are not read.
 	 *
 	 * @param queue - The list of directories to process.
-	 * @param exts - Allowed file extensions (normalized).
-	 * @param nameRx - Regular expression to match valid filenames.
-	 * @param excludeRx - Array of exclusion patterns.
-	 * @param recursive - Whether to traverse subdirectories.
+	 * @param filters - Extensions, filename pattern, globs, ignore files, exclusions, and recursion flag.
 	 * @returns A promise that resolves to an array of matched file paths.
 	 */
 	private async processCollectionQueue(
-		queue: string[],
-		exts: string[],
-		nameRx: RegExp,
-		excludeRx: RegExp[],
-		recursive: boolean,
+		queue: QueuedDir[],
+		filters: CollectionFilters,
 	): Promise<string[]> {
 		const found: string[] = [];
 
 		while (queue.length) {
-			const dir = queue.shift();
+			const item = queue.shift();
 
 			// Realistically, this should never happen:
 			/* v8 ignore start */
-			if (!dir) {
+			if (!item?.dir) {
 				this.logMsg(
 					"debug",
-					`collectFiles: received falsy dir entry (${String(dir)}). This is unexpected and might indicate a bug.`,
+					`collectFiles: received falsy dir entry (${String(item?.dir)}). This is unexpected and might indicate a bug.`,
 				);
 				continue;
 			}
 			/* v8 ignore stop */
 
-			const entries = await this.safeReadDir(dir);
+			const entries = await this.safeReadDir(item.dir);
+			const parent = {
+				...item,
+				ignoreRules: await this.loadIgnoreRules(
+					item.dir,
+					entries,
+					filters.ignoreFiles,
+					item.ignoreRules,
+				),
+			};
+
 			for (const entry of entries) {
-				const fullPath = path.resolve(dir, entry.name);
-				this.handleEntry(entry, fullPath, queue, found, {
-					exts,
-					nameRx,
-					excludeRx,
-					recursive,
-				});
+				const fullPath = path.resolve(item.dir, entry.name);
+				this.handleEntry(entry, fullPath, parent, queue, found, filters);
 			}
 		}
 		return found;
@@ -434,41 +1213,49 @@ export class LokaliseUpload extends LokaliseFileExchange {
 	/**
 	 * Handles a single directory entry during file collection.
 	 *
-	 * Applies exclusion rules, optionally queues directories for recursion,
-	 * and collects files that match the specified extension and filename pattern.
+	 * Applies exclusion and ignore rules, optionally queues directories for recursion,
+	 * and collects files that match the specified extension, filename pattern, and globs.
+	 * The ignore files themselves are never collected.
 	 *
 	 * @param entry - The directory entry to handle.
 	 * @param fullPath - The absolute path to the entry.
+	 * @param parent - The directory containing the entry, with its glob root and ignore rules.
 	 * @param queue - The processing queue for directories.
 	 * @param found - The list to store matched file paths.
-	 * @param opts - Options including extensions, name pattern, exclusions, and recursion flag.
+	 * @param opts - Options including extensions, name pattern, globs, ignore files, exclusions, and recursion flag.
 	 */
 	private handleEntry(
 		entry: fs.Dirent,
 		fullPath: string,
-		queue: string[],
+		parent: QueuedDir,
+		queue: QueuedDir[],
 		found: string[],
-		opts: {
-			exts: string[];
-			nameRx: RegExp;
-			excludeRx: RegExp[];
-			recursive: boolean;
-		},
+		opts: CollectionFilters,
 	): void {
-		if (this.shouldExclude(fullPath, opts.excludeRx)) {
+		if (
+			this.shouldExclude(fullPath, opts.excludeRx) ||
+			isIgnored(fullPath, entry.isDirectory(), parent.ignoreRules)
+		) {
 			return;
 		}
 
+		const relativePath = this.toPosixPath(path.relative(parent.root, fullPath));
+
 		if (entry.isDirectory()) {
-			if (opts.recursive) {
-				queue.push(fullPath);
+			if (
+				opts.recursive &&
+				this.canContainMatches(relativePath, opts.include, opts.exclude)
+			) {
+				queue.push({ ...parent, dir: fullPath });
 			}
 			return;
 		}
 
 		if (
 			entry.isFile() &&
-			this.shouldCollectFile(entry, opts.exts, opts.nameRx)
+			!opts.ignoreFiles.includes(entry.name) &&
+			this.shouldCollectFile(entry, opts.exts, opts.nameRx) &&
+			this.matchesGlobRules(relativePath, opts.include, opts.exclude)
 		) {
 			found.push(fullPath);
 		}
@@ -0,0 +1,81 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { pipeline } from "node:stream";
+import { promisify } from "node:util";
+import type { SyncState } from "../interfaces/SyncState.js";
+
+const streamPipeline = promisify(pipeline);
+
+/**
+ * Reads the sync state file written by a previous incremental extraction.
+ *
+ * @param stateFile - Absolute path to the sync state file.
+ * @returns The recorded state, `null` if the file is missing or unreadable, or `"invalid"` if its contents are not a valid state.
+ */
+export async function readSyncState(
+	stateFile: string,
+): Promise<SyncState | "invalid" | null> {
+	let raw: string;
+	try {
+		raw = await fs.promises.readFile(stateFile, "utf8");
+	} catch {
+		return null;
+	}
+
+	try {
+		const state = JSON.parse(raw) as SyncState;
+		if (
+			state?.version === 1 &&
+			typeof state.bundleHash === "string" &&
+			Array.isArray(state.files)
+		) {
+			return state;
+		}
+	} catch {
+		// fall through to the invalid result below
+	}
+
+	return "invalid";
+}
+
+/**
+ * Writes the sync state file, replacing the previous one atomically.
+ *
+ * @param stateFile - Absolute path to the sync state file.
+ * @param state - State to record.
+ * @param tempSuffix - Unique suffix of the temporary file written before the rename.
+ */
+export async function writeSyncState(
+	stateFile: string,
+	state: SyncState,
+	tempSuffix: string,
+): Promise<void> {
+	const tempFile = `${stateFile}.${tempSuffix}.tmp`;
+
+	await fs.promises.mkdir(path.dirname(stateFile), { recursive: true });
+	await fs.promises.writeFile(tempFile, `${JSON.stringify(state, null, 2)}\n`);
+	await fs.promises.rename(tempFile, stateFile);
+}
+
+/**
+ * Computes the SHA-256 hash of a file.
+ *
+ * @param filePath - Path to the file.
+ * @returns Hex-encoded hash.
+ */
+export async function hashFile(filePath: string): Promise<string> {
+	const hash = crypto.createHash("sha256");
+	await streamPipeline(fs.createReadStream(filePath), hash);
+	return hash.digest("hex");
+}
+
+/**
+ * Computes the SHA-256 hash of a buffer.
+ *
+ * @param content - Data to hash.
+ * @returns Hex-encoded hash.
+ */
+export function hashContent(content: Buffer): string {
+	return crypto.createHash("sha256").update(content).digest("hex");
+}
@@ -0,0 +1,7 @@
+export {
+	builtInFileValidators,
+	validateJson,
+	validatePo,
+	validateXml,
+	validateYaml,
+} from "./syntaxValidators.js";
@@ -0,0 +1,442 @@
+import type {
+	FileValidationIssue,
+	FileValidator,
+} from "../interfaces/index.js";
+
+/**
+ * Predefined XML entities that may be used without a DTD.
+ */
+const XML_PREDEFINED_ENTITIES = new Set(["amp", "lt", "gt", "quot", "apos"]);
+
+const XML_NAME = "[\\p{L}_:][\\p{L}\\p{N}_.:-]*";
+
+const XML_OPENING_TAG = new RegExp(
+	`<(${XML_NAME})((?:\\s+${XML_NAME}\\s*=\\s*(?:"[^"<]*"|'[^'<]*'))*)\\s*(/?)>`,
+	"uy",
+);
+
+const XML_CLOSING_TAG = new RegExp(`</(${XML_NAME})\\s*>`, "uy");
+
+const XML_ATTRIBUTE = new RegExp(
+	`(${XML_NAME})\\s*=\\s*(?:"([^"<]*)"|'([^'<]*)')`,
+	"gu",
+);
+
+const XML_REFERENCE =
+	/&(?:#(\d+)|#x([0-9a-fA-F]+)|([\p{L}_:][\p{L}\p{N}_.:-]*));/uy;
+
+const PO_KEYWORD =
+	/^(msgctxt|msgid|msgid_plural|msgstr(?:\[\d+\])?)\s+(".*?)\s*$/;
+
+const PO_STRING = /^"(?:[^"\\]|\\.)*"$/;
+
+const YAML_BLOCK_SCALAR = /(?:^|[\s:-])[|>][0-9+-]*$/;
+
+/**
+ * Converts an offset within a text into a 1-based line and column.
+ *
+ * @param text - The text.
+ * @param index - Zero-based offset.
+ * @returns The line and column of the offset.
+ */
+function locate(text: string, index: number): { line: number; column: number } {
+	const before = text.slice(0, index);
+	const line = before.split("\n").length;
+	return { line, column: index - before.lastIndexOf("\n") };
+}
+
+/**
+ * Removes a leading byte order mark.
+ *
+ * @param content - File contents.
+ * @returns The contents without a BOM.
+ */
+function stripBom(content: string): string {
+	return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
+
+/**
+ * Checks that a JSON file can be parsed.
+ *
+ * @param content - File contents.
+ * @returns The parse error, if any, with its location when the engine reports one.
+ */
+export const validateJson: FileValidator = (content) => {
+	const text = stripBom(content);
+
+	try {
+		JSON.parse(text);
+		return [];
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		const position = /position (\d+)/.exec(message)?.[1];
+		return [{ message, ...(position ? locate(text, Number(position)) : {}) }];
+	}
+};
+
+/**
+ * Checks that an XML document (including XLIFF and Android resources) is well-formed.
+ *
+ * This is a lightweight check rather than a full parser: it verifies that
+ * tags are balanced and properly nested, attributes are quoted and unique,
+ * there is a single root element, and that `&` and `<` only appear as part
+ * of markup or valid references. Named entities other than the predefined
+ * ones are only accepted when the document declares a DTD.
+ *
+ * @param content - File contents.
+ * @returns The first well-formedness error, if any.
+ */
+export const validateXml: FileValidator = (content) => {
+	const text = stripBom(content);
+	const stack: { name: string; index: number }[] = [];
+	let hasDoctype = false;
+	let rootSeen = false;
+	let index = 0;
+
+	const fail = (message: string, at: number): FileValidationIssue[] => [
+		{ message, ...locate(text, at) },
+	];
+
+	const findInvalidReference = (from: number, to: number): number => {
+		for (let i = text.indexOf("&", from); i !== -1 && i < to; ) {
+			XML_REFERENCE.lastIndex = i;
+			const match = XML_REFERENCE.exec(text);
+			const name = match?.[3];
+			if (
+				!match ||
+				(name && !hasDoctype && !XML_PREDEFINED_ENTITIES.has(name))
+			) {
+				return i;
+			}
+			i = text.indexOf("&", i + match[0].length);
+		}
+		return -1;
+	};
+
+	while (index < text.length) {
+		const tagStart = text.indexOf("<", index);
+		const textEnd = tagStart === -1 ? text.length : tagStart;
+
+		if (stack.length === 0 && text.slice(index, textEnd).trim()) {
+			return fail(
+				"Text outside of the root element",
+				index + text.slice(index, textEnd).search(/\S/),
+			);
+		}
+		const invalidReference = findInvalidReference(index, textEnd);
+		if (invalidReference !== -1) {
+			return fail(
+				"Unescaped '&' or undefined entity reference",
+				invalidReference,
+			);
+		}
+		if (tagStart === -1) {
+			break;
+		}
+
+		const delimited: [string, string, string][] = [
+			["<!--", "-->", "comment"],
+			["<![CDATA[", "]]>", "CDATA section"],
+			["<?", "?>", "processing instruction"],
+		];
+		const section = delimited.find(([open]) => text.startsWith(open, tagStart));
+		if (section) {
+			const [open, close, label] = section;
+			const end = text.indexOf(close, tagStart + open.length);
+			if (end === -1) {
+				return fail(`Unterminated ${label}`, tagStart);
+			}
+			if (label === "CDATA section" && stack.length === 0) {
+				return fail("CDATA section outside of the root element", tagStart);
+			}
+			index = end + close.length;
+			continue;
+		}
+
+		if (text.startsWith("<!DOCTYPE", tagStart)) {
+			let depth = 0;
+			let end = tagStart + 9;
+			for (; end < text.length; end++) {
+				const char = text[end];
+				if (char === "[") depth++;
+				else if (char === "]") depth--;
+				else if (char === ">" && depth === 0) break;
+			}
+			if (end >= text.length) {
+				return fail("Unterminated DOCTYPE declaration", tagStart);
+			}
+			hasDoctype = true;
+			index = end + 1;
+			continue;
+		}
+
+		if (text[tagStart + 1] === "/") {
+			XML_CLOSING_TAG.lastIndex = tagStart;
+			const match = XML_CLOSING_TAG.exec(text);
+			if (!match) {
+				return fail("Malformed closing tag", tagStart);
+			}
+			const open = stack.pop();
+			if (!open) {
+				return fail(`Unexpected closing tag </${match[1]}>`, tagStart);
+			}
+			if (open.name !== match[1]) {
+				return fail(
+					`Mismatched closing tag </${match[1]}>, expected </${open.name}>`,
+					tagStart,
+				);
+			}
+			index = tagStart + match[0].length;
+			continue;
+		}
+
+		XML_OPENING_TAG.lastIndex = tagStart;
+		const match = XML_OPENING_TAG.exec(text);
+		if (!match?.[1]) {
+			return fail("Malformed tag or unescaped '<'", tagStart);
+		}
+		if (stack.length === 0 && rootSeen) {
+			return fail("Multiple root elements", tagStart);
+		}
+
+		const attributes = new Set<string>();
+		for (const [, name] of (match[2] ?? "").matchAll(XML_ATTRIBUTE)) {
+			if (attributes.has(name as string)) {
+				return fail(`Duplicate attribute ${name}`, tagStart);
+			}
+			attributes.add(name as string);
+		}
+		const invalidAttributeReference = findInvalidReference(
+			tagStart,
+			tagStart + match[0].length,
+		);
+		if (invalidAttributeReference !== -1) {
+			return fail(
+				"Unescaped '&' or undefined entity reference",
+				invalidAttributeReference,
+			);
+		}
+
+		rootSeen = true;
+		if (!match[3]) {
+			stack.push({ name: match[1], index: tagStart });
+		}
+		index = tagStart + match[0].length;
+	}
+
+	const unclosed = stack.pop();
+	if (unclosed) {
+		return fail(`Unclosed tag <${unclosed.name}>`, unclosed.index);
+	}
+	if (!rootSeen) {
+		return fail("Missing root element", 0);
+	}
+
+	return [];
+};
+
+/**
+ * Checks the syntax of a gettext PO file.
+ *
+ * Verifies that every line is a comment, a keyword followed by a quoted
+ * string, or a continuation string, that strings are properly quoted and
+ * escaped, and that every `msgid` has a `msgstr`.
+ *
+ * @param content - File contents.
+ * @returns All syntax errors with their line numbers.
+ */
+export const validatePo: FileValidator = (content) => {
+	const issues: FileValidationIssue[] = [];
+	let msgidLine = 0;
+	let hasMsgstr = false;
+	let hasKeyword = false;
+
+	const endEntry = () => {
+		if (msgidLine && !hasMsgstr) {
+			issues.push({ message: "msgid without msgstr", line: msgidLine });
+		}
+		msgidLine = 0;
+		hasMsgstr = false;
+		hasKeyword = false;
+	};
+
+	stripBom(content)
+		.split(/\r?\n/)
+		.forEach((raw, i) => {
+			const line = i + 1;
+			const trimmed = raw.trim();
+
+			if (!trimmed) {
+				endEntry();
+				return;
+			}
+			if (trimmed.startsWith("#")) {
+				return;
+			}
+
+			const keyword = PO_KEYWORD.exec(trimmed);
+			const quoted = keyword ? keyword[2] : trimmed;
+
+			if (!keyword && !trimmed.startsWith('"')) {
+				issues.push({ message: `Unrecognized line: ${trimmed}`, line });
+				return;
+			}
+			if (!PO_STRING.test(quoted ?? "")) {
+				issues.push({ message: "Malformed or unterminated string", line });
+			}
+			if (!keyword) {
+				if (!hasKeyword) {
+					issues.push({ message: "String without a keyword", line });
+				}
+				return;
+			}
+
+			const name = keyword[1] as string;
+			if (name === "msgctxt" || name === "msgid") {
+				if (hasMsgstr || (name === "msgctxt" && msgidLine)) {
+					endEntry();
+				}
+				if (name === "msgid") {
+					if (msgidLine) {
+						issues.push({ message: "msgid without msgstr", line: msgidLine });
+					}
+					msgidLine = line;
+				}
+			} else if (!msgidLine) {
+				issues.push({ message: `${name} without msgid`, line });
+			} else if (name.startsWith("msgstr")) {
+				hasMsgstr = true;
+			}
+			hasKeyword = true;
+		});
+
+	endEntry();
+	return issues;
+};
+
+/**
+ * Checks a YAML file for common syntax errors.
+ *
+ * This is a lightweight check rather than a full parser: it rejects tabs
+ * in indentation, unterminated quoted scalars, and stray characters after
+ * a closing quote (typically an unescaped quote inside a translation).
+ * Quotes only start a scalar at the beginning of a value, so plain values
+ * such as `Say "hello"` are accepted. Block scalars (`|` and `>`) are not
+ * inspected.
+ *
+ * @param content - File contents.
+ * @returns All syntax errors with their line numbers.
+ */
+export const validateYaml: FileValidator = (content) => {
+	const issues: FileValidationIssue[] = [];
+	const lines = stripBom(content).split(/\r?\n/);
+	let quote: { char: string; line: number; column: number } | null = null;
+	let blockIndent = -1;
+	let flowDepth = 0;
+
+	for (const [i, raw] of lines.entries()) {
+		const line = i + 1;
+		const indent = raw.length - raw.trimStart().length;
+
+		if (blockIndent >= 0) {
+			if (!raw.trim() || indent > blockIndent) {
+				continue;
+			}
+			blockIndent = -1;
+		}
+
+		if (!quote && /^ *\t/.test(raw)) {
+			issues.push({
+				message: "Tabs are not allowed in indentation",
+				line,
+				column: raw.indexOf("\t") + 1,
+			});
+			continue;
+		}
+
+		let valueEnd = raw.length;
+		// A quote opens a scalar only where a value starts: at the beginning of
+		// the line, after `key: ` or `- `, or inside a flow collection
+		let valueStart = true;
+		for (let col = 0; col < raw.length; col++) {
+			const char = raw[col];
+
+			if (quote) {
+				if (quote.char === '"' && char === "\\") {
+					col++;
+				} else if (quote.char === "'" && char === "'" && raw[col + 1] === "'") {
+					col++;
+				} else if (char === quote.char) {
+					quote = null;
+					const rest = raw.slice(col + 1).replace(/\s+#.*$/, "");
+					if (!/^\s*(?:[:,\]}].*)?$/.test(rest)) {
+						issues.push({
+							message: "Unexpected characters after a quoted scalar",
+							line,
+							column: col + 2,
+						});
+						valueEnd = col + 1;
+						break;
+					}
+				}
+				continue;
+			}
+
+			const previous = col === 0 ? " " : (raw[col - 1] as string);
+			if (char === "#" && /\s/.test(previous)) {
+				valueEnd = col;
+				break;
+			}
+			if (char === " " || char === "\t") {
+				continue;
+			}
+			if ((char === '"' || char === "'") && valueStart) {
+				quote = { char, line, column: col + 1 };
+				continue;
+			}
+
+			const followedBySpace =
+				col + 1 === raw.length || /\s/.test(raw[col + 1] as string);
+			if ((char === "[" || char === "{") && valueStart) {
+				flowDepth++;
+			} else if ((char === "]" || char === "}") && flowDepth > 0) {
+				flowDepth--;
+			}
+			valueStart =
+				(char === ":" && followedBySpace) ||
+				(char === "-" && valueStart && followedBySpace) ||
+				((char === "[" || char === "{") && valueStart) ||
+				(char === "," && flowDepth > 0);
+		}
+
+		if (!quote && YAML_BLOCK_SCALAR.test(raw.slice(0, valueEnd).trimEnd())) {
+			blockIndent = indent;
+		}
+	}
+
+	if (quote) {
+		issues.push({
+			message: "Unterminated quoted scalar",
+			line: quote.line,
+			column: quote.column,
+		});
+	}
+
+	return issues;
+};
+
+/**
+ * Validators applied by default, keyed by lowercase file extension.
+ */
+export const builtInFileValidators: Readonly<Record<string, FileValidator>> =
+	Object.freeze({
+		".json": validateJson,
+		".arb": validateJson,
+		".yml": validateYaml,
+		".yaml": validateYaml,
+		".xml": validateXml,
+		".xlf": validateXml,
+		".xliff": validateXml,
+		".po": validatePo,
+		".pot": validatePo,
+	});
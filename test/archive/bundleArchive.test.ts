@@ -0,0 +1,103 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import {
+	buildArchiveFilename,
+	pruneArchives,
+	storeArchive,
+	validateArchiveParams,
+} from "../../lib/archive/bundleArchive.js";
+import { LokaliseError } from "../../lib/errors/LokaliseError.js";
+import { afterEach, describe, expect, it } from "../setup.js";
+
+describe("Bundle archive", () => {
+	const archiveDir = path.resolve("/archive");
+
+	afterEach(() => {
+		mockFs.restore();
+	});
+
+	it("should expand and sanitize the placeholders", () => {
+		expect(
+			buildArchiveFilename("123.abc", "{projectId}-{processId}.zip", "a/b"),
+		).toBe("123.abc-a_b.zip");
+		expect(buildArchiveFilename("123.abc")).toMatch(
+			/^lokalise-123\.abc-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.zip$/,
+		);
+	});
+
+	it.each([
+		["{unknown}.zip", "Unknown placeholder {unknown}"],
+		["dir/{timestamp}.zip", "without directories"],
+		["{timestamp}.zip.partial", "suffix is reserved"],
+	])("should reject the %s template", (template, message) => {
+		expect(() => buildArchiveFilename("123.abc", template)).toThrow(message);
+	});
+
+	it("should validate the archive settings", () => {
+		expect(() => validateArchiveParams({ dir: " " }, "123.abc")).toThrow(
+			LokaliseError,
+		);
+		expect(() =>
+			validateArchiveParams({ dir: archiveDir, keep: 0 }, "123.abc"),
+		).toThrow("archive.keep must be a positive integer.");
+		expect(() =>
+			validateArchiveParams({ dir: archiveDir, keep: 2 }, "123.abc"),
+		).not.toThrow();
+	});
+
+	it("should move temporary files and write buffers", async () => {
+		mockFs({ "/tmp/bundle.zip.partial": "zip", [archiveDir]: {} });
+
+		await storeArchive(
+			"/tmp/bundle.zip.partial",
+			path.join(archiveDir, "a.zip"),
+		);
+		await storeArchive(Buffer.from("buffer"), path.join(archiveDir, "b.zip"));
+
+		expect(fs.existsSync("/tmp/bundle.zip.partial")).toBe(false);
+		expect(fs.readFileSync(path.join(archiveDir, "a.zip"), "utf8")).toBe("zip");
+		expect(fs.readFileSync(path.join(archiveDir, "b.zip"), "utf8")).toBe(
+			"buffer",
+		);
+	});
+
+	it("should only prune archives of the project matching the template", async () => {
+		mockFs({
+			[archiveDir]: {
+				"lokalise-123.abc-2024-01-01T00-00-00-000Z.zip": mockFs.file({
+					content: "1",
+					mtime: new Date(1000),
+				}),
+				"lokalise-123.abc-2024-01-02T00-00-00-000Z.zip": mockFs.file({
+					content: "2",
+					mtime: new Date(2000),
+				}),
+				"lokalise-456.def-2024-01-01T00-00-00-000Z.zip": mockFs.file({
+					content: "other project",
+					mtime: new Date(0),
+				}),
+				"lokalise-123.abc-backup.zip": mockFs.file({
+					content: "not a timestamp",
+					mtime: new Date(0),
+				}),
+				"lokalise-123.abc-2024-01-01T00-00-00-000Z.zip.partial": mockFs.file({
+					content: "temporary",
+					mtime: new Date(0),
+				}),
+			},
+		});
+
+		const removed = await pruneArchives(archiveDir, "123.abc", undefined, 1);
+
+		expect(removed).toEqual([
+			path.join(archiveDir, "lokalise-123.abc-2024-01-01T00-00-00-000Z.zip"),
+		]);
+		expect(fs.readdirSync(archiveDir).sort()).toEqual([
+			"lokalise-123.abc-2024-01-01T00-00-00-000Z.zip.partial",
+			"lokalise-123.abc-2024-01-02T00-00-00-000Z.zip",
+			"lokalise-123.abc-backup.zip",
+			"lokalise-456.def-2024-01-01T00-00-00-000Z.zip",
+		]);
+	});
+});
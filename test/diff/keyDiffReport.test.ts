@@ -0,0 +1,120 @@
+import {
+	diffFileKeys,
+	formatKeyDiffMarkdown,
+	inferDiffLanguage,
+	summarizeKeyDiff,
+} from "../../lib/diff/keyDiffReport.js";
+import { describe, expect, it } from "../setup.js";
+
+describe("Key diff report", () => {
+	describe("diffFileKeys", () => {
+		it("should report added, removed and changed keys", () => {
+			expect(
+				diffFileKeys(
+					"en/en.json",
+					"en",
+					'{"a": "A", "b": "B2", "c": "C"}',
+					'{"a": "A", "b": "B", "d": "D"}',
+				),
+			).toEqual({
+				path: "en/en.json",
+				language: "en",
+				status: "modified",
+				added: ["c"],
+				removed: ["d"],
+				changed: ["b"],
+			});
+		});
+
+		it("should report new files even without keys", () => {
+			expect(diffFileKeys("fr.json", "fr", "{}", null)).toMatchObject({
+				status: "added",
+				added: [],
+			});
+		});
+
+		it("should leave out files without key changes", () => {
+			expect(diffFileKeys("fr.yml", "fr", "a: A\n", "a: A # same\n")).toBe(
+				null,
+			);
+		});
+
+		it("should report files that cannot be parsed", () => {
+			expect(diffFileKeys("fr.json", "fr", "{", "{}")).toMatchObject({
+				status: "unparsable",
+				error: expect.any(String),
+			});
+		});
+	});
+
+	describe("inferDiffLanguage", () => {
+		it("should prefer the custom inferer", async () => {
+			expect(
+				await inferDiffLanguage("/out/en/app.json", "en/app.json", () => "en"),
+			).toBe("en");
+		});
+
+		it("should fall back to the filename", async () => {
+			const failing = () => {
+				throw new Error("boom");
+			};
+
+			expect(
+				await inferDiffLanguage("/out/app.fr.json", "app.fr.json", failing),
+			).toBe("fr");
+			expect(
+				await inferDiffLanguage("/out/de.json", "de.json", async () => " "),
+			).toBe("de");
+		});
+	});
+
+	it("should summarize and render a report", () => {
+		const report = summarizeKeyDiff([
+			{
+				path: "fr/fr.json",
+				language: "fr",
+				status: "modified",
+				added: ["a"],
+				removed: [],
+				changed: ["b", "c"],
+			},
+			{
+				path: "de/de.json",
+				language: "de",
+				status: "unparsable",
+				added: [],
+				removed: [],
+				changed: [],
+				error: "Unexpected end of JSON input",
+			},
+		]);
+
+		expect(report.languages).toEqual([
+			{ language: "de", files: 1, added: 0, removed: 0, changed: 0 },
+			{ language: "fr", files: 1, added: 1, removed: 0, changed: 2 },
+		]);
+		expect(formatKeyDiffMarkdown(report)).toBe(
+			[
+				"# Translation changes",
+				"",
+				"| Language | Files | Added | Removed | Changed |",
+				"| --- | ---: | ---: | ---: | ---: |",
+				"| de | 1 | 0 | 0 | 0 |",
+				"| fr | 1 | 1 | 0 | 2 |",
+				"",
+				"## fr/fr.json (fr, modified)",
+				"",
+				"- Added: `a`",
+				"- Changed: `b`, `c`",
+				"",
+				"## de/de.json (de, unparsable)",
+				"",
+				"- Error: Unexpected end of JSON input",
+				"",
+			].join("\n"),
+		);
+		expect(formatKeyDiffMarkdown(summarizeKeyDiff([]))).toBe(
+			"# Translation changes\n\nNo key changes.\n",
+		);
+	});
+});
@@ -0,0 +1,107 @@
+import {
+	hasTranslationKeyParser,
+	parseTranslationKeys,
+} from "../../lib/diff/translationKeys.js";
+import { describe, expect, it } from "../setup.js";
+
+describe("Translation key parsers", () => {
+	it("should support structured formats only", () => {
+		expect(hasTranslationKeyParser(".JSON")).toBe(true);
+		expect(hasTranslationKeyParser(".properties")).toBe(true);
+		expect(hasTranslationKeyParser(".xml")).toBe(false);
+		expect(() => parseTranslationKeys("", ".xml")).toThrow(
+			"Unsupported file type: .xml",
+		);
+	});
+
+	it("should flatten nested JSON objects", () => {
+		const keys = parseTranslationKeys(
+			'﻿{"a": {"b": "B", "c": [1, 2]}, "d": null}',
+			".json",
+		);
+
+		expect([...keys]).toEqual([
+			["a.b", '"B"'],
+			["a.c", "[1,2]"],
+			["d", "null"],
+		]);
+	});
+
+	it("should read properties files", () => {
+		const keys = parseTranslationKeys(
+			[
+				"# comment",
+				"! another comment",
+				"greeting = Hello",
+				"farewell:Bye",
+				"spaced\\ key value",
+				"multi = first \\",
+				"    second",
+				"unicode=\\u00e9t\\u00e9\\n",
+				"empty",
+			].join("\n"),
+			".properties",
+		);
+
+		expect(Object.fromEntries(keys)).toEqual({
+			greeting: "Hello",
+			farewell: "Bye",
+			"spaced key": "value",
+			multi: "first second",
+			unicode: "été\n",
+			empty: "",
+		});
+	});
+
+	it("should read YAML mappings", () => {
+		const keys = parseTranslationKeys(
+			[
+				"---",
+				"en:",
+				"  # comment",
+				"  title: Hello # trailing comment",
+				'  quoted: "Say \\"hi\\""',
+				"  single: 'It''s # not a comment'",
+				'  "key.with: colon": Value',
+				"  plain: first",
+				"    second",
+				"  multiline: 'first",
+				"    second'",
+				"  literal: |",
+				"    line 1",
+				"      indented",
+				"  folded: >-",
+				"    word",
+				"    wrap",
+				"  nested:",
+				"    deep: Deep",
+				"  list:",
+				"  - one",
+				"  - two",
+				"  flow: [a, b]",
+			].join("\n"),
+			".yml",
+		);
+
+		expect(Object.fromEntries(keys)).toEqual({
+			"en.title": "Hello",
+			"en.quoted": 'Say "hi"',
+			"en.single": "It's # not a comment",
+			"en.key.with: colon": "Value",
+			"en.plain": "first second",
+			"en.multiline": "first second",
+			"en.literal": "line 1\n  indented",
+			"en.folded": "word wrap",
+			"en.nested.deep": "Deep",
+			"en.list": "- one\n- two",
+			"en.flow": "[a, b]",
+		});
+	});
+
+	it("should detect changed sequence items in YAML", () => {
+		const before = parseTranslationKeys("days:\n  - Mon\n  - Tue\n", ".yaml");
+		const after = parseTranslationKeys("days:\n  - Mon\n  - Wed\n", ".yaml");
+
+		expect(before.get("days")).not.toBe(after.get("days"));
+	});
+});
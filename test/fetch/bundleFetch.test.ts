@@ -0,0 +1,191 @@
+import { Writable } from "node:stream";
+import { LokaliseError } from "../../lib/errors/LokaliseError.js";
+import {
+	assertAllowedBundleUrl,
+	assertHttpUrl,
+	type BundleRetryContext,
+	fetchZipWithRetries,
+	validateBundleFetchParams,
+	validateBundleUrlParams,
+	type ZipDownloadTarget,
+} from "../../lib/fetch/bundleFetch.js";
+import { describe, expect, it, vi } from "../setup.js";
+
+describe("Bundle fetch", () => {
+	const urlParams = { allowedHosts: ["example.com"], requireHttps: true };
+
+	function memoryTarget(): ZipDownloadTarget & { content: () => string } {
+		let chunks: Buffer[] = [];
+
+		return {
+			content: () => Buffer.concat(chunks).toString(),
+			size: async () => Buffer.concat(chunks).length,
+			open: (append) => {
+				if (!append) {
+					chunks = [];
+				}
+				return new Writable({
+					write(chunk: Buffer, _encoding, callback) {
+						chunks.push(chunk);
+						callback();
+					},
+				});
+			},
+		};
+	}
+
+	function retryContext(
+		fetchResponse: BundleRetryContext["fetchResponse"],
+	): BundleRetryContext {
+		return {
+			urlParams,
+			maxRetries: 2,
+			retryDelay: () => 0,
+			sleep: async () => {},
+			fetchResponse,
+			log: () => {},
+		};
+	}
+
+	describe("fetchZipWithRetries", () => {
+		it("should retry retryable statuses", async () => {
+			const target = memoryTarget();
+			const fetchResponse = vi
+				.fn<BundleRetryContext["fetchResponse"]>()
+				.mockResolvedValueOnce(new Response(null, { status: 503 }))
+				.mockResolvedValueOnce(new Response("zip"));
+
+			await fetchZipWithRetries(
+				"https://example.com/bundle.zip",
+				target,
+				{},
+				retryContext(fetchResponse),
+			);
+
+			expect(fetchResponse).toHaveBeenCalledTimes(2);
+			expect(target.content()).toBe("zip");
+		});
+
+		it("should resume from the received bytes when ranges are supported", async () => {
+			const target = memoryTarget();
+			let pulls = 0;
+			const failing = new ReadableStream<Uint8Array>({
+				async pull(controller) {
+					if (pulls++ === 0) {
+						controller.enqueue(new TextEncoder().encode("zi"));
+						return;
+					}
+					await new Promise((resolve) => setTimeout(resolve, 10));
+					controller.error(new Error("connection reset"));
+				},
+			});
+			const fetchResponse = vi
+				.fn<BundleRetryContext["fetchResponse"]>()
+				.mockResolvedValueOnce(
+					new Response(failing, {
+						headers: { "accept-ranges": "bytes", etag: '"v1"' },
+					}),
+				)
+				.mockResolvedValueOnce(
+					new Response("p", {
+						status: 206,
+						headers: { "content-range": "bytes 2-2/3" },
+					}),
+				);
+
+			await fetchZipWithRetries(
+				"https://example.com/bundle.zip",
+				target,
+				{},
+				retryContext(fetchResponse),
+			);
+
+			expect(fetchResponse.mock.calls[1]?.[2]).toEqual({
+				Range: "bytes=2-",
+				"If-Range": '"v1"',
+			});
+			expect(target.content()).toBe("zip");
+		});
+
+		it("should give up after the maximum number of retries", async () => {
+			const fetchResponse = vi
+				.fn<BundleRetryContext["fetchResponse"]>()
+				.mockImplementation(async () => new Response(null, { status: 500 }));
+
+			await expect(
+				fetchZipWithRetries(
+					"https://example.com/bundle.zip",
+					memoryTarget(),
+					{},
+					retryContext(fetchResponse),
+				),
+			).rejects.toThrow("Maximum retries reached");
+			expect(fetchResponse).toHaveBeenCalledTimes(3);
+		});
+
+		it("should not retry client errors", async () => {
+			const fetchResponse = vi
+				.fn<BundleRetryContext["fetchResponse"]>()
+				.mockResolvedValue(
+					new Response(null, { status: 404, statusText: "Not Found" }),
+				);
+
+			await expect(
+				fetchZipWithRetries(
+					"https://example.com/bundle.zip",
+					memoryTarget(),
+					{},
+					retryContext(fetchResponse),
+				),
+			).rejects.toThrow("Failed to download ZIP file: Not Found (404)");
+			expect(fetchResponse).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("URL checks", () => {
+		it("should only accept HTTP(S) URLs", () => {
+			expect(assertHttpUrl("https://example.com/a.zip").host).toBe(
+				"example.com",
+			);
+			expect(() => assertHttpUrl("ftp://example.com/a.zip")).toThrow(
+				"Unsupported protocol in URL: ftp://example.com/a.zip",
+			);
+			expect(() => assertHttpUrl("not a url")).toThrow("Invalid URL");
+		});
+
+		it("should check the host, path prefix and protocol", () => {
+			const params = {
+				allowedHosts: ["*.example.com", "s3.test/bucket/"],
+				requireHttps: true,
+			};
+
+			expect(() =>
+				assertAllowedBundleUrl(new URL("https://cdn.example.com/a"), params),
+			).not.toThrow();
+			expect(() =>
+				assertAllowedBundleUrl(new URL("https://s3.test/bucket/a"), params),
+			).not.toThrow();
+			expect(() =>
+				assertAllowedBundleUrl(new URL("https://s3.test/other/a"), params),
+			).toThrow("Bundle URL host is not allowed: s3.test");
+			expect(() =>
+				assertAllowedBundleUrl(
+					new URL("http://cdn.example.com/a"),
+					params,
+					true,
+				),
+			).toThrow("Redirect target must use HTTPS: http://cdn.example.com");
+		});
+
+		it("should validate the allowlist and transport settings", () => {
+			expect(() =>
+				validateBundleUrlParams({ allowedHosts: [" "], requireHttps: true }),
+			).toThrow(LokaliseError);
+			expect(() =>
+				validateBundleFetchParams({
+					headers: { "X-Test": 1 as unknown as string },
+				}),
+			).toThrow("bundleFetchParams.headers must map header names to strings.");
+		});
+	});
+});
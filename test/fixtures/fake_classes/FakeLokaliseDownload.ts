@@ -5,7 +5,18 @@ import type {
 } from "@lokalise/node-api";
 import type { LogLevel } from "kliedz";
 import type yauzl from "yauzl";
-import type { ProcessDownloadFileParams } from "../../../lib/interfaces/index.js";
+import type {
+	BundleArchiveParams,
+	DownloadProgressCallback,
+	ExtractParams,
+	ExtractResult,
+	ProcessDownloadFileParams,
+} from "../../../lib/interfaces/index.js";
+import type { TranslationBundleInfo } from "../../../lib/interfaces/TranslationBundleInfo.js";
+import type { UnpackZipOptions } from "../../../lib/interfaces/UnpackZipOptions.js";
+import type { ZipDownloadOptions } from "../../../lib/interfaces/ZipDownloadOptions.js";
+import type { ZipEntryOutcome } from "../../../lib/interfaces/ZipEntryOutcome.js";
+import type { ZipExtractionContext } from "../../../lib/interfaces/ZipExtractionContext.js";
 import { LokaliseDownload } from "../../../lib/services/LokaliseDownload.js";
 
 // Public morozov
@@ -24,16 +35,57 @@ export class FakeLokaliseDownload extends LokaliseDownload {
 
 	public async downloadZip(
 		url: string,
-		downloadTimeout?: number | undefined,
+		options?: ZipDownloadOptions,
 	): Promise<string> {
-		return await super.downloadZip(url, downloadTimeout);
+		return await super.downloadZip(url, options);
+	}
+
+	public async downloadZipToBuffer(
+		url: string,
+		maxZipBytes: number,
+		options?: Omit<ZipDownloadOptions, "tempDir">,
+	): Promise<Buffer> {
+		return await super.downloadZipToBuffer(url, maxZipBytes, options);
+	}
+
+	public async readZipToMemory(
+		source: string | Buffer,
+		extractParams?: ExtractParams,
+		onProgress?: DownloadProgressCallback,
+	): Promise<Map<string, Buffer>> {
+		return await super.readZipToMemory(source, extractParams, onProgress);
 	}
 
 	public async unpackZip(
 		zipFilePath: string,
 		outputDir: string,
-	): Promise<void> {
-		return await super.unpackZip(zipFilePath, outputDir);
+		extractParams?: ExtractParams,
+		options?: UnpackZipOptions,
+	): Promise<ExtractResult> {
+		return await super.unpackZip(
+			zipFilePath,
+			outputDir,
+			extractParams,
+			options,
+		);
+	}
+
+	public async unpackZipAtomically(
+		zipFilePath: string,
+		outputDir: string,
+		extractParams?: ExtractParams,
+		options?: Omit<UnpackZipOptions, "destinationDir">,
+	): Promise<ExtractResult> {
+		return await super.unpackZipAtomically(
+			zipFilePath,
+			outputDir,
+			extractParams,
+			options,
+		);
+	}
+
+	public async validateStagedFiles(staged: ExtractResult): Promise<void> {
+		return await super.validateStagedFiles(staged);
 	}
 
 	public async pollProcesses(
@@ -58,8 +110,10 @@ export class FakeLokaliseDownload extends LokaliseDownload {
 
 	public async fetchBundleURLAsync(
 		downloadFileParams: DownloadFileParams,
-		processParams: Required<ProcessDownloadFileParams>,
-	): Promise<string> {
+		processParams: Required<
+			Omit<ProcessDownloadFileParams, "onProgress" | "tempDir" | "archive">
+		>,
+	): Promise<TranslationBundleInfo> {
 		return super.fetchBundleURLAsync(downloadFileParams, processParams);
 	}
 
@@ -71,19 +125,29 @@ export class FakeLokaliseDownload extends LokaliseDownload {
 		entry: yauzl.Entry,
 		zipfile: yauzl.ZipFile,
 		outputDir: string,
-	): Promise<void> {
-		return super.handleZipEntry(entry, zipfile, outputDir);
+		context?: ZipExtractionContext,
+	): Promise<ZipEntryOutcome> {
+		return super.handleZipEntry(entry, zipfile, outputDir, context);
 	}
 
 	public async fetchZipResponse(
 		bundleURL: URL,
 		signal: AbortSignal | undefined,
 		downloadTimeout: number,
+		headers?: Record<string, string>,
 	): Promise<Response> {
-		return super.fetchZipResponse(bundleURL, signal, downloadTimeout);
+		return super.fetchZipResponse(bundleURL, signal, downloadTimeout, headers);
+	}
+
+	public buildTempZipPath(tempDir?: string): string {
+		return super.buildTempZipPath(tempDir);
 	}
 
-	public buildTempZipPath(): string {
-		return super.buildTempZipPath();
+	public async archiveZip(
+		source: string | Buffer,
+		archive: BundleArchiveParams,
+		processId?: string,
+	): Promise<string> {
+		return await super.archiveZip(source, archive, processId);
 	}
 }
@@ -1,4 +1,5 @@
 import type { QueuedProcess, UploadFileParams } from "@lokalise/node-api";
+import type { LogLevel } from "kliedz";
 import type { CollectFileParams } from "../../../lib/interfaces/CollectFileParams.js";
 import type { ProcessedFile } from "../../../lib/interfaces/ProcessedFile.js";
 import type { ProcessUploadFileParams } from "../../../lib/interfaces/ProcessUploadFileParams.js";
@@ -16,8 +17,14 @@ export class FakeLokaliseUpload extends LokaliseUpload {
 		file: string,
 		projectRoot: string,
 		processParams?: ProcessUploadFileParams,
+		projectLanguages?: string[],
 	): Promise<ProcessedFile> {
-		return await super.processFile(file, projectRoot, processParams);
+		return await super.processFile(
+			file,
+			projectRoot,
+			processParams,
+			projectLanguages,
+		);
 	}
 
 	public async collectFiles({
@@ -26,6 +33,7 @@ export class FakeLokaliseUpload extends LokaliseUpload {
 		excludePatterns = [],
 		recursive = true,
 		fileNamePattern = ".*",
+		...filters
 	}: CollectFileParams = {}): Promise<string[]> {
 		return await super.collectFiles({
 			inputDirs,
@@ -33,6 +41,23 @@ export class FakeLokaliseUpload extends LokaliseUpload {
 			excludePatterns,
 			recursive,
 			fileNamePattern,
+			...filters,
 		});
 	}
+
+	public async fetchProjectLanguages(): Promise<string[]> {
+		return await super.fetchProjectLanguages();
+	}
+
+	public async pollProcesses(
+		processes: QueuedProcess[],
+		initialWaitTime: number,
+		maxWaitTime: number,
+	): Promise<QueuedProcess[]> {
+		return await super.pollProcesses(processes, initialWaitTime, maxWaitTime);
+	}
+
+	public logMsg(level: LogLevel, ...args: unknown[]): void {
+		super.logMsg(level, ...args);
+	}
 }
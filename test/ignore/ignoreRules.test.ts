@@ -0,0 +1,69 @@
+import path from "node:path";
+import { isIgnored, parseIgnoreFile } from "../../lib/ignore/ignoreRules.js";
+import { describe, expect, it } from "../setup.js";
+
+describe("Ignore rules", () => {
+	const base = path.resolve("/repo");
+	const at = (relative: string) => path.join(base, relative);
+
+	const ignored = (content: string, relative: string, isDirectory = false) =>
+		isIgnored(at(relative), isDirectory, parseIgnoreFile(content, base));
+
+	it("should skip blank lines and comments", () => {
+		const rules = parseIgnoreFile("﻿# comment\n\n  \n\\#hash\n", base);
+
+		expect(rules).toHaveLength(1);
+		expect(ignored("\\#hash", "#hash")).toBe(true);
+	});
+
+	it.each([
+		["dist", "dist", true, true],
+		["dist", "packages/app/dist", true, true],
+		["*.log", "logs/.debug.log", false, true],
+		["*.log", "logs/debug.log.txt", false, false],
+		["/build", "build", true, true],
+		["/build", "src/build", true, false],
+		["docs/*.md", "docs/readme.md", false, true],
+		["docs/*.md", "docs/api/readme.md", false, false],
+		["docs/*.md", "src/docs/readme.md", false, false],
+		["**/gen/*.json", "a/b/gen/en.json", false, true],
+		["a/**/b", "a/b", true, true],
+		["a/**/b", "a/x/y/b", true, true],
+		["out/**", "out/x/y.json", false, true],
+		["out/**", "out", true, false],
+		["cache/", "cache", true, true],
+		["cache/", "cache", false, false],
+		["en.jso?", "en.json", false, true],
+		["[!e]n.json", "en.json", false, false],
+		["[!e]n.json", "fn.json", false, true],
+		["[a-c].json", "b.json", false, true],
+		["trailing  ", "trailing", false, true],
+		["space\\ ", "space ", false, true],
+		["\\!important", "!important", false, true],
+	])(
+		"should apply %j to %j (directory: %s)",
+		(pattern, relative, isDirectory, expected) => {
+			expect(ignored(pattern, relative, isDirectory)).toBe(expected);
+		},
+	);
+
+	it("should let the last matching rule win", () => {
+		const content = "*.json\n!en.json\n";
+
+		expect(ignored(content, "locales/fr.json")).toBe(true);
+		expect(ignored(content, "locales/en.json")).toBe(false);
+	});
+
+	it("should resolve patterns relative to the directory of the ignore file", () => {
+		const rules = [
+			...parseIgnoreFile("*.tmp\n", base),
+			...parseIgnoreFile("/local.json\n!keep.tmp\n", at("locales")),
+		];
+
+		expect(isIgnored(at("locales/local.json"), false, rules)).toBe(true);
+		expect(isIgnored(at("local.json"), false, rules)).toBe(false);
+		expect(isIgnored(at("locales/a.tmp"), false, rules)).toBe(true);
+		expect(isIgnored(at("locales/keep.tmp"), false, rules)).toBe(false);
+		expect(isIgnored(at("keep.tmp"), false, rules)).toBe(true);
+	});
+});
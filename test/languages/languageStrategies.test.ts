@@ -0,0 +1,93 @@
+import {
+	inferLanguageFromFilename,
+	inferLanguageFromPath,
+	isLanguageStrategy,
+} from "../../lib/languages/languageStrategies.js";
+import { describe, expect, it } from "../setup.js";
+
+describe("Language strategies", () => {
+	it.each([
+		["basename", "config/locales/fr.yml", "fr"],
+		["basename", "locales/pt-BR.json", "pt-BR"],
+		["basename", "locales/.json", undefined],
+		["directory", "locales/fr/common.json", "fr"],
+		["directory", "common.json", undefined],
+		["android", "app/src/main/res/values-fr/strings.xml", "fr"],
+		["android", "res/values-pt-rBR/strings.xml", "pt_BR"],
+		["android", "res/values-es-r419/strings.xml", "es_419"],
+		["android", "res/values-fr-land/strings.xml", "fr"],
+		["android", "res/values-b+sr+Latn/strings.xml", "sr_Latn"],
+		["android", "res/values-b+zh+hant+tw/strings.xml", "zh_Hant_TW"],
+		["android", "res/values-iw/strings.xml", "he"],
+		["android", "res/values-in-rID/strings.xml", "id_ID"],
+		["android", "res/values/strings.xml", undefined],
+		["android", "res/values-night/colors.xml", undefined],
+		["android", "res/values-v21/values-de/strings.xml", "de"],
+		["ios", "App/fr.lproj/Localizable.strings", "fr"],
+		["ios", "App/zh-Hans.lproj/Localizable.strings", "zh_Hans"],
+		["ios", "App/Base.lproj/Main.storyboard", undefined],
+		["ios", "App/Localizable.strings", undefined],
+		["suffix", "i18n/messages_fr.properties", "fr"],
+		["suffix", "i18n/messages_pt_BR.properties", "pt_BR"],
+		["suffix", "i18n/my_app_messages_de_DE.properties", "de_DE"],
+		["suffix", "i18n/strings-ja.json", "ja"],
+		["suffix", "i18n/messages.properties", undefined],
+	] as const)(
+		"should apply the %s strategy to %s",
+		(strategy, filePath, expected) => {
+			expect(inferLanguageFromPath(filePath, strategy)).toBe(expected);
+		},
+	);
+
+	it.each([
+		["i18n/messages_fr.properties", "fr"],
+		["i18n/messages_pt_BR.properties", "pt_BR"],
+		["i18n/common_app.properties", undefined],
+		["i18n/foo-bar.json", undefined],
+		["i18n/messages_de_DE.properties", undefined],
+	])("should only accept known suffixes in %s", (filePath, expected) => {
+		const known = new Set(["fr", "pt_BR", "de"]);
+
+		expect(inferLanguageFromPath(filePath, "suffix", known)).toBe(expected);
+	});
+
+	it("should ignore known languages for other strategies", () => {
+		expect(
+			inferLanguageFromPath(
+				"locales/xx/app.json",
+				"directory",
+				new Set(["fr"]),
+			),
+		).toBe("xx");
+	});
+
+	it("should use the first capture group of a regular expression", () => {
+		expect(
+			inferLanguageFromPath("src/i18n/lang-fr/app.json", /lang-(\w+)\//),
+		).toBe("fr");
+		expect(
+			inferLanguageFromPath("src/i18n/app.json", /lang-(\w+)\//),
+		).toBeUndefined();
+		expect(inferLanguageFromPath("src/i18n/app.json", /app/)).toBeUndefined();
+	});
+
+	it("should not keep state between matches of global expressions", () => {
+		const strategy = /\/(\w+)\.json/g;
+
+		expect(inferLanguageFromPath("locales/en.json", strategy)).toBe("en");
+		expect(inferLanguageFromPath("locales/en.json", strategy)).toBe("en");
+	});
+
+	it("should fall back to the name before the last extension", () => {
+		expect(inferLanguageFromFilename("fr.json")).toBe("fr");
+		expect(inferLanguageFromFilename("common.pt_BR.json")).toBe("pt_BR");
+		expect(inferLanguageFromFilename("README")).toBe("unknown");
+	});
+
+	it("should recognize supported strategies", () => {
+		expect(isLanguageStrategy("android")).toBe(true);
+		expect(isLanguageStrategy(/(\w+)/)).toBe(true);
+		expect(isLanguageStrategy("toString")).toBe(false);
+		expect(isLanguageStrategy(42)).toBe(false);
+	});
+});
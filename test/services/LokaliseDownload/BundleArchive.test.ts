@@ -0,0 +1,275 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import mockFs from "mock-fs";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import type { Interceptable } from "../../setup.js";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	MockAgent,
+	setGlobalDispatcher,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: bundle archiving and temp directory", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const bundleUrl = "https://example.com/translations.zip";
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const demoZip = fs.readFileSync(demoZipPath);
+	const tempZipPath = "/tmp/lokalise-download.zip";
+	const archiveDir = "/archive";
+	const outputDir = "/output/dir";
+
+	let downloader: FakeLokaliseDownload;
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey },
+			{ projectId, bundleUrlParams: { allowedHosts: ["example.com"] } },
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Archiving", () => {
+		beforeEach(() => {
+			mockFs({
+				[tempZipPath]: demoZip,
+				[outputDir]: {},
+			});
+
+			vi.spyOn(downloader, "getTranslationsBundle").mockResolvedValue({
+				bundle_url: bundleUrl,
+				project_id: projectId,
+			});
+			vi.spyOn(downloader, "downloadZip").mockResolvedValue(tempZipPath);
+		});
+
+		afterEach(() => {
+			mockFs.restore();
+		});
+
+		it("should move the bundle to the archive directory instead of deleting it", async () => {
+			const result = await downloader.downloadTranslations({
+				downloadFileParams: { format: "json" },
+				extractParams: { outputDir },
+				processDownloadFileParams: { archive: { dir: archiveDir } },
+			});
+
+			expect(result.files).toHaveLength(10);
+			expect(result.archivePath).toMatch(
+				new RegExp(
+					`^${path.resolve(archiveDir)}[\\\\/]lokalise-${projectId}-\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}-\\d{3}Z\\.zip$`,
+				),
+			);
+			expect(fs.readFileSync(result.archivePath as string)).toEqual(demoZip);
+			expect(fs.existsSync(tempZipPath)).toBe(false);
+		});
+
+		it("should archive the bundle even when extraction fails", async () => {
+			await expect(
+				downloader.downloadTranslations({
+					downloadFileParams: { format: "json" },
+					extractParams: { outputDir, mapPath: () => "" },
+					processDownloadFileParams: { archive: { dir: archiveDir } },
+				}),
+			).rejects.toThrow("Invalid mapped path for ZIP entry");
+
+			expect(fs.readdirSync(archiveDir)).toHaveLength(1);
+			expect(fs.existsSync(tempZipPath)).toBe(false);
+		});
+
+		it("should expand the filename template", async () => {
+			const archivePath = await downloader.archiveZip(
+				tempZipPath,
+				{ dir: archiveDir, filename: "{projectId}_{processId}.zip" },
+				"abc:1",
+			);
+
+			expect(archivePath).toBe(
+				path.resolve(archiveDir, `${projectId}_abc_1.zip`),
+			);
+		});
+
+		it("should write buffered bundles to the archive directory", async () => {
+			const archivePath = await downloader.archiveZip(demoZip, {
+				dir: archiveDir,
+				filename: "bundle-{processId}.zip",
+			});
+
+			expect(archivePath).toBe(path.resolve(archiveDir, "bundle-.zip"));
+			expect(fs.readFileSync(archivePath)).toEqual(demoZip);
+		});
+
+		it("should archive in-memory downloads", async () => {
+			const contents = await downloader.downloadTranslationsToMemory({
+				downloadFileParams: { format: "json" },
+				processDownloadFileParams: {
+					archive: { dir: archiveDir, filename: "latest.zip" },
+				},
+			});
+
+			expect(contents.size).toBe(10);
+			expect(fs.readFileSync(path.join(archiveDir, "latest.zip"))).toEqual(
+				demoZip,
+			);
+		});
+
+		it("should keep only the most recent archives matching the template", async () => {
+			mockFs({
+				[tempZipPath]: demoZip,
+				[archiveDir]: {
+					"bundle-1.zip": mockFs.file({ content: "1", mtime: new Date(1000) }),
+					"bundle-2.zip": mockFs.file({ content: "2", mtime: new Date(2000) }),
+					"bundle-3.zip": mockFs.file({ content: "3", mtime: new Date(3000) }),
+					"notes.txt": mockFs.file({ content: "keep", mtime: new Date(0) }),
+				},
+			});
+
+			await downloader.archiveZip(
+				tempZipPath,
+				{ dir: archiveDir, filename: "bundle-{processId}.zip", keep: 2 },
+				"4",
+			);
+
+			expect(fs.readdirSync(archiveDir).sort()).toEqual([
+				"bundle-3.zip",
+				"bundle-4.zip",
+				"notes.txt",
+			]);
+		});
+
+		it("should never prune temporary bundles or other projects' archives", async () => {
+			const siblingTempZip = downloader.buildTempZipPath(archiveDir);
+			const oldArchive = `lokalise-${projectId}-2020-01-01T00-00-00-000Z.zip`;
+			mockFs({
+				[tempZipPath]: demoZip,
+				[archiveDir]: {
+					[path.basename(siblingTempZip)]: mockFs.file({
+						content: "in flight",
+						mtime: new Date(0),
+					}),
+					[oldArchive]: mockFs.file({ content: "1", mtime: new Date(1000) }),
+					"lokalise-other-2020-01-01T00-00-00-000Z.zip": mockFs.file({
+						content: "2",
+						mtime: new Date(1000),
+					}),
+					"lokalise-download.zip": mockFs.file({
+						content: "3",
+						mtime: new Date(1000),
+					}),
+				},
+			});
+
+			const archivePath = await downloader.archiveZip(tempZipPath, {
+				dir: archiveDir,
+				keep: 1,
+			});
+
+			expect(fs.readdirSync(archiveDir).sort()).toEqual(
+				[
+					path.basename(archivePath),
+					path.basename(siblingTempZip),
+					"lokalise-download.zip",
+					"lokalise-other-2020-01-01T00-00-00-000Z.zip",
+				].sort(),
+			);
+			expect(fs.readFileSync(siblingTempZip, "utf8")).toBe("in flight");
+		});
+	});
+
+	describe("Validation", () => {
+		beforeEach(() => {
+			vi.spyOn(downloader, "getTranslationsBundle");
+		});
+
+		it.each([
+			[{ dir: " " }, "archive.dir must be a non-empty path."],
+			[
+				{ dir: archiveDir, keep: 0 },
+				"archive.keep must be a positive integer.",
+			],
+			[
+				{ dir: archiveDir, filename: "{project}.zip" },
+				"Unknown placeholder {project} in archive filename template: {project}.zip",
+			],
+			[
+				{ dir: archiveDir, filename: "bundles/{timestamp}.zip" },
+				"Invalid archive filename: bundles/",
+			],
+			[
+				{ dir: archiveDir, filename: "{processId}.zip.partial" },
+				"The .partial suffix is reserved for temporary bundles.",
+			],
+		])(
+			"should reject invalid archive settings %o",
+			async (archive, message) => {
+				await expect(
+					downloader.downloadTranslations({
+						downloadFileParams: { format: "json" },
+						processDownloadFileParams: { archive },
+					}),
+				).rejects.toThrow(message);
+
+				expect(downloader.getTranslationsBundle).not.toHaveBeenCalled();
+			},
+		);
+	});
+
+	describe("Temp directory", () => {
+		let mockAgent: MockAgent;
+		let mockPool: Interceptable;
+		let tempDir: string;
+
+		beforeAll(() => {
+			mockAgent = new MockAgent();
+			setGlobalDispatcher(mockAgent);
+			mockAgent.disableNetConnect();
+		});
+
+		afterAll(() => {
+			mockAgent.close();
+		});
+
+		beforeEach(() => {
+			mockPool = mockAgent.get("https://example.com");
+			tempDir = path.join(
+				fs.mkdtempSync(path.join(os.tmpdir(), "lokalise-test-")),
+				"nested",
+			);
+		});
+
+		afterEach(() => {
+			fs.rmSync(path.dirname(tempDir), { recursive: true, force: true });
+		});
+
+		it("should download the bundle into a custom temp directory", async () => {
+			mockPool
+				.intercept({ path: "/translations.zip", method: "GET" })
+				.reply(200, demoZip);
+
+			const zipPath = await downloader.downloadZip(bundleUrl, { tempDir });
+
+			expect(path.dirname(zipPath)).toBe(tempDir);
+			expect(fs.readFileSync(zipPath)).toEqual(demoZip);
+		});
+
+		it("should build temp paths inside the given directory", () => {
+			expect(path.dirname(downloader.buildTempZipPath("relative/dir"))).toBe(
+				path.resolve("relative/dir"),
+			);
+		});
+	});
+});
@@ -0,0 +1,121 @@
+import type { BundleFetchParams } from "../../../lib/interfaces/index.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	describe,
+	expect,
+	it,
+	MockAgent,
+	setGlobalDispatcher,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: bundle fetch transport", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const bundleUrl = "https://example.com/bundle.zip";
+	const content = Buffer.from("zip-bytes");
+
+	let globalAgent: MockAgent;
+
+	const createDownloader = (bundleFetchParams: BundleFetchParams) =>
+		new FakeLokaliseDownload(
+			{ apiKey },
+			{
+				projectId,
+				bundleUrlParams: { allowedHosts: ["example.com"] },
+				bundleFetchParams,
+			},
+		);
+
+	beforeAll(() => {
+		// Requests must never reach the global dispatcher in these tests
+		globalAgent = new MockAgent();
+		setGlobalDispatcher(globalAgent);
+		globalAgent.disableNetConnect();
+	});
+
+	afterAll(() => {
+		globalAgent.close();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should download bundles through a custom fetch implementation", async () => {
+		const customFetch = vi.fn(async () => new Response(content));
+		const globalFetch = vi.spyOn(globalThis, "fetch");
+
+		const zip = await createDownloader({
+			fetch: customFetch,
+			headers: { "X-Proxy-Auth": "secret" },
+		}).downloadZipToBuffer(bundleUrl, 1024);
+
+		expect(zip).toEqual(content);
+		expect(customFetch).toHaveBeenCalledWith(new URL(bundleUrl), {
+			redirect: "manual",
+			headers: { "X-Proxy-Auth": "secret" },
+		});
+		expect(globalFetch).not.toHaveBeenCalled();
+	});
+
+	it("should send the extra headers on every redirect hop", async () => {
+		const customFetch = vi
+			.fn<typeof fetch>()
+			.mockResolvedValueOnce(
+				new Response(null, {
+					status: 302,
+					headers: { location: "/bundle-v2.zip" },
+				}),
+			)
+			.mockResolvedValueOnce(new Response(content));
+
+		await createDownloader({
+			fetch: customFetch,
+			headers: { "X-Proxy-Auth": "secret" },
+		}).downloadZipToBuffer(bundleUrl, 1024);
+
+		expect(customFetch).toHaveBeenLastCalledWith(
+			new URL("https://example.com/bundle-v2.zip"),
+			{ redirect: "manual", headers: { "X-Proxy-Auth": "secret" } },
+		);
+	});
+
+	it("should route requests through a custom dispatcher", async () => {
+		const agent = new MockAgent();
+		agent.disableNetConnect();
+		agent
+			.get("https://example.com")
+			.intercept({
+				path: "/bundle.zip",
+				method: "GET",
+				headers: { "x-proxy-auth": "secret" },
+			})
+			.reply(200, content);
+
+		const zip = await createDownloader({
+			dispatcher: agent,
+			headers: { "X-Proxy-Auth": "secret" },
+		}).downloadZipToBuffer(bundleUrl, 1024);
+
+		expect(zip).toEqual(content);
+		agent.assertNoPendingInterceptors();
+		await agent.close();
+	});
+
+	it.each([
+		[
+			{ fetch: "fetch" as unknown as typeof fetch },
+			"bundleFetchParams.fetch must be a function.",
+		],
+		[
+			{ headers: { "X-Retries": 3 } as unknown as Record<string, string> },
+			"bundleFetchParams.headers must map header names to strings.",
+		],
+	])("should validate the transport settings %o", (params, message) => {
+		expect(() => createDownloader(params)).toThrow(message);
+	});
+});
@@ -0,0 +1,263 @@
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import type { BundleUrlParams } from "../../../lib/interfaces/index.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	describe,
+	expect,
+	it,
+	MockAgent,
+	setGlobalDispatcher,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: bundle URL policy", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const content = Buffer.from("zip-bytes");
+
+	let mockAgent: MockAgent;
+
+	const createDownloader = (bundleUrlParams?: Partial<BundleUrlParams>) =>
+		new FakeLokaliseDownload(
+			{ apiKey },
+			{
+				projectId,
+				retryParams: { maxRetries: 0 },
+				...(bundleUrlParams ? { bundleUrlParams } : {}),
+			},
+		);
+
+	beforeAll(() => {
+		mockAgent = new MockAgent();
+		setGlobalDispatcher(mockAgent);
+		mockAgent.disableNetConnect();
+	});
+
+	afterAll(() => {
+		mockAgent.close();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Allowlist", () => {
+		it("should allow the default Lokalise bundle hosts", async () => {
+			mockAgent
+				.get("https://files.lokalise.com")
+				.intercept({ path: "/bundle.zip", method: "GET" })
+				.reply(200, content);
+
+			const zip = await createDownloader().downloadZipToBuffer(
+				"https://files.lokalise.com/bundle.zip",
+				1024,
+			);
+
+			expect(zip).toEqual(content);
+		});
+
+		it("should reject hosts outside the default allowlist", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+			await expect(
+				createDownloader().downloadZipToBuffer(
+					"https://evil.example.com/bundle.zip",
+					1024,
+				),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Bundle URL host is not allowed: evil.example.com",
+					undefined,
+					{ reason: "host not allowed", host: "evil.example.com" },
+				),
+			);
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+
+		it("should only allow the Lokalise bucket on the shared S3 endpoint", async () => {
+			mockAgent
+				.get("https://s3-eu-west-1.amazonaws.com")
+				.intercept({
+					path: "/lokalise-live-lok-s3-fss-export/files/bundle.zip",
+					method: "GET",
+				})
+				.reply(200, content);
+			const downloader = createDownloader();
+
+			const zip = await downloader.downloadZipToBuffer(
+				"https://s3-eu-west-1.amazonaws.com/lokalise-live-lok-s3-fss-export/files/bundle.zip",
+				1024,
+			);
+
+			expect(zip).toEqual(content);
+			await expect(
+				downloader.downloadZipToBuffer(
+					"https://s3-eu-west-1.amazonaws.com/attacker-bucket/bundle.zip",
+					1024,
+				),
+			).rejects.toThrow(
+				"Bundle URL host is not allowed: s3-eu-west-1.amazonaws.com",
+			);
+			await expect(
+				downloader.downloadZipToBuffer(
+					"https://s3-eu-west-1.amazonaws.com/lokalise-live-lok-s3-fss-export-evil/bundle.zip",
+					1024,
+				),
+			).rejects.toThrow(
+				"Bundle URL host is not allowed: s3-eu-west-1.amazonaws.com",
+			);
+		});
+
+		it("should match wildcard patterns against subdomains only", async () => {
+			const downloader = createDownloader({ allowedHosts: ["*.example.com"] });
+
+			await expect(
+				downloader.downloadZipToBuffer("https://example.com/bundle.zip", 1024),
+			).rejects.toThrow("Bundle URL host is not allowed: example.com");
+			await expect(
+				downloader.downloadZipToBuffer(
+					"https://cdn.notexample.com/bundle.zip",
+					1024,
+				),
+			).rejects.toThrow("Bundle URL host is not allowed: cdn.notexample.com");
+		});
+
+		it("should allow any host with a single asterisk", async () => {
+			mockAgent
+				.get("https://mirror.internal")
+				.intercept({ path: "/bundle.zip", method: "GET" })
+				.reply(200, content);
+
+			const zip = await createDownloader({
+				allowedHosts: ["*"],
+			}).downloadZipToBuffer("https://mirror.internal/bundle.zip", 1024);
+
+			expect(zip).toEqual(content);
+		});
+
+		it("should validate the allowlist", () => {
+			expect(() => createDownloader({ allowedHosts: [] })).toThrow(
+				new LokaliseError(
+					"allowedHosts must contain at least one non-empty host.",
+				),
+			);
+			expect(() => createDownloader({ allowedHosts: [" "] })).toThrow(
+				"allowedHosts must contain at least one non-empty host.",
+			);
+		});
+	});
+
+	describe("HTTPS", () => {
+		it("should allow plain HTTP when HTTPS is not required", async () => {
+			mockAgent
+				.get("http://example.com")
+				.intercept({ path: "/bundle.zip", method: "GET" })
+				.reply(200, content);
+
+			const zip = await createDownloader({
+				allowedHosts: ["example.com"],
+				requireHttps: false,
+			}).downloadZipToBuffer("http://example.com/bundle.zip", 1024);
+
+			expect(zip).toEqual(content);
+		});
+
+		it("should reject plain HTTP by default", async () => {
+			await expect(
+				createDownloader({
+					allowedHosts: ["example.com"],
+				}).downloadZipToBuffer("http://example.com/bundle.zip", 1024),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Bundle URL must use HTTPS: http://example.com",
+					undefined,
+					{ reason: "insecure protocol", host: "example.com" },
+				),
+			);
+		});
+	});
+
+	describe("Redirects", () => {
+		const downloader = () =>
+			createDownloader({
+				allowedHosts: ["example.com", "*.lokalise.com"],
+			});
+
+		it("should follow redirects within the allowlist", async () => {
+			mockAgent
+				.get("https://example.com")
+				.intercept({ path: "/bundle.zip", method: "GET" })
+				.reply(302, "", {
+					headers: { location: "https://files.lokalise.com/bundle.zip" },
+				});
+			mockAgent
+				.get("https://files.lokalise.com")
+				.intercept({ path: "/bundle.zip", method: "GET" })
+				.reply(200, content);
+
+			const zip = await downloader().downloadZipToBuffer(
+				"https://example.com/bundle.zip",
+				1024,
+			);
+
+			expect(zip).toEqual(content);
+		});
+
+		it("should reject redirects leaving the allowlist", async () => {
+			mockAgent
+				.get("https://example.com")
+				.intercept({ path: "/bundle.zip", method: "GET" })
+				.reply(301, "", {
+					headers: { location: "https://attacker.test/bundle.zip" },
+				});
+
+			await expect(
+				downloader().downloadZipToBuffer(
+					"https://example.com/bundle.zip",
+					1024,
+				),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Redirect target host is not allowed: attacker.test",
+					undefined,
+					{ reason: "redirect not allowed", host: "attacker.test" },
+				),
+			);
+		});
+
+		it("should reject redirects downgrading to plain HTTP", async () => {
+			mockAgent
+				.get("https://example.com")
+				.intercept({ path: "/bundle.zip", method: "GET" })
+				.reply(307, "", { headers: { location: "http://example.com/x.zip" } });
+
+			await expect(
+				downloader().downloadZipToBuffer(
+					"https://example.com/bundle.zip",
+					1024,
+				),
+			).rejects.toThrow("Redirect target must use HTTPS: http://example.com");
+		});
+
+		it("should stop after too many redirects", async () => {
+			mockAgent
+				.get("https://example.com")
+				.intercept({ path: "/loop.zip", method: "GET" })
+				.reply(302, "", { headers: { location: "/loop.zip" } })
+				.persist();
+
+			await expect(
+				downloader().downloadZipToBuffer("https://example.com/loop.zip", 1024),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Too many redirects while downloading ZIP file from example.com",
+					502,
+					{ reason: "too many redirects" },
+				),
+			);
+		});
+	});
+});
@@ -0,0 +1,197 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: conflict policy", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const outputDir = "/output/dir";
+	const enPath = path.join(outputDir, "en/en.json");
+	const oldContent = '{"old":"value"}';
+
+	let downloader: FakeLokaliseDownload;
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload({ apiKey }, { projectId });
+		mockFs({
+			[demoZipPath]: fs.readFileSync(demoZipPath),
+			[outputDir]: {
+				en: { "en.json": oldContent },
+			},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	describe("overwrite", () => {
+		it("should overwrite existing files by default", async () => {
+			const result = await downloader.unpackZip(demoZipPath, outputDir);
+
+			expect(fs.readFileSync(enPath, "utf8")).not.toBe(oldContent);
+			expect(result.files).toHaveLength(10);
+		});
+	});
+
+	describe("skip-if-exists", () => {
+		it("should keep existing files and report them as skipped", async () => {
+			const result = await downloader.unpackZip(demoZipPath, outputDir, {
+				conflictPolicy: "skip-if-exists",
+			});
+
+			expect(fs.readFileSync(enPath, "utf8")).toBe(oldContent);
+			expect(result.files).toHaveLength(9);
+			expect(result.skipped).toContainEqual({
+				entryName: "en/en.json",
+				reason: "exists",
+				path: enPath,
+			});
+		});
+
+		it("should not let mirror mode delete skipped files", async () => {
+			vi.spyOn(downloader, "getTranslationsBundle").mockResolvedValue({
+				bundle_url: "https://example.com/translations.zip",
+				project_id: projectId,
+			});
+			vi.spyOn(downloader, "downloadZip").mockResolvedValue(demoZipPath);
+			vi.spyOn(fs.promises, "unlink").mockResolvedValue(undefined);
+
+			const result = await downloader.downloadTranslations({
+				downloadFileParams: { format: "json" },
+				extractParams: {
+					outputDir,
+					conflictPolicy: "skip-if-exists",
+					mirror: { include: "**/*.json" },
+				},
+			});
+
+			expect(result.deleted).toEqual([]);
+			expect(fs.existsSync(enPath)).toBe(true);
+		});
+	});
+
+	describe("fail-on-existing", () => {
+		it("should throw when a file already exists", async () => {
+			await expect(
+				downloader.unpackZip(demoZipPath, outputDir, {
+					conflictPolicy: "fail-on-existing",
+				}),
+			).rejects.toThrow(
+				new LokaliseError(`File already exists: ${enPath}`, 409, {
+					reason: "file exists",
+					entry: "en/en.json",
+				}),
+			);
+
+			expect(fs.readFileSync(enPath, "utf8")).toBe(oldContent);
+		});
+	});
+
+	describe("overwrite-if-changed", () => {
+		it("should leave unchanged files untouched", async () => {
+			await downloader.unpackZip(demoZipPath, outputDir);
+			const writeSpy = vi.spyOn(fs, "createWriteStream");
+
+			const result = await downloader.unpackZip(demoZipPath, outputDir, {
+				conflictPolicy: "overwrite-if-changed",
+			});
+
+			expect(result.files).toEqual([]);
+			expect(
+				result.skipped.filter((entry) => entry.reason === "unchanged"),
+			).toHaveLength(10);
+			expect(writeSpy).not.toHaveBeenCalled();
+		});
+
+		it("should rewrite files whose content differs", async () => {
+			await downloader.unpackZip(demoZipPath, outputDir);
+			const original = fs.readFileSync(enPath, "utf8");
+			const sameLength = "x".repeat(original.length);
+			fs.writeFileSync(enPath, sameLength);
+			fs.writeFileSync(path.join(outputDir, "ja/ja.json"), "{}");
+
+			const result = await downloader.unpackZip(demoZipPath, outputDir, {
+				conflictPolicy: "overwrite-if-changed",
+			});
+
+			expect(result.files.map((file) => file.entryName).sort()).toEqual([
+				"en/en.json",
+				"ja/ja.json",
+			]);
+			expect(fs.readFileSync(enPath, "utf8")).toBe(original);
+		});
+
+		it("should skip unchanged files in atomic mode", async () => {
+			await downloader.unpackZip(demoZipPath, outputDir);
+
+			const result = await downloader.unpackZipAtomically(
+				demoZipPath,
+				outputDir,
+				{ conflictPolicy: "overwrite-if-changed" },
+			);
+
+			expect(result.files).toEqual([]);
+			expect(result.skipped).toContainEqual({
+				entryName: "en/en.json",
+				reason: "unchanged",
+				path: enPath,
+			});
+		});
+	});
+
+	describe("backup", () => {
+		it("should back up existing files with a suffix", async () => {
+			await downloader.unpackZip(demoZipPath, outputDir, {
+				conflictPolicy: "backup",
+			});
+
+			expect(fs.readFileSync(`${enPath}.bak`, "utf8")).toBe(oldContent);
+			expect(fs.readFileSync(enPath, "utf8")).not.toBe(oldContent);
+			expect(fs.existsSync(path.join(outputDir, "fr/fr.json.bak"))).toBe(false);
+		});
+
+		it("should support a custom suffix", async () => {
+			await downloader.unpackZip(demoZipPath, outputDir, {
+				conflictPolicy: "backup",
+				backupSuffix: ".orig",
+			});
+
+			expect(fs.readFileSync(`${enPath}.orig`, "utf8")).toBe(oldContent);
+		});
+
+		it("should back up existing files into a backup directory", async () => {
+			await downloader.unpackZip(demoZipPath, outputDir, {
+				conflictPolicy: "backup",
+				backupDir: "/backups",
+			});
+
+			expect(fs.readFileSync("/backups/en/en.json", "utf8")).toBe(oldContent);
+			expect(fs.existsSync(`${enPath}.bak`)).toBe(false);
+		});
+
+		it("should back up replaced files in atomic mode", async () => {
+			await downloader.unpackZipAtomically(demoZipPath, outputDir, {
+				conflictPolicy: "backup",
+			});
+
+			expect(fs.readFileSync(`${enPath}.bak`, "utf8")).toBe(oldContent);
+			expect(fs.readFileSync(enPath, "utf8")).not.toBe(oldContent);
+		});
+	});
+});
@@ -0,0 +1,216 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import type { DownloadProgress } from "../../../lib/interfaces/index.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import type { Interceptable } from "../../setup.js";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	MockAgent,
+	setGlobalDispatcher,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: progress reporting", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const url = "https://example.com/download.zip";
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const demoZip = fs.readFileSync(demoZipPath);
+
+	let downloader: FakeLokaliseDownload;
+	let mockAgent: MockAgent;
+	let mockPool: Interceptable;
+	let events: DownloadProgress[];
+	const onProgress = (progress: DownloadProgress) => {
+		events.push(progress);
+	};
+
+	beforeAll(() => {
+		mockAgent = new MockAgent();
+		setGlobalDispatcher(mockAgent);
+		mockAgent.disableNetConnect();
+	});
+
+	afterAll(() => {
+		mockAgent.close();
+	});
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey },
+			{
+				projectId,
+				retryParams: { initialSleepTime: 1 },
+				bundleUrlParams: { allowedHosts: ["example.com"] },
+			},
+		);
+		mockPool = mockAgent.get("https://example.com");
+		events = [];
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Download progress", () => {
+		it("should report received bytes and the Content-Length total", async () => {
+			mockPool
+				.intercept({ path: "/download.zip", method: "GET" })
+				.reply(200, demoZip, {
+					headers: { "Content-Length": String(demoZip.length) },
+				});
+
+			const zipPath = await downloader.downloadZip(url, { onProgress });
+			fs.rmSync(zipPath, { force: true });
+
+			expect(events.length).toBeGreaterThan(0);
+			expect(events.at(-1)).toEqual({
+				phase: "download",
+				receivedBytes: demoZip.length,
+				totalBytes: demoZip.length,
+			});
+		});
+
+		it("should omit the total when Content-Length is missing", async () => {
+			vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+				new Response(
+					new ReadableStream({
+						start(controller) {
+							controller.enqueue(new Uint8Array(demoZip));
+							controller.close();
+						},
+					}),
+				),
+			);
+
+			await downloader.downloadZipToBuffer(url, 10_000, { onProgress });
+
+			expect(events).toEqual([
+				{ phase: "download", receivedBytes: demoZip.length },
+			]);
+		});
+
+		it("should continue counting from the resume offset", async () => {
+			let sent = false;
+			const broken = new ReadableStream<Uint8Array>({
+				async pull(controller) {
+					if (!sent) {
+						sent = true;
+						controller.enqueue(new Uint8Array(demoZip.subarray(0, 100)));
+						return;
+					}
+					await new Promise((resolve) => setTimeout(resolve, 10));
+					controller.error(new Error("socket hang up"));
+				},
+			});
+
+			vi.spyOn(globalThis, "fetch")
+				.mockResolvedValueOnce(
+					new Response(broken, {
+						headers: {
+							"Accept-Ranges": "bytes",
+							"Content-Length": String(demoZip.length),
+						},
+					}),
+				)
+				.mockResolvedValueOnce(
+					new Response(new Uint8Array(demoZip.subarray(100)), {
+						status: 206,
+						headers: {
+							"Content-Range": `bytes 100-${demoZip.length - 1}/${demoZip.length}`,
+							"Content-Length": String(demoZip.length - 100),
+						},
+					}),
+				);
+
+			await downloader.downloadZipToBuffer(url, 10_000, { onProgress });
+
+			expect(events).toEqual([
+				{ phase: "download", receivedBytes: 100, totalBytes: demoZip.length },
+				{
+					phase: "download",
+					receivedBytes: demoZip.length,
+					totalBytes: demoZip.length,
+				},
+			]);
+		});
+	});
+
+	describe("Extraction progress", () => {
+		const outputDir = "/output/dir";
+
+		beforeEach(() => {
+			mockFs({
+				[demoZipPath]: demoZip,
+				[outputDir]: {},
+			});
+		});
+
+		afterEach(() => {
+			mockFs.restore();
+		});
+
+		it("should report processed entries during downloadTranslations", async () => {
+			vi.spyOn(downloader, "getTranslationsBundle").mockResolvedValue({
+				bundle_url: url,
+				project_id: projectId,
+			});
+			vi.spyOn(downloader, "downloadZip").mockResolvedValue(demoZipPath);
+			vi.spyOn(fs.promises, "unlink").mockResolvedValue(undefined);
+
+			await downloader.downloadTranslations({
+				downloadFileParams: { format: "json" },
+				extractParams: { outputDir },
+				processDownloadFileParams: { onProgress },
+			});
+
+			expect(events).toHaveLength(15);
+			expect(events[0]).toEqual({
+				phase: "extract",
+				entriesDone: 1,
+				totalEntries: 15,
+			});
+			expect(events.at(-1)).toEqual({
+				phase: "extract",
+				entriesDone: 15,
+				totalEntries: 15,
+			});
+		});
+
+		it("should report processed entries in atomic mode", async () => {
+			await downloader.unpackZipAtomically(
+				demoZipPath,
+				outputDir,
+				{},
+				{
+					onProgress,
+				},
+			);
+
+			expect(events).toHaveLength(15);
+		});
+
+		it("should report processed entries when reading into memory", async () => {
+			await downloader.readZipToMemory(demoZip, {}, onProgress);
+
+			expect(events.map((event) => event.phase)).toEqual(
+				new Array(15).fill("extract"),
+			);
+			expect(events.at(-1)).toEqual({
+				phase: "extract",
+				entriesDone: 15,
+				totalEntries: 15,
+			});
+		});
+	});
+});
@@ -69,6 +69,43 @@ describe("LokaliseDownload: downloadTranslations()", () => {
 
 			expect(unlinkSpy).toHaveBeenCalledWith(demoZipPath);
 		});
+
+		it("should return a structured download result", async () => {
+			vi.spyOn(downloader, "getTranslationsBundle").mockResolvedValue({
+				bundle_url: "https://example.com/translations.zip",
+				project_id: projectId,
+			});
+			vi.spyOn(downloader, "downloadZip").mockResolvedValue(demoZipPath);
+			vi.spyOn(fs.promises, "unlink").mockResolvedValue(undefined);
+
+			const result = await downloader.downloadTranslations({
+				downloadFileParams,
+				extractParams,
+			});
+
+			expect(result.bundleUrl).toBe("https://example.com/translations.zip");
+			expect(result.processId).toBeUndefined();
+			expect(result.outputDir).toBe(path.resolve(mockOutputDir));
+			expect(result.bundleSize).toBe(fs.statSync(demoZipPath).size);
+
+			expect(result.files).toHaveLength(10);
+			expect(result.files).toContainEqual({
+				entryName: "fr_FR/fr_FR.json",
+				path: path.resolve(mockOutputDir, "fr_FR/fr_FR.json"),
+				size: 31,
+			});
+
+			expect(result.skipped).toHaveLength(5);
+			expect(result.skipped).toContainEqual({
+				entryName: "en/",
+				reason: "directory",
+			});
+
+			expect(result.timings.poll).toBe(0);
+			for (const phase of ["queue", "poll", "fetch", "unpack"] as const) {
+				expect(result.timings[phase]).toBeGreaterThanOrEqual(0);
+			}
+		});
 	});
 
 	describe("Error Cases", () => {
@@ -105,7 +105,7 @@ describe("LokaliseDownload: downloadTranslations()", () => {
 				.spyOn(downloader, "downloadZip")
 				.mockResolvedValue(demoZipPath);
 
-			await downloader.downloadTranslations({
+			const result = await downloader.downloadTranslations({
 				downloadFileParams,
 				extractParams,
 				processDownloadFileParams: {
@@ -125,7 +125,15 @@ describe("LokaliseDownload: downloadTranslations()", () => {
 			expect(jsonContent).toEqual({ welcome: "Bienvenue!" });
 
 			expect(unlinkSpy).toHaveBeenCalledWith(demoZipPath);
-			expect(downloadZipSpy).toHaveBeenCalledWith(fakeDownloadUrl, 10000);
+			expect(downloadZipSpy).toHaveBeenCalledWith(fakeDownloadUrl, {
+				downloadTimeout: 10000,
+				idleTimeout: 0,
+			});
+
+			expect(result.bundleUrl).toBe(fakeDownloadUrl);
+			expect(result.processId).toBe(processId);
+			expect(result.files).toHaveLength(10);
+			expect(result.timings.poll).toBeGreaterThanOrEqual(0);
 		});
 	});
 
@@ -162,6 +170,7 @@ describe("LokaliseDownload: downloadTranslations()", () => {
 						pollInitialWaitTime: 1000,
 						pollMaximumWaitTime: 120_000,
 						bundleDownloadTimeout: 0,
+						bundleIdleTimeout: 0,
 					},
 				),
 			).rejects.toThrow(
@@ -0,0 +1,259 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { FileFormat, QueuedProcess } from "@lokalise/node-api";
+import mockFs from "mock-fs";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: downloadTranslationsBatch()", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const demoZip = fs.readFileSync(demoZipPath);
+
+	let downloader: FakeLokaliseDownload;
+	let bundleCounter: number;
+
+	const buildProcess = (
+		processId: string,
+		status: string,
+		downloadUrl = `https://example.com/${processId}.zip`,
+	): QueuedProcess => ({
+		process_id: processId,
+		status,
+		details: {
+			download_url: downloadUrl,
+			file_size_kb: 1,
+			total_number_of_keys: 5,
+		},
+		type: "file-export",
+		message: "",
+		created_by: 20181,
+		created_by_email: "bodrovis@protonmail.com",
+		created_at: "2023-09-19 13:26:18 (Etc/UTC)",
+		created_at_timestamp: 1695129978,
+	});
+
+	const config = (
+		format: string,
+		outputDir: string,
+		asyncDownload = false,
+	) => ({
+		downloadFileParams: { format: format as FileFormat },
+		extractParams: { outputDir },
+		processDownloadFileParams: {
+			asyncDownload,
+			pollInitialWaitTime: 10,
+			pollMaximumWaitTime: 1000,
+		},
+	});
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey },
+			{ projectId, logThreshold: "silent" },
+		);
+		mockFs({
+			[demoZipPath]: demoZip,
+			"/tmp": {},
+		});
+		bundleCounter = 0;
+
+		vi.spyOn(downloader, "getTranslationsBundle").mockImplementation(
+			async ({ format }) => ({
+				bundle_url: `https://example.com/${format}.zip`,
+				project_id: projectId,
+			}),
+		);
+		vi.spyOn(downloader, "downloadZip").mockImplementation(async () => {
+			const zipPath = `/tmp/bundle-${bundleCounter++}.zip`;
+			fs.writeFileSync(zipPath, demoZip);
+			return zipPath;
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	describe("Success Cases", () => {
+		it("should download every configuration and poll async processes together", async () => {
+			vi.spyOn(downloader, "getTranslationsBundleAsync").mockImplementation(
+				async ({ format }) => buildProcess(`process-${format}`, "queued"),
+			);
+			const pollSpy = vi
+				.spyOn(downloader, "pollProcesses")
+				.mockResolvedValue([
+					buildProcess("process-strings", "finished"),
+					buildProcess("process-xml", "finished"),
+				]);
+
+			const { results, errors } = await downloader.downloadTranslationsBatch([
+				config("json", "/web/locales"),
+				config("strings", "/ios/locales", true),
+				config("xml", "/android/locales", true),
+			]);
+
+			expect(errors).toEqual([]);
+			expect(results.map(({ index }) => index)).toEqual([0, 1, 2]);
+			expect(results.map(({ result }) => result.bundleUrl)).toEqual([
+				"https://example.com/json.zip",
+				"https://example.com/process-strings.zip",
+				"https://example.com/process-xml.zip",
+			]);
+			expect(results[1]?.result.processId).toBe("process-strings");
+			expect(results[2]?.result.outputDir).toBe(
+				path.resolve("/android/locales"),
+			);
+			expect(fs.existsSync("/ios/locales/fr_FR/fr_FR.json")).toBe(true);
+
+			expect(pollSpy).toHaveBeenCalledTimes(1);
+			expect(pollSpy).toHaveBeenCalledWith(
+				[
+					buildProcess("process-strings", "queued"),
+					buildProcess("process-xml", "queued"),
+				],
+				10,
+				1000,
+				6,
+			);
+		});
+
+		it("should respect the concurrency limit", async () => {
+			let active = 0;
+			let maxActive = 0;
+			vi.spyOn(downloader, "downloadZip").mockImplementation(async () => {
+				active++;
+				maxActive = Math.max(maxActive, active);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				active--;
+				const zipPath = `/tmp/bundle-${bundleCounter++}.zip`;
+				fs.writeFileSync(zipPath, demoZip);
+				return zipPath;
+			});
+
+			const { results } = await downloader.downloadTranslationsBatch(
+				[
+					config("json", "/a"),
+					config("json", "/b"),
+					config("json", "/c"),
+					config("json", "/d"),
+				],
+				{ concurrency: 2 },
+			);
+
+			expect(results).toHaveLength(4);
+			expect(maxActive).toBe(2);
+		});
+	});
+
+	describe("Error Cases", () => {
+		it("should report failed configurations without stopping the others", async () => {
+			const apiError = new LokaliseError("Forbidden", 403);
+			vi.spyOn(downloader, "getTranslationsBundle").mockImplementation(
+				async ({ format }) => {
+					if (format === "xml") {
+						throw apiError;
+					}
+					return {
+						bundle_url: `https://example.com/${format}.zip`,
+						project_id: projectId,
+					};
+				},
+			);
+
+			const { results, errors } = await downloader.downloadTranslationsBatch([
+				config("json", "/web/locales"),
+				config("xml", "/android/locales"),
+				config("strings", "/ios/locales"),
+			]);
+
+			expect(results.map(({ index }) => index)).toEqual([0, 2]);
+			expect(errors).toEqual([{ index: 1, error: apiError }]);
+		});
+
+		it("should reject invalid configurations before calling the API", async () => {
+			const { results, errors } = await downloader.downloadTranslationsBatch([
+				{
+					downloadFileParams: { format: "json" },
+					extractParams: { outputDir: "/web", mirror: { include: [] } },
+				},
+				config("strings", "/ios/locales"),
+			]);
+
+			expect(results.map(({ index }) => index)).toEqual([1]);
+			expect(errors).toEqual([
+				{
+					index: 0,
+					error: new LokaliseError(
+						"mirror.include must contain at least one non-empty glob pattern.",
+					),
+				},
+			]);
+			expect(downloader.getTranslationsBundle).toHaveBeenCalledTimes(1);
+		});
+
+		it("should report failed and unfinished async processes", async () => {
+			const queueError = new LokaliseError("Too many requests", 429);
+			vi.spyOn(downloader, "getTranslationsBundleAsync").mockImplementation(
+				async ({ format }) => {
+					if (format === "yaml") {
+						throw queueError;
+					}
+					return buildProcess(`process-${format}`, "queued");
+				},
+			);
+			vi.spyOn(downloader, "pollProcesses").mockResolvedValue([
+				{ ...buildProcess("process-xml", "failed"), message: "Boom" },
+				buildProcess("process-strings", "running"),
+				buildProcess("process-json", "finished"),
+			]);
+
+			const { results, errors } = await downloader.downloadTranslationsBatch([
+				config("xml", "/android", true),
+				config("strings", "/ios", true),
+				config("yaml", "/other", true),
+				config("json", "/web", true),
+			]);
+
+			expect(results.map(({ index }) => index)).toEqual([3]);
+			expect(errors).toEqual([
+				{
+					index: 0,
+					error: new LokaliseError(
+						"Process process-xml ended with status=failed: Boom",
+						502,
+					),
+				},
+				{
+					index: 1,
+					error: new LokaliseError(
+						"Download process did not finish within 1000ms (last status=running)",
+						504,
+					),
+				},
+				{ index: 2, error: queueError },
+			]);
+		});
+
+		it("should validate the concurrency", async () => {
+			await expect(
+				downloader.downloadTranslationsBatch([], { concurrency: 0 }),
+			).rejects.toThrow(
+				new LokaliseError("concurrency must be a positive integer."),
+			);
+		});
+	});
+});
@@ -0,0 +1,294 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { QueuedProcess } from "@lokalise/node-api";
+import mockFs from "mock-fs";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: downloadTranslationsByLanguage()", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const fixturesDir = path.resolve(__dirname, "../../fixtures");
+	const bundles: Record<string, Buffer> = {
+		en: fs.readFileSync(path.join(fixturesDir, "bundle_en.zip")),
+		ja: fs.readFileSync(path.join(fixturesDir, "bundle_ja.zip")),
+		all: fs.readFileSync(path.join(fixturesDir, "demo_archive.zip")),
+	};
+	const outputDir = "/output/dir";
+	const tempDir = "/lokalise-temp";
+
+	let downloader: FakeLokaliseDownload;
+
+	const buildProcess = (bundle: string, status: string): QueuedProcess => ({
+		process_id: `process-${bundle}`,
+		status,
+		details: {
+			download_url: `https://example.com/${bundle}.zip`,
+			file_size_kb: 1,
+			total_number_of_keys: 5,
+		},
+		type: "file-export",
+		message: "",
+		created_by: 20181,
+		created_by_email: "bodrovis@protonmail.com",
+		created_at: "2023-09-19 13:26:18 (Etc/UTC)",
+		created_at_timestamp: 1695129978,
+	});
+
+	const bundleName = (languages?: string[]) =>
+		languages?.length === 1 ? (languages[0] as string) : "all";
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey },
+			{ projectId, logThreshold: "silent" },
+		);
+		mockFs({ [outputDir]: {}, [tempDir]: {} });
+
+		vi.spyOn(downloader, "getTranslationsBundleAsync").mockImplementation(
+			async ({ filter_langs }) =>
+				buildProcess(bundleName(filter_langs), "queued"),
+		);
+		vi.spyOn(downloader, "pollProcesses").mockImplementation(
+			async (processes) => processes.map((p) => ({ ...p, status: "finished" })),
+		);
+		vi.spyOn(downloader, "downloadZip").mockImplementation(async (url) => {
+			const bundle = path.basename(url, ".zip");
+			const zipPath = path.join(tempDir, `${bundle}.zip`);
+			fs.writeFileSync(zipPath, bundles[bundle] as Buffer);
+			return zipPath;
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	describe("Success Cases", () => {
+		it("should queue one process per language and extract all bundles", async () => {
+			const result = await downloader.downloadTranslationsByLanguage({
+				downloadFileParams: { format: "json", filter_langs: ["en", "ja"] },
+				extractParams: { outputDir },
+				processDownloadFileParams: { tempDir },
+			});
+
+			expect(
+				vi
+					.mocked(downloader.downloadZip)
+					.mock.calls.map((call) => call[1]?.tempDir),
+			).toEqual([tempDir, tempDir]);
+			expect(downloader.getTranslationsBundleAsync).toHaveBeenCalledWith({
+				format: "json",
+				filter_langs: ["en"],
+			});
+			expect(downloader.getTranslationsBundleAsync).toHaveBeenCalledWith({
+				format: "json",
+				filter_langs: ["ja"],
+			});
+			expect(downloader.pollProcesses).toHaveBeenCalledTimes(1);
+			expect(downloader.pollProcesses).toHaveBeenCalledWith(
+				[buildProcess("en", "queued"), buildProcess("ja", "queued")],
+				1000,
+				120_000,
+			);
+
+			expect(result.bundles).toEqual([
+				{
+					languages: ["en"],
+					bundleUrl: "https://example.com/en.zip",
+					processId: "process-en",
+					bundleSize: bundles.en?.length,
+				},
+				{
+					languages: ["ja"],
+					bundleUrl: "https://example.com/ja.zip",
+					processId: "process-ja",
+					bundleSize: bundles.ja?.length,
+				},
+			]);
+			expect(result.bundleSize).toBe(
+				(bundles.en?.length ?? 0) + (bundles.ja?.length ?? 0),
+			);
+			expect(result.files.map((file) => file.entryName).sort()).toEqual([
+				"en/en.json",
+				"en/no_filename.json",
+				"ja/ja.json",
+				"ja/no_filename.json",
+			]);
+			expect(fs.readdirSync(outputDir).sort()).toEqual(["en", "ja"]);
+			expect(fs.readdirSync(tempDir)).toEqual([]);
+		});
+
+		it("should support explicit language groups and archiving", async () => {
+			vi.spyOn(downloader, "getTranslationsBundleAsync").mockImplementation(
+				async ({ filter_langs }) =>
+					buildProcess(filter_langs?.[0] === "ja" ? "ja" : "all", "queued"),
+			);
+
+			const result = await downloader.downloadTranslationsByLanguage({
+				downloadFileParams: { format: "json" },
+				extractParams: { outputDir, exclude: "ja/**" },
+				processDownloadFileParams: {
+					archive: { dir: "/archive", filename: "{processId}.zip" },
+				},
+				languageGroups: [["en", "fr", "fr_CA", "fr_FR"], ["ja"]],
+			});
+
+			expect(downloader.getTranslationsBundleAsync).toHaveBeenCalledWith({
+				format: "json",
+				filter_langs: ["en", "fr", "fr_CA", "fr_FR"],
+			});
+			expect(result.files).toHaveLength(8);
+			expect(result.bundles.map((bundle) => bundle.archivePath)).toEqual([
+				path.resolve("/archive/process-all.zip"),
+				path.resolve("/archive/process-ja.zip"),
+			]);
+		});
+
+		it("should combine the key diff reports of all bundles", async () => {
+			const reportFile = "/reports/diff.json";
+
+			const result = await downloader.downloadTranslationsByLanguage({
+				downloadFileParams: { format: "json", filter_langs: ["en", "ja"] },
+				extractParams: { outputDir, diffReport: { reportFile } },
+			});
+
+			expect(result.diffReport?.files.map((file) => file.path)).toEqual([
+				"en/en.json",
+				"en/no_filename.json",
+				"ja/ja.json",
+				"ja/no_filename.json",
+			]);
+			expect(
+				result.diffReport?.languages.map(({ language, files }) => ({
+					language,
+					files,
+				})),
+			).toEqual([
+				{ language: "en", files: 1 },
+				{ language: "ja", files: 1 },
+				{ language: "no_filename", files: 2 },
+			]);
+			expect(JSON.parse(fs.readFileSync(reportFile, "utf8"))).toEqual(
+				result.diffReport,
+			);
+		});
+	});
+
+	describe("Error Cases", () => {
+		it("should reject bundles with overlapping file paths before extracting", async () => {
+			await expect(
+				downloader.downloadTranslationsByLanguage({
+					downloadFileParams: { format: "json" },
+					extractParams: { outputDir },
+					languageGroups: [["en"], ["ja", "fr"]],
+				}),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Language bundles contain overlapping file paths: " +
+						`${path.join("en", "no_filename.json")} (en and ja,fr); ` +
+						`${path.join("en", "en.json")} (en and ja,fr)`,
+					409,
+					{
+						reason: "overlapping paths",
+						path: path.join("en", "no_filename.json"),
+					},
+				),
+			);
+
+			expect(fs.readdirSync(outputDir)).toEqual([]);
+			expect(fs.readdirSync(tempDir)).toEqual([]);
+		});
+
+		it("should release every downloaded bundle when another download fails", async () => {
+			vi.spyOn(downloader, "downloadZip").mockImplementation(async (url) => {
+				const bundle = path.basename(url, ".zip");
+				if (bundle === "en") {
+					throw new LokaliseError("Failed to download ZIP file", 500);
+				}
+				await new Promise((resolve) => setTimeout(resolve, 20));
+				const zipPath = path.join(tempDir, `${bundle}.zip`);
+				fs.writeFileSync(zipPath, bundles[bundle] as Buffer);
+				return zipPath;
+			});
+
+			await expect(
+				downloader.downloadTranslationsByLanguage({
+					downloadFileParams: { format: "json", filter_langs: ["en", "ja"] },
+					extractParams: { outputDir },
+				}),
+			).rejects.toThrow("Failed to download ZIP file");
+			await new Promise((resolve) => setTimeout(resolve, 50));
+
+			expect(downloader.downloadZip).toHaveBeenCalledTimes(2);
+			expect(fs.readdirSync(tempDir)).toEqual([]);
+			expect(fs.readdirSync(outputDir)).toEqual([]);
+		});
+
+		it("should fail when a language process does not finish", async () => {
+			vi.spyOn(downloader, "pollProcesses").mockImplementation(
+				async (processes) =>
+					processes.map((p) => ({
+						...p,
+						status: p.process_id === "process-ja" ? "failed" : "finished",
+					})),
+			);
+
+			await expect(
+				downloader.downloadTranslationsByLanguage({
+					downloadFileParams: { format: "json", filter_langs: ["en", "ja"] },
+					extractParams: { outputDir },
+				}),
+			).rejects.toThrow(
+				new LokaliseError("Process process-ja ended with status=failed", 502),
+			);
+			expect(downloader.downloadZip).not.toHaveBeenCalled();
+		});
+
+		it.each([
+			[{}, undefined, "requires downloadFileParams.filter_langs"],
+			[{}, [["en"], []], "must be non-empty lists of language ISO codes"],
+			[{}, [["en", "fr"], ["fr"]], "Language fr is listed in more than one"],
+			[
+				{ syncStateFile: "/state.json" },
+				[["en"]],
+				"syncStateFile is not supported",
+			],
+		])(
+			"should validate the settings (%o, %o)",
+			async (extractParams, languageGroups, message) => {
+				await expect(
+					downloader.downloadTranslationsByLanguage({
+						downloadFileParams: { format: "json" },
+						extractParams,
+						...(languageGroups ? { languageGroups } : {}),
+					}),
+				).rejects.toThrow(message);
+
+				expect(downloader.getTranslationsBundleAsync).not.toHaveBeenCalled();
+			},
+		);
+
+		it("should require the process ID in archive filenames", async () => {
+			await expect(
+				downloader.downloadTranslationsByLanguage({
+					downloadFileParams: { format: "json", filter_langs: ["en"] },
+					processDownloadFileParams: { archive: { dir: "/archive" } },
+				}),
+			).rejects.toThrow(
+				new LokaliseError(
+					"archive.filename must contain {processId} when splitting a download by language.",
+				),
+			);
+		});
+	});
+});
@@ -0,0 +1,174 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { FileFormat } from "@lokalise/node-api";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import type { Interceptable } from "../../setup.js";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	MockAgent,
+	setGlobalDispatcher,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: downloadTranslationsToMemory()", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const downloadFileParams = { format: "json" as FileFormat };
+	const bundleUrl = "https://example.com/translations.zip";
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const demoZip = fs.readFileSync(demoZipPath);
+
+	let downloader: FakeLokaliseDownload;
+	let mockAgent: MockAgent;
+	let mockPool: Interceptable;
+
+	beforeAll(() => {
+		mockAgent = new MockAgent();
+		setGlobalDispatcher(mockAgent);
+		mockAgent.disableNetConnect();
+	});
+
+	afterAll(() => {
+		mockAgent.close();
+	});
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey },
+			{ projectId, bundleUrlParams: { allowedHosts: ["example.com"] } },
+		);
+		mockPool = mockAgent.get("https://example.com");
+
+		vi.spyOn(downloader, "getTranslationsBundle").mockResolvedValue({
+			bundle_url: bundleUrl,
+			project_id: projectId,
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("Success Cases", () => {
+		it("should return file contents via a temp archive", async () => {
+			vi.spyOn(downloader, "downloadZip").mockResolvedValue(demoZipPath);
+			const unlinkSpy = vi
+				.spyOn(fs.promises, "unlink")
+				.mockResolvedValue(undefined);
+			const mkdirSpy = vi.spyOn(fs.promises, "mkdir");
+
+			const contents = await downloader.downloadTranslationsToMemory({
+				downloadFileParams,
+			});
+
+			expect(contents.size).toBe(10);
+			expect(
+				JSON.parse((contents.get("fr_FR/fr_FR.json") as Buffer).toString()),
+			).toEqual({ welcome: "Bienvenue!" });
+			expect(unlinkSpy).toHaveBeenCalledWith(demoZipPath);
+			expect(mkdirSpy).not.toHaveBeenCalled();
+		});
+
+		it("should buffer the archive in memory when bufferZip is enabled", async () => {
+			mockPool
+				.intercept({ path: "/translations.zip", method: "GET" })
+				.reply(200, demoZip);
+			const downloadZipSpy = vi.spyOn(downloader, "downloadZip");
+
+			const contents = await downloader.downloadTranslationsToMemory({
+				downloadFileParams,
+				extractParams: {
+					bufferZip: true,
+					include: "ja/**",
+					mapPath: "{lang}/{name}.{ext}",
+				},
+			});
+
+			expect([...contents.keys()].sort()).toEqual([
+				"ja/ja.json",
+				"ja/no_filename.json",
+			]);
+			expect(downloadZipSpy).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("Error Cases", () => {
+		it("should reject archives larger than maxZipBytes while streaming", async () => {
+			mockPool
+				.intercept({ path: "/translations.zip", method: "GET" })
+				.reply(200, demoZip);
+
+			await expect(
+				downloader.downloadTranslationsToMemory({
+					downloadFileParams,
+					extractParams: { bufferZip: true, maxZipBytes: 100 },
+				}),
+			).rejects.toThrow(
+				new LokaliseError("ZIP archive exceeds maxZipBytes=100", 413, {
+					reason: "zip limit exceeded",
+					limit: "maxZipBytes",
+					max: 100,
+				}),
+			);
+		});
+
+		it("should reject archives announcing a larger Content-Length", async () => {
+			mockPool
+				.intercept({ path: "/translations.zip", method: "GET" })
+				.reply(200, demoZip, {
+					headers: { "Content-Length": String(demoZip.length) },
+				});
+
+			await expect(
+				downloader.downloadZipToBuffer(bundleUrl, 100),
+			).rejects.toThrow("ZIP archive exceeds maxZipBytes=100");
+		});
+
+		it("should enforce resource limits", async () => {
+			await expect(
+				downloader.readZipToMemory(demoZip, { maxTotalBytes: 100 }),
+			).rejects.toThrow("ZIP archive exceeds maxTotalBytes=100");
+		});
+
+		it("should reject mapped paths escaping the bundle root", async () => {
+			await expect(
+				downloader.readZipToMemory(demoZip, {
+					mapPath: (entryName) => `../../${entryName}`,
+				}),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Malicious ZIP entry detected: ../../en/no_filename.json",
+				),
+			);
+		});
+
+		it("should reject invalid archives", async () => {
+			await expect(
+				downloader.readZipToMemory(Buffer.from("not a zip")),
+			).rejects.toThrow(/^Failed to open ZIP file: /);
+		});
+
+		it("should validate maxZipBytes before downloading", async () => {
+			await expect(
+				downloader.downloadTranslationsToMemory({
+					downloadFileParams,
+					extractParams: { bufferZip: true, maxZipBytes: 0 },
+				}),
+			).rejects.toThrow(
+				new LokaliseError("maxZipBytes must be a positive number."),
+			);
+
+			expect(downloader.getTranslationsBundle).not.toHaveBeenCalled();
+		});
+	});
+});
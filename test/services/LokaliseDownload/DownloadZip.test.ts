@@ -45,7 +45,10 @@ describe("LokaliseDownload: downloadZip()", () => {
 	});
 
 	beforeEach(() => {
-		downloader = new FakeLokaliseDownload({ apiKey }, { projectId });
+		downloader = new FakeLokaliseDownload(
+			{ apiKey },
+			{ projectId, bundleUrlParams: { allowedHosts: ["example.com"] } },
+		);
 		mockPool = mockAgent.get("https://example.com");
 	});
 
@@ -98,7 +101,7 @@ describe("LokaliseDownload: downloadZip()", () => {
 			expect(zipPath).toBe(mockTempPath);
 			expect(path.join).toHaveBeenCalledWith(
 				os.tmpdir(),
-				expect.stringMatching(/^lokalise-.*\.zip$/),
+				expect.stringMatching(/^lokalise-.*\.zip\.partial$/),
 			);
 			expect(fs.createWriteStream).toHaveBeenCalledWith(mockTempPath);
 		});
@@ -213,7 +216,9 @@ describe("LokaliseDownload: downloadZip()", () => {
 			pool.delay(1000);
 
 			await expect(
-				downloader.downloadZip("https://example.com/download.zip", 1),
+				downloader.downloadZip("https://example.com/download.zip", {
+					downloadTimeout: 1,
+				}),
 			).rejects.toThrow(
 				new LokaliseError("Request timed out after 1ms", 408, {
 					reason: "timeout",
@@ -398,7 +403,7 @@ describe("ZIP processing", () => {
 
 		const expected = path.join(
 			os.tmpdir(),
-			`lokalise-${process.pid}-1772125693443-3c31fabbfa33cdbf.zip`,
+			`lokalise-${process.pid}-1772125693443-3c31fabbfa33cdbf.zip.partial`,
 		);
 
 		expect(zipPath).toBe(expected);
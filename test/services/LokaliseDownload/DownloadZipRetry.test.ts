@@ -0,0 +1,222 @@
+import fs from "node:fs";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import type { Interceptable } from "../../setup.js";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	MockAgent,
+	setGlobalDispatcher,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: downloadZip() retries", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const url = "https://example.com/download.zip";
+	const content = Buffer.from("0123456789abcdefghijklmnopqrstuvwxyz");
+
+	let downloader: FakeLokaliseDownload;
+	let mockAgent: MockAgent;
+	let mockPool: Interceptable;
+	let zipPath: string | undefined;
+
+	beforeAll(() => {
+		mockAgent = new MockAgent();
+		setGlobalDispatcher(mockAgent);
+		mockAgent.disableNetConnect();
+	});
+
+	afterAll(() => {
+		mockAgent.close();
+	});
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey },
+			{
+				projectId,
+				retryParams: { maxRetries: 2, initialSleepTime: 1 },
+				bundleUrlParams: { allowedHosts: ["example.com"] },
+			},
+		);
+		mockPool = mockAgent.get("https://example.com");
+		zipPath = undefined;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		if (zipPath) {
+			fs.rmSync(zipPath, { force: true });
+		}
+	});
+
+	const intercept = () =>
+		mockPool.intercept({ path: "/download.zip", method: "GET" });
+
+	/**
+	 * Builds a response whose body fails after sending the first bytes.
+	 */
+	const brokenResponse = (bytes: number, headers: Record<string, string>) => {
+		let sent = false;
+		const body = new ReadableStream<Uint8Array>({
+			async pull(controller) {
+				if (!sent) {
+					sent = true;
+					controller.enqueue(new Uint8Array(content.subarray(0, bytes)));
+					return;
+				}
+				await new Promise((resolve) => setTimeout(resolve, 10));
+				controller.error(new Error("socket hang up"));
+			},
+		});
+
+		return new Response(body, { status: 200, headers });
+	};
+
+	describe("Retries", () => {
+		it("should retry retryable HTTP statuses", async () => {
+			intercept().reply(503, "Service Unavailable");
+			intercept().reply(502, "Bad Gateway");
+			intercept().reply(200, content);
+
+			zipPath = await downloader.downloadZip(url);
+
+			expect(fs.readFileSync(zipPath)).toEqual(content);
+		});
+
+		it("should retry network errors", async () => {
+			intercept().replyWithError(new Error("Connection reset"));
+			intercept().reply(200, content);
+
+			zipPath = await downloader.downloadZip(url);
+
+			expect(fs.readFileSync(zipPath)).toEqual(content);
+		});
+
+		it("should give up once retries are exhausted", async () => {
+			intercept().reply(503, "Service Unavailable").times(3);
+			const unlinkSpy = vi.spyOn(fs.promises, "unlink");
+
+			await expect(downloader.downloadZip(url)).rejects.toThrow(
+				new LokaliseError(
+					"Maximum retries reached: Failed to download ZIP file: Service Unavailable (503)",
+					503,
+					{ reason: "retryable status" },
+				),
+			);
+			expect(unlinkSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it("should not retry non-retryable statuses", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch");
+			intercept().reply(404, "Not Found");
+
+			await expect(downloader.downloadZip(url)).rejects.toThrow(
+				new LokaliseError("Failed to download ZIP file: Not Found (404)"),
+			);
+			expect(fetchSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it("should retry in-memory downloads", async () => {
+			intercept().reply(500, "Internal Server Error");
+			intercept().reply(200, content);
+
+			const buffer = await downloader.downloadZipToBuffer(url, 1000);
+
+			expect(buffer).toEqual(content);
+		});
+	});
+
+	describe("Resume", () => {
+		it("should resume an interrupted download with a Range request", async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockResolvedValueOnce(
+					brokenResponse(10, { "Accept-Ranges": "bytes", ETag: '"v1"' }),
+				)
+				.mockResolvedValueOnce(
+					new Response(new Uint8Array(content.subarray(10)), {
+						status: 206,
+						headers: {
+							"Content-Range": `bytes 10-${content.length - 1}/${content.length}`,
+						},
+					}),
+				);
+
+			zipPath = await downloader.downloadZip(url);
+
+			expect(fs.readFileSync(zipPath)).toEqual(content);
+			expect(fetchSpy).toHaveBeenLastCalledWith(new URL(url), {
+				redirect: "manual",
+				headers: { Range: "bytes=10-", "If-Range": '"v1"' },
+			});
+		});
+
+		it("should resume in-memory downloads", async () => {
+			vi.spyOn(globalThis, "fetch")
+				.mockResolvedValueOnce(brokenResponse(5, { "Accept-Ranges": "bytes" }))
+				.mockResolvedValueOnce(
+					new Response(new Uint8Array(content.subarray(5)), {
+						status: 206,
+						headers: {
+							"Content-Range": `bytes 5-${content.length - 1}/${content.length}`,
+						},
+					}),
+				);
+
+			const buffer = await downloader.downloadZipToBuffer(url, 1000);
+
+			expect(buffer).toEqual(content);
+		});
+
+		it("should start over when the server ignores the Range header", async () => {
+			vi.spyOn(globalThis, "fetch")
+				.mockResolvedValueOnce(brokenResponse(10, { "Accept-Ranges": "bytes" }))
+				.mockResolvedValueOnce(new Response(new Uint8Array(content)));
+
+			zipPath = await downloader.downloadZip(url);
+
+			expect(fs.readFileSync(zipPath)).toEqual(content);
+		});
+
+		it("should start over when the resumed range does not match", async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockResolvedValueOnce(brokenResponse(10, { "Accept-Ranges": "bytes" }))
+				.mockResolvedValueOnce(
+					new Response(new Uint8Array(content), {
+						status: 206,
+						headers: { "Content-Range": `bytes 0-${content.length - 1}/*` },
+					}),
+				)
+				.mockResolvedValueOnce(new Response(new Uint8Array(content)));
+
+			zipPath = await downloader.downloadZip(url);
+
+			expect(fs.readFileSync(zipPath)).toEqual(content);
+			expect(fetchSpy).toHaveBeenLastCalledWith(new URL(url), {
+				redirect: "manual",
+			});
+		});
+
+		it("should not resume when the server does not support ranges", async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockResolvedValueOnce(brokenResponse(10, {}))
+				.mockResolvedValueOnce(new Response(new Uint8Array(content)));
+
+			zipPath = await downloader.downloadZip(url);
+
+			expect(fs.readFileSync(zipPath)).toEqual(content);
+			expect(fetchSpy).toHaveBeenLastCalledWith(new URL(url), {
+				redirect: "manual",
+			});
+		});
+	});
+});
@@ -0,0 +1,200 @@
+import fs from "node:fs";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import type { Interceptable } from "../../setup.js";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	MockAgent,
+	setGlobalDispatcher,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: downloadZip() timeouts", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const url = "https://example.com/download.zip";
+	const content = Buffer.from("0123456789abcdefghijklmnopqrstuvwxyz");
+
+	let downloader: FakeLokaliseDownload;
+	let mockAgent: MockAgent;
+	let mockPool: Interceptable;
+	let zipPath: string | undefined;
+
+	beforeAll(() => {
+		mockAgent = new MockAgent();
+		setGlobalDispatcher(mockAgent);
+		mockAgent.disableNetConnect();
+	});
+
+	afterAll(() => {
+		mockAgent.close();
+	});
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey },
+			{
+				projectId,
+				retryParams: { maxRetries: 1, initialSleepTime: 1 },
+				bundleUrlParams: { allowedHosts: ["example.com"] },
+			},
+		);
+		mockPool = mockAgent.get("https://example.com");
+		zipPath = undefined;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		if (zipPath) {
+			fs.rmSync(zipPath, { force: true });
+		}
+	});
+
+	/**
+	 * Builds a response whose body stops sending data after the first bytes.
+	 */
+	const stalledResponse = (bytes: number, headers: Record<string, string>) => {
+		let sent = false;
+		const body = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				if (!sent) {
+					sent = true;
+					controller.enqueue(new Uint8Array(content.subarray(0, bytes)));
+					return;
+				}
+				return new Promise(() => {});
+			},
+		});
+
+		return new Response(body, { status: 200, headers });
+	};
+
+	/**
+	 * Builds a response sending one byte at the given interval.
+	 */
+	const tricklingResponse = (intervalMs: number) => {
+		let sent = 0;
+		const body = new ReadableStream<Uint8Array>({
+			async pull(controller) {
+				await new Promise((resolve) => setTimeout(resolve, intervalMs));
+				controller.enqueue(new Uint8Array(content.subarray(sent, sent + 1)));
+				sent++;
+				if (sent === 6) {
+					controller.close();
+				}
+			},
+		});
+
+		return new Response(body);
+	};
+
+	describe("Idle timeout", () => {
+		it("should abort a stalled transfer once retries are exhausted", async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async () => stalledResponse(10, {}));
+
+			await expect(
+				downloader.downloadZip(url, { idleTimeout: 50 }),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Maximum retries reached: No data received for 50ms",
+					408,
+					{ reason: "idle timeout" },
+				),
+			);
+			expect(fetchSpy).toHaveBeenCalledTimes(2);
+		});
+
+		it("should resume a stalled transfer", async () => {
+			vi.spyOn(globalThis, "fetch")
+				.mockResolvedValueOnce(
+					stalledResponse(10, { "Accept-Ranges": "bytes" }),
+				)
+				.mockResolvedValueOnce(
+					new Response(new Uint8Array(content.subarray(10)), {
+						status: 206,
+						headers: {
+							"Content-Range": `bytes 10-${content.length - 1}/${content.length}`,
+						},
+					}),
+				);
+
+			const buffer = await downloader.downloadZipToBuffer(url, 1000, {
+				idleTimeout: 50,
+			});
+
+			expect(buffer).toEqual(content);
+		});
+
+		it("should abort when the response headers take too long", async () => {
+			mockPool
+				.intercept({ path: "/download.zip", method: "GET" })
+				.reply(200, content)
+				.delay(500)
+				.times(2);
+
+			await expect(
+				downloader.downloadZip(url, { idleTimeout: 50 }),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Maximum retries reached: No data received for 50ms",
+					408,
+					{ reason: "idle timeout" },
+				),
+			);
+		});
+
+		it("should keep going while data keeps arriving", async () => {
+			vi.spyOn(globalThis, "fetch").mockResolvedValueOnce(
+				tricklingResponse(20),
+			);
+
+			zipPath = await downloader.downloadZip(url, { idleTimeout: 100 });
+
+			expect(fs.readFileSync(zipPath)).toEqual(content.subarray(0, 6));
+		});
+	});
+
+	describe("Overall deadline", () => {
+		it("should abort a stalled body and not retry", async () => {
+			const fetchSpy = vi
+				.spyOn(globalThis, "fetch")
+				.mockImplementation(async () => stalledResponse(10, {}));
+			const unlinkSpy = vi.spyOn(fs.promises, "unlink");
+
+			await expect(
+				downloader.downloadZip(url, { downloadTimeout: 50 }),
+			).rejects.toThrow(
+				new LokaliseError("Request timed out after 50ms", 408, {
+					reason: "timeout",
+				}),
+			);
+			expect(fetchSpy).toHaveBeenCalledTimes(1);
+			expect(unlinkSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it("should take precedence over the idle timeout", async () => {
+			vi.spyOn(globalThis, "fetch").mockImplementation(async () =>
+				tricklingResponse(20),
+			);
+
+			await expect(
+				downloader.downloadZipToBuffer(url, 1000, {
+					downloadTimeout: 50,
+					idleTimeout: 100,
+				}),
+			).rejects.toThrow(
+				new LokaliseError("Request timed out after 50ms", 408, {
+					reason: "timeout",
+				}),
+			);
+		});
+	});
+});
@@ -0,0 +1,188 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: entry filtering and path mapping", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const outputDir = "/output/dir";
+
+	let downloader: FakeLokaliseDownload;
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload({ apiKey }, { projectId });
+		mockFs({
+			[demoZipPath]: fs.readFileSync(demoZipPath),
+			[outputDir]: {},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	const entryNames = (files: { entryName: string }[]) =>
+		files.map((file) => file.entryName).sort();
+
+	describe("Filtering", () => {
+		it("should extract only entries matching the include globs", async () => {
+			const result = await downloader.unpackZip(demoZipPath, outputDir, {
+				include: ["fr_*/**", "ja/ja.json"],
+			});
+
+			expect(entryNames(result.files)).toEqual([
+				"fr_CA/fr_CA.json",
+				"fr_CA/no_filename.json",
+				"fr_FR/fr_FR.json",
+				"fr_FR/no_filename.json",
+				"ja/ja.json",
+			]);
+			expect(result.skipped).toContainEqual({
+				entryName: "en/en.json",
+				reason: "filtered",
+			});
+			expect(result.skipped.every((entry) => entry.reason === "filtered")).toBe(
+				true,
+			);
+			expect(fs.readdirSync(outputDir).sort()).toEqual([
+				"fr_CA",
+				"fr_FR",
+				"ja",
+			]);
+		});
+
+		it("should skip entries matching the exclude globs", async () => {
+			const result = await downloader.unpackZip(demoZipPath, outputDir, {
+				exclude: "**/no_filename.json",
+			});
+
+			expect(entryNames(result.files)).toEqual([
+				"en/en.json",
+				"fr/fr.json",
+				"fr_CA/fr_CA.json",
+				"fr_FR/fr_FR.json",
+				"ja/ja.json",
+			]);
+			expect(fs.existsSync(path.join(outputDir, "en/no_filename.json"))).toBe(
+				false,
+			);
+		});
+
+		it("should apply exclude after include", async () => {
+			const result = await downloader.unpackZip(demoZipPath, outputDir, {
+				include: "fr*/**",
+				exclude: ["fr_CA/**", "**/no_filename.json"],
+			});
+
+			expect(entryNames(result.files)).toEqual([
+				"fr/fr.json",
+				"fr_FR/fr_FR.json",
+			]);
+		});
+	});
+
+	describe("Path mapping", () => {
+		it("should relocate entries using a template", async () => {
+			const result = await downloader.unpackZip(demoZipPath, outputDir, {
+				exclude: "**/no_filename.json",
+				mapPath: "src/i18n/{lang}/{name}.{ext}",
+			});
+
+			expect(result.files).toContainEqual({
+				entryName: "en/en.json",
+				path: path.join(outputDir, "src/i18n/en/en.json"),
+				size: 29,
+			});
+			expect(fs.readdirSync(outputDir)).toEqual(["src"]);
+			expect(fs.readdirSync(path.join(outputDir, "src/i18n")).sort()).toEqual([
+				"en",
+				"fr",
+				"fr_CA",
+				"fr_FR",
+				"ja",
+			]);
+		});
+
+		it("should relocate entries using a callback", async () => {
+			const mapPath = vi.fn((entryName: string) =>
+				entryName.replace(/^([^/]+)\/no_filename\.json$/, "$1/messages.json"),
+			);
+
+			const result = await downloader.unpackZip(demoZipPath, outputDir, {
+				include: "en/**",
+				mapPath,
+			});
+
+			expect(mapPath).toHaveBeenCalledTimes(2);
+			expect(result.files.map((file) => file.path).sort()).toEqual([
+				path.join(outputDir, "en/en.json"),
+				path.join(outputDir, "en/messages.json"),
+			]);
+		});
+
+		it("should relocate entries in atomic mode", async () => {
+			const result = await downloader.unpackZipAtomically(
+				demoZipPath,
+				outputDir,
+				{ include: "ja/**", mapPath: "locales/{basename}" },
+			);
+
+			expect(result.files.map((file) => file.path).sort()).toEqual([
+				path.join(outputDir, "locales/ja.json"),
+				path.join(outputDir, "locales/no_filename.json"),
+			]);
+			expect(fs.readdirSync(outputDir)).toEqual(["locales"]);
+		});
+
+		it("should reject mapped paths escaping the output directory", async () => {
+			await expect(
+				downloader.unpackZip(demoZipPath, outputDir, {
+					mapPath: (entryName) => `../${entryName}`,
+				}),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Malicious ZIP entry detected: ../en/no_filename.json",
+				),
+			);
+
+			expect(fs.readdirSync("/output")).toEqual(["dir"]);
+		});
+
+		it("should reject empty mapped paths", async () => {
+			await expect(
+				downloader.unpackZip(demoZipPath, outputDir, { mapPath: () => "" }),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Invalid mapped path for ZIP entry en/no_filename.json: ",
+				),
+			);
+		});
+
+		it("should reject unknown template placeholders", async () => {
+			await expect(
+				downloader.unpackZip(demoZipPath, outputDir, {
+					mapPath: "{locale}/{basename}",
+				}),
+			).rejects.toThrow(
+				new LokaliseError(
+					"Unknown placeholder {locale} in mapPath template: {locale}/{basename}",
+				),
+			);
+		});
+	});
+});
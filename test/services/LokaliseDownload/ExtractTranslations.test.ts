@@ -0,0 +1,114 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import { LokaliseDownload } from "../../../lib/services/LokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: extractTranslations()", () => {
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const demoZip = fs.readFileSync(demoZipPath);
+	const outputDir = "/output/dir";
+
+	let downloader: LokaliseDownload;
+
+	beforeEach(() => {
+		downloader = LokaliseDownload.forLocalBundles({ logThreshold: "silent" });
+		mockFs({
+			[demoZipPath]: demoZip,
+			[outputDir]: {},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	describe("Success Cases", () => {
+		it("should extract a local bundle without calling the API", async () => {
+			const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+			const result = await downloader.extractTranslations({
+				zipFilePath: demoZipPath,
+				extractParams: { outputDir },
+			});
+
+			expect(result.files).toHaveLength(10);
+			expect(result.bundleSize).toBe(demoZip.length);
+			expect(result.outputDir).toBe(outputDir);
+			expect(result.deleted).toEqual([]);
+			expect(
+				JSON.parse(
+					fs.readFileSync(path.join(outputDir, "fr_FR/fr_FR.json"), "utf8"),
+				),
+			).toEqual({ welcome: "Bienvenue!" });
+			expect(fs.existsSync(demoZipPath)).toBe(true);
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+
+		it("should support atomic extraction, filtering and mirroring", async () => {
+			mockFs({
+				[demoZipPath]: demoZip,
+				[outputDir]: { ja: { "stale.json": "{}" } },
+			});
+
+			const result = await downloader.extractTranslations({
+				zipFilePath: demoZipPath,
+				extractParams: {
+					outputDir,
+					atomic: true,
+					include: "ja/**",
+					mirror: { include: "**/*.json" },
+				},
+			});
+
+			expect(result.files.map((file) => file.entryName).sort()).toEqual([
+				"ja/ja.json",
+				"ja/no_filename.json",
+			]);
+			expect(result.deleted).toEqual([path.join(outputDir, "ja/stale.json")]);
+			expect(fs.readdirSync(outputDir)).toEqual(["ja"]);
+			expect(fs.existsSync(demoZipPath)).toBe(true);
+		});
+	});
+
+	describe("Error Cases", () => {
+		it("should reject a missing archive", async () => {
+			const missingPath = path.resolve("/archives/missing.zip");
+
+			await expect(
+				downloader.extractTranslations({
+					zipFilePath: missingPath,
+					extractParams: { outputDir },
+				}),
+			).rejects.toThrow(
+				new LokaliseError(`ZIP file not found: ${missingPath}`),
+			);
+		});
+
+		it("should keep the archive when extraction fails", async () => {
+			await expect(
+				downloader.extractTranslations({
+					zipFilePath: demoZipPath,
+					extractParams: {
+						outputDir,
+						mapPath: (entryName) => `../${entryName}`,
+					},
+				}),
+			).rejects.toThrow("Malicious ZIP entry detected: ../en/no_filename.json");
+
+			expect(fs.existsSync(demoZipPath)).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,195 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import type { ExtractParams } from "../../../lib/interfaces/index.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: file validation", () => {
+	const zipPath = path.resolve(
+		__dirname,
+		"../../fixtures/invalid_translations.zip",
+	);
+	const zipContent = fs.readFileSync(zipPath);
+	const outputDir = "/output/dir";
+	const frPath = path.join(outputDir, "fr/fr.json");
+	const dePath = path.join(outputDir, "de/strings.xml");
+
+	let downloader: FakeLokaliseDownload;
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey: "offline" },
+			{ projectId: "offline", logThreshold: "silent" },
+		);
+		mockFs({
+			[zipPath]: zipContent,
+			[outputDir]: {
+				fr: { "fr.json": '{"greeting": "Salut"}' },
+			},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	const extract = (extractParams: ExtractParams = {}) =>
+		downloader.extractTranslations({
+			zipFilePath: zipPath,
+			extractParams: { outputDir, ...extractParams },
+		});
+
+	it("should not validate files unless requested", async () => {
+		const result = await extract();
+
+		expect(result.files).toHaveLength(4);
+		expect(result.validationErrors).toBeUndefined();
+	});
+
+	it("should report invalid files in warn mode", async () => {
+		const loggerSpy = vi.spyOn(downloader, "logMsg");
+
+		const result = await extract({ validation: { mode: "warn" } });
+
+		expect(result.files).toHaveLength(4);
+		expect(result.validationErrors).toEqual([
+			{
+				message: expect.stringContaining("JSON"),
+				line: 3,
+				column: 14,
+				entryName: "fr/fr.json",
+				path: frPath,
+			},
+			{
+				message: "Unescaped '&' or undefined entity reference",
+				line: 2,
+				column: 33,
+				entryName: "de/strings.xml",
+				path: dePath,
+			},
+		]);
+		expect(loggerSpy).toHaveBeenCalledWith(
+			"warn",
+			`Validation error in ${dePath}:2:33: Unescaped '&' or undefined entity reference`,
+		);
+	});
+
+	it("should fail the extraction by default, reporting every error", async () => {
+		const promise = extract({ validation: {} });
+
+		await expect(promise).rejects.toBeInstanceOf(LokaliseError);
+		await expect(promise).rejects.toMatchObject({
+			code: 422,
+			details: { reason: "validation failed", files: 2 },
+		});
+		await expect(promise).rejects.toThrow(
+			new RegExp(
+				`^Validation failed for 2 file\\(s\\): ${frPath}:3:14: .+; ${dePath}:2:33: Unescaped '&' or undefined entity reference$`,
+			),
+		);
+	});
+
+	it("should roll back an atomic extraction when validation fails", async () => {
+		await expect(
+			extract({ atomic: true, validation: { mode: "fail" } }),
+		).rejects.toThrow("Validation failed for 2 file(s)");
+
+		expect(fs.readdirSync(outputDir)).toEqual(["fr"]);
+		expect(fs.readFileSync(frPath, "utf8")).toBe('{"greeting": "Salut"}');
+	});
+
+	it("should report final paths for atomic extractions", async () => {
+		const result = await extract({
+			atomic: true,
+			validation: { mode: "warn" },
+		});
+
+		expect(result.validationErrors?.map((error) => error.path)).toEqual([
+			frPath,
+			dePath,
+		]);
+	});
+
+	it("should apply custom validators and disable built-in ones", async () => {
+		const txtValidator = vi.fn(() => [{ message: "Unbalanced brace" }]);
+
+		const result = await extract({
+			validation: {
+				mode: "warn",
+				validators: { TXT: txtValidator, ".json": null, xml: null },
+			},
+		});
+
+		expect(txtValidator).toHaveBeenCalledWith(
+			"not validated {",
+			path.join(outputDir, "notes.txt"),
+		);
+		expect(result.validationErrors).toEqual([
+			{
+				message: "Unbalanced brace",
+				entryName: "notes.txt",
+				path: path.join(outputDir, "notes.txt"),
+			},
+		]);
+	});
+
+	it("should report validators that throw as validation errors", async () => {
+		await expect(
+			extract({
+				validation: {
+					validators: {
+						".txt": () => {
+							throw new Error("Validator crashed");
+						},
+					},
+				},
+			}),
+		).rejects.toThrow("Validation failed for 3 file(s)");
+
+		const result = await extract({
+			validation: {
+				mode: "warn",
+				validators: {
+					".json": null,
+					".xml": null,
+					".txt": async () => {
+						throw new Error("Validator crashed");
+					},
+				},
+			},
+		});
+
+		expect(result.validationErrors).toEqual([
+			{
+				message: "Validator crashed",
+				entryName: "notes.txt",
+				path: path.join(outputDir, "notes.txt"),
+			},
+		]);
+	});
+
+	it.each([
+		[{ mode: "rollback" as "fail" }, "Unknown validation mode: rollback"],
+		[
+			{ validators: { ".json": "json" as unknown as null } },
+			"Validator for .json must be a function or null.",
+		],
+	])(
+		"should validate the validation settings %o",
+		async (validation, message) => {
+			await expect(extract({ validation })).rejects.toThrow(message);
+
+			expect(fs.readdirSync(outputDir)).toEqual(["fr"]);
+		},
+	);
+});
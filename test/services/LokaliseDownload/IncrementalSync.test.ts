@@ -0,0 +1,222 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import type { SyncState } from "../../../lib/interfaces/index.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: incremental sync", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const demoZip = fs.readFileSync(demoZipPath);
+	const outputDir = "/output/dir";
+	const syncStateFile = "/state/lokalise-sync.json";
+
+	let downloader: FakeLokaliseDownload;
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey },
+			{ projectId, logThreshold: "silent" },
+		);
+		mockFs({
+			[demoZipPath]: demoZip,
+			[outputDir]: {},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	const extract = (atomic = false) =>
+		downloader.extractTranslations({
+			zipFilePath: demoZipPath,
+			extractParams: { outputDir, syncStateFile, atomic },
+		});
+
+	const readState = () =>
+		JSON.parse(fs.readFileSync(syncStateFile, "utf8")) as SyncState;
+
+	describe("State file", () => {
+		it("should extract everything and record the state on the first run", async () => {
+			const result = await extract();
+
+			expect(result.bundleUnchanged).toBe(false);
+			expect(result.files).toHaveLength(10);
+
+			const state = readState();
+			expect(state.version).toBe(1);
+			expect(state.bundleHash).toMatch(/^[0-9a-f]{64}$/);
+			expect(Date.parse(state.lastSync)).not.toBeNaN();
+			expect(state.files).toHaveLength(10);
+			expect(state.files).toContainEqual({
+				entryName: "fr_FR/fr_FR.json",
+				path: "fr_FR/fr_FR.json",
+				hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+			});
+		});
+
+		it("should skip extraction when the bundle is unchanged", async () => {
+			await extract();
+			const writeSpy = vi.spyOn(fs, "createWriteStream");
+			const writeFileSpy = vi.spyOn(fs.promises, "writeFile");
+
+			const result = await extract();
+
+			expect(result.bundleUnchanged).toBe(true);
+			expect(result.files).toEqual([]);
+			expect(result.skipped).toHaveLength(10);
+			expect(result.skipped).toContainEqual({
+				entryName: "en/en.json",
+				reason: "unchanged",
+				path: path.join(outputDir, "en/en.json"),
+			});
+			expect(writeSpy).not.toHaveBeenCalled();
+			expect(writeFileSpy).not.toHaveBeenCalled();
+		});
+
+		it("should extract again when a recorded file is missing", async () => {
+			await extract();
+			fs.rmSync(path.join(outputDir, "ja/ja.json"));
+
+			const result = await extract();
+
+			expect(result.bundleUnchanged).toBe(false);
+			expect(result.files.map((file) => file.entryName)).toEqual([
+				"ja/ja.json",
+			]);
+			expect(fs.existsSync(path.join(outputDir, "ja/ja.json"))).toBe(true);
+		});
+
+		it("should extract again when a recorded file was edited locally", async () => {
+			await extract();
+			const filePath = path.join(outputDir, "ja/ja.json");
+			const original = fs.readFileSync(filePath, "utf8");
+			fs.writeFileSync(filePath, "x".repeat(original.length));
+
+			const result = await extract();
+
+			expect(result.bundleUnchanged).toBe(false);
+			expect(result.files.map((file) => file.entryName)).toEqual([
+				"ja/ja.json",
+			]);
+			expect(fs.readFileSync(filePath, "utf8")).toBe(original);
+		});
+
+		it("should ignore an invalid state file", async () => {
+			mockFs({
+				[demoZipPath]: demoZip,
+				[outputDir]: {},
+				[syncStateFile]: "{ not json",
+			});
+			const loggerSpy = vi.spyOn(downloader, "logMsg");
+
+			const result = await extract();
+
+			expect(result.files).toHaveLength(10);
+			expect(loggerSpy).toHaveBeenCalledWith(
+				"warn",
+				`Ignoring invalid sync state file ${path.resolve(syncStateFile)}; performing a full extraction`,
+			);
+			expect(readState().files).toHaveLength(10);
+		});
+	});
+
+	describe("Changed bundle", () => {
+		const outdateState = (changedPath: string) => {
+			const state = readState();
+			fs.writeFileSync(
+				syncStateFile,
+				JSON.stringify({
+					...state,
+					bundleHash: "outdated",
+					files: state.files.map((file) =>
+						file.path === changedPath ? { ...file, hash: "outdated" } : file,
+					),
+				}),
+			);
+		};
+
+		it("should only rewrite files whose contents differ", async () => {
+			await extract();
+			outdateState("fr/fr.json");
+
+			const result = await extract();
+
+			expect(result.bundleUnchanged).toBe(false);
+			expect(result.files.map((file) => file.entryName)).toEqual([
+				"fr/fr.json",
+			]);
+			expect(
+				result.skipped.filter((entry) => entry.reason === "unchanged"),
+			).toHaveLength(9);
+			expect(readState().bundleHash).not.toBe("outdated");
+		});
+
+		it("should rewrite files edited locally without changing their size", async () => {
+			await extract();
+			outdateState("ja/ja.json");
+			const filePath = path.join(outputDir, "fr/fr.json");
+			const original = fs.readFileSync(filePath, "utf8");
+			fs.writeFileSync(filePath, "x".repeat(original.length));
+
+			const result = await extract();
+
+			expect(result.files.map((file) => file.entryName).sort()).toEqual([
+				"fr/fr.json",
+				"ja/ja.json",
+			]);
+			expect(fs.readFileSync(filePath, "utf8")).toBe(original);
+		});
+
+		it("should support atomic extraction", async () => {
+			await extract(true);
+			outdateState("ja/no_filename.json");
+
+			const result = await extract(true);
+
+			expect(result.files).toEqual([
+				{
+					entryName: "ja/no_filename.json",
+					path: path.join(outputDir, "ja/no_filename.json"),
+					size: expect.any(Number),
+				},
+			]);
+			expect(fs.readdirSync("/output")).toEqual(["dir"]);
+		});
+	});
+
+	it("should report unchanged bundles from downloadTranslations", async () => {
+		await extract();
+		vi.spyOn(downloader, "getTranslationsBundle").mockResolvedValue({
+			bundle_url: "https://example.com/translations.zip",
+			project_id: projectId,
+		});
+		vi.spyOn(downloader, "downloadZip").mockImplementation(async () => {
+			fs.copyFileSync(demoZipPath, "/tmp-bundle.zip");
+			return "/tmp-bundle.zip";
+		});
+
+		const result = await downloader.downloadTranslations({
+			downloadFileParams: { format: "json" },
+			extractParams: { outputDir, syncStateFile },
+		});
+
+		expect(result.bundleUnchanged).toBe(true);
+		expect(result.files).toEqual([]);
+		expect(fs.existsSync("/tmp-bundle.zip")).toBe(false);
+	});
+});
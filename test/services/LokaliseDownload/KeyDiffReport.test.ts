@@ -0,0 +1,203 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import type { ExtractParams } from "../../../lib/interfaces/index.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: key diff report", () => {
+	const zipPath = path.resolve(__dirname, "../../fixtures/diff_bundle.zip");
+	const zipContent = fs.readFileSync(zipPath);
+	const outputDir = "/output/dir";
+	const reportsDir = "/reports";
+
+	let downloader: FakeLokaliseDownload;
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey: "offline" },
+			{ projectId: "offline", logThreshold: "silent" },
+		);
+		mockFs({
+			[zipPath]: zipContent,
+			[outputDir]: {
+				locale: {
+					"en.json": JSON.stringify({
+						greeting: "Hi",
+						menu: { open: "Open" },
+						old: "Obsolete",
+					}),
+					"fr.yml":
+						"fr:\n  greeting: 'Bonjour' # hello\n  menu:\n    open: Ouvrir\n",
+				},
+			},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	const extract = (extractParams: ExtractParams = {}) =>
+		downloader.extractTranslations({
+			zipFilePath: zipPath,
+			extractParams: { outputDir, ...extractParams },
+		});
+
+	it("should not build a report unless requested", async () => {
+		const result = await extract();
+
+		expect(result.diffReport).toBeUndefined();
+	});
+
+	it("should report added, removed and changed keys per file and language", async () => {
+		const result = await extract({ diffReport: {} });
+
+		expect(result.diffReport).toEqual({
+			files: [
+				{
+					path: "locale/de.properties",
+					language: "de",
+					status: "added",
+					added: ["greeting", "menu.open"],
+					removed: [],
+					changed: [],
+				},
+				{
+					path: "locale/en.json",
+					language: "en",
+					status: "modified",
+					added: ["menu.close"],
+					removed: ["old"],
+					changed: ["greeting"],
+				},
+				{
+					path: "locale/ja.json",
+					language: "ja",
+					status: "unparsable",
+					added: [],
+					removed: [],
+					changed: [],
+					error: expect.stringContaining("JSON"),
+				},
+			],
+			languages: [
+				{ language: "de", files: 1, added: 2, removed: 0, changed: 0 },
+				{ language: "en", files: 1, added: 1, removed: 1, changed: 1 },
+				{ language: "ja", files: 1, added: 0, removed: 0, changed: 0 },
+			],
+		});
+	});
+
+	it("should compare against the files present before extraction", async () => {
+		await extract({ diffReport: {} });
+
+		const result = await extract({ diffReport: {} });
+
+		expect(result.diffReport?.files.map((file) => file.path)).toEqual([
+			"locale/ja.json",
+		]);
+	});
+
+	it("should apply entry filters and path mapping", async () => {
+		const result = await extract({
+			include: "**/en.json",
+			mapPath: (entryName) => entryName.replace("locale/", "i18n/"),
+			diffReport: {},
+		});
+
+		expect(result.diffReport?.files).toEqual([
+			expect.objectContaining({ path: "i18n/en.json", status: "added" }),
+		]);
+	});
+
+	it("should use a custom language inferer", async () => {
+		const languageInferer = vi.fn((filePath: string) =>
+			filePath.endsWith("en.json") ? "en_US" : "",
+		);
+
+		const result = await extract({ diffReport: { languageInferer } });
+
+		expect(languageInferer).toHaveBeenCalledWith(
+			path.join(outputDir, "locale/en.json"),
+		);
+		expect(result.diffReport?.languages.map((lang) => lang.language)).toEqual([
+			"de",
+			"en_US",
+			"ja",
+		]);
+	});
+
+	it("should write the report as JSON", async () => {
+		const reportFile = path.join(reportsDir, "diff.json");
+
+		const result = await extract({ diffReport: { reportFile } });
+
+		expect(JSON.parse(fs.readFileSync(reportFile, "utf8"))).toEqual(
+			result.diffReport,
+		);
+	});
+
+	it("should write the report as Markdown", async () => {
+		const reportFile = path.join(reportsDir, "diff.md");
+
+		await extract({
+			include: ["**/en.json", "**/de.properties"],
+			diffReport: { reportFile, format: "markdown" },
+		});
+
+		expect(fs.readFileSync(reportFile, "utf8")).toBe(
+			[
+				"# Translation changes",
+				"",
+				"| Language | Files | Added | Removed | Changed |",
+				"| --- | ---: | ---: | ---: | ---: |",
+				"| de | 1 | 2 | 0 | 0 |",
+				"| en | 1 | 1 | 1 | 1 |",
+				"",
+				"## locale/de.properties (de, added)",
+				"",
+				"- Added: `greeting`, `menu.open`",
+				"",
+				"## locale/en.json (en, modified)",
+				"",
+				"- Added: `menu.close`",
+				"- Removed: `old`",
+				"- Changed: `greeting`",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("should not write a report when the extraction fails", async () => {
+		const reportFile = path.join(reportsDir, "diff.json");
+
+		await expect(
+			extract({
+				validation: {},
+				diffReport: { reportFile },
+			}),
+		).rejects.toThrow("Validation failed");
+
+		expect(fs.existsSync(reportFile)).toBe(false);
+	});
+
+	it.each([
+		[{ format: "html" as "json" }, "Unknown diff report format: html"],
+		[{ reportFile: " " }, "diffReport.reportFile must not be empty."],
+		[
+			{ languageInferer: "en" as unknown as () => string },
+			"diffReport.languageInferer must be a function.",
+		],
+	])("should validate the report settings %o", async (diffReport, message) => {
+		await expect(extract({ diffReport })).rejects.toThrow(message);
+	});
+});
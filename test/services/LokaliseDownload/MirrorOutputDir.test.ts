@@ -0,0 +1,111 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: mirror mode", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const outputDir = "/output/dir";
+
+	let downloader: FakeLokaliseDownload;
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload({ apiKey }, { projectId });
+		mockFs({
+			[demoZipPath]: fs.readFileSync(demoZipPath),
+			[outputDir]: {
+				en: { "en.json": "{}" },
+				de: { "de.json": "{}", "notes.txt": "keep me" },
+				"README.md": "keep me too",
+			},
+		});
+
+		vi.spyOn(downloader, "getTranslationsBundle").mockResolvedValue({
+			bundle_url: "https://example.com/translations.zip",
+			project_id: projectId,
+		});
+		vi.spyOn(downloader, "downloadZip").mockResolvedValue(demoZipPath);
+		vi.spyOn(fs.promises, "unlink").mockResolvedValue(undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	it("should delete stale files matching the include glob", async () => {
+		const result = await downloader.downloadTranslations({
+			downloadFileParams: { format: "json" },
+			extractParams: { outputDir, mirror: { include: "**/*.json" } },
+		});
+
+		expect(result.deleted).toEqual([path.join(outputDir, "de/de.json")]);
+		expect(fs.existsSync(path.join(outputDir, "de/de.json"))).toBe(false);
+		expect(fs.existsSync(path.join(outputDir, "de/notes.txt"))).toBe(true);
+		expect(fs.existsSync(path.join(outputDir, "README.md"))).toBe(true);
+		expect(fs.existsSync(path.join(outputDir, "en/en.json"))).toBe(true);
+	});
+
+	it("should only report stale files in dry-run mode", async () => {
+		const loggerSpy = vi.spyOn(downloader, "logMsg");
+
+		const result = await downloader.downloadTranslations({
+			downloadFileParams: { format: "json" },
+			extractParams: {
+				outputDir,
+				mirror: { include: ["de/**", "*.md"], dryRun: true },
+			},
+		});
+
+		expect(result.deleted).toEqual([
+			path.join(outputDir, "README.md"),
+			path.join(outputDir, "de/de.json"),
+			path.join(outputDir, "de/notes.txt"),
+		]);
+		expect(fs.existsSync(path.join(outputDir, "de/de.json"))).toBe(true);
+		expect(fs.existsSync(path.join(outputDir, "README.md"))).toBe(true);
+		expect(loggerSpy).toHaveBeenCalledWith(
+			"info",
+			`Mirror (dry run): would delete ${path.join(outputDir, "README.md")}`,
+		);
+	});
+
+	it("should not delete anything when mirror mode is off", async () => {
+		const result = await downloader.downloadTranslations({
+			downloadFileParams: { format: "json" },
+			extractParams: { outputDir },
+		});
+
+		expect(result.deleted).toEqual([]);
+		expect(fs.existsSync(path.join(outputDir, "de/de.json"))).toBe(true);
+	});
+
+	it("should reject empty include patterns before downloading", async () => {
+		await expect(
+			downloader.downloadTranslations({
+				downloadFileParams: { format: "json" },
+				extractParams: { outputDir, mirror: { include: [] } },
+			}),
+		).rejects.toThrow(
+			new LokaliseError(
+				"mirror.include must contain at least one non-empty glob pattern.",
+			),
+		);
+
+		expect(downloader.getTranslationsBundle).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,142 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import type { ExtractParams } from "../../../lib/interfaces/index.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: special ZIP entries and file attributes", () => {
+	const zipPath = path.resolve(__dirname, "../../fixtures/special_entries.zip");
+	const zipContent = fs.readFileSync(zipPath);
+	const outputDir = "/output/dir";
+
+	let downloader: FakeLokaliseDownload;
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload(
+			{ apiKey: "offline" },
+			{ projectId: "offline", logThreshold: "silent" },
+		);
+		mockFs({
+			[zipPath]: zipContent,
+			[outputDir]: {},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	const extract = (extractParams: ExtractParams = {}) =>
+		downloader.extractTranslations({
+			zipFilePath: zipPath,
+			extractParams: { outputDir, ...extractParams },
+		});
+
+	describe("Special entries", () => {
+		it("should reject symlinks by default", async () => {
+			await expect(extract()).rejects.toThrow(
+				new LokaliseError(
+					"Unsupported ZIP entry type (symlink): en/link.json",
+					422,
+					{
+						reason: "unsupported entry type",
+						entry: "en/link.json",
+						type: "symlink",
+					},
+				),
+			);
+
+			expect(fs.existsSync(path.join(outputDir, "en/link.json"))).toBe(false);
+		});
+
+		it("should skip special entries with a warning", async () => {
+			const loggerSpy = vi.spyOn(downloader, "logMsg");
+
+			const result = await extract({ specialEntries: "skip" });
+
+			expect(result.files.map((file) => file.entryName)).toEqual([
+				"en/en.json",
+				"fr/fr.json",
+			]);
+			expect(result.skipped).toContainEqual({
+				entryName: "en/link.json",
+				reason: "special",
+			});
+			expect(result.skipped).toContainEqual({
+				entryName: "fr/fifo",
+				reason: "special",
+			});
+			expect(loggerSpy).toHaveBeenCalledWith(
+				"warn",
+				"Skipping symlink ZIP entry en/link.json",
+			);
+			expect(loggerSpy).toHaveBeenCalledWith(
+				"warn",
+				"Skipping fifo ZIP entry fr/fifo",
+			);
+			expect(fs.readdirSync(path.join(outputDir, "en"))).toEqual(["en.json"]);
+		});
+
+		it("should apply the policy to in-memory reads", async () => {
+			await expect(downloader.readZipToMemory(zipPath)).rejects.toThrow(
+				"Unsupported ZIP entry type (symlink): en/link.json",
+			);
+
+			const contents = await downloader.readZipToMemory(zipPath, {
+				specialEntries: "skip",
+			});
+			expect([...contents.keys()]).toEqual(["en/en.json", "fr/fr.json"]);
+		});
+
+		it("should reject an unknown policy", async () => {
+			await expect(
+				extract({ specialEntries: "follow" as "skip" }),
+			).rejects.toThrow("Unknown specialEntries: follow");
+		});
+	});
+
+	describe("File attributes", () => {
+		it("should apply permissions and modification times", async () => {
+			await extract({ specialEntries: "skip", preserveAttributes: true });
+
+			const en = fs.statSync(path.join(outputDir, "en/en.json"));
+			const fr = fs.statSync(path.join(outputDir, "fr/fr.json"));
+
+			expect(en.mode & 0o7777).toBe(0o640);
+			expect(fr.mode & 0o7777).toBe(0o755);
+			expect(en.mtime).toEqual(new Date(2020, 0, 2, 3, 4, 6));
+			expect(fr.mtime).toEqual(new Date(2021, 5, 7, 8, 9, 10));
+		});
+
+		it("should keep attributes when extracting atomically", async () => {
+			await extract({
+				specialEntries: "skip",
+				preserveAttributes: true,
+				atomic: true,
+			});
+
+			const fr = fs.statSync(path.join(outputDir, "fr/fr.json"));
+			expect(fr.mode & 0o7777).toBe(0o755);
+			expect(fr.mtime).toEqual(new Date(2021, 5, 7, 8, 9, 10));
+		});
+
+		it("should not touch attributes by default", async () => {
+			const startedAt = Date.now() - 1000;
+
+			await extract({ specialEntries: "skip" });
+
+			const en = fs.statSync(path.join(outputDir, "en/en.json"));
+			expect(en.mtime.getTime()).toBeGreaterThan(startedAt);
+		});
+	});
+});
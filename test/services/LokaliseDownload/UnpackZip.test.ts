@@ -0,0 +1,232 @@
+import fs from "node:fs";
+import path from "node:path";
+import { Readable } from "node:stream";
+import mockFs from "mock-fs";
+import type yauzl from "yauzl";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: unpackZip()", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const outputDir = "/output/dir";
+
+	let downloader: FakeLokaliseDownload;
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload({ apiKey }, { projectId });
+		mockFs({
+			[demoZipPath]: fs.readFileSync(demoZipPath),
+			[outputDir]: {},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	describe("Resource limits", () => {
+		it("should extract everything when limits are not exceeded", async () => {
+			const result = await downloader.unpackZip(demoZipPath, outputDir, {
+				maxEntries: 15,
+				maxTotalBytes: 229,
+				maxFileBytes: 31,
+				maxCompressionRatio: 2,
+			});
+
+			expect(result.files).toHaveLength(10);
+		});
+
+		it("should reject archives with too many entries before extracting", async () => {
+			const promise = downloader.unpackZip(demoZipPath, outputDir, {
+				maxEntries: 14,
+			});
+
+			await expect(promise).rejects.toThrow(
+				new LokaliseError(
+					"ZIP archive has 15 entries, exceeding maxEntries=14",
+					413,
+					{ reason: "zip limit exceeded", limit: "maxEntries", max: 14 },
+				),
+			);
+
+			expect(fs.readdirSync(outputDir)).toEqual([]);
+		});
+
+		it("should reject entries larger than maxFileBytes and clean up", async () => {
+			const promise = downloader.unpackZip(demoZipPath, outputDir, {
+				maxFileBytes: 30,
+			});
+
+			await expect(promise).rejects.toMatchObject({
+				code: 413,
+				details: {
+					limit: "maxFileBytes",
+					max: 30,
+					entry: "fr_FR/fr_FR.json",
+				},
+			});
+
+			expect(fs.existsSync(path.join(outputDir, "en/en.json"))).toBe(false);
+			expect(fs.existsSync(path.join(outputDir, "fr/fr.json"))).toBe(false);
+		});
+
+		it("should reject archives larger than maxTotalBytes and clean up", async () => {
+			const promise = downloader.unpackZip(demoZipPath, outputDir, {
+				maxTotalBytes: 100,
+			});
+
+			await expect(promise).rejects.toThrow(
+				"ZIP archive exceeds maxTotalBytes=100",
+			);
+
+			expect(fs.existsSync(path.join(outputDir, "en/en.json"))).toBe(false);
+		});
+
+		it("should keep files that existed before the extraction", async () => {
+			mockFs({
+				[demoZipPath]: fs.readFileSync(demoZipPath),
+				[outputDir]: {
+					en: { "en.json": "old en" },
+					fr: { "fr.json": "old fr" },
+					"notes.txt": "keep me",
+				},
+			});
+
+			const promise = downloader.unpackZip(demoZipPath, outputDir, {
+				maxTotalBytes: 100,
+			});
+
+			await expect(promise).rejects.toThrow(
+				"ZIP archive exceeds maxTotalBytes=100",
+			);
+
+			expect(fs.existsSync(path.join(outputDir, "en/no_filename.json"))).toBe(
+				false,
+			);
+			expect(fs.existsSync(path.join(outputDir, "fr/no_filename.json"))).toBe(
+				false,
+			);
+			expect(fs.existsSync(path.join(outputDir, "en/en.json"))).toBe(true);
+			expect(fs.existsSync(path.join(outputDir, "fr/fr.json"))).toBe(true);
+			expect(fs.readFileSync(path.join(outputDir, "notes.txt"), "utf8")).toBe(
+				"keep me",
+			);
+		});
+
+		it("should reject entries exceeding maxCompressionRatio", async () => {
+			await expect(
+				downloader.unpackZip(demoZipPath, outputDir, {
+					maxCompressionRatio: 1.1,
+				}),
+			).rejects.toThrow(
+				"ZIP entry en/no_filename.json exceeds maxCompressionRatio=1.1",
+			);
+		});
+
+		it("should reject invalid limit values", async () => {
+			await expect(
+				downloader.unpackZip(demoZipPath, outputDir, { maxEntries: 0 }),
+			).rejects.toThrow(
+				new LokaliseError("maxEntries must be a positive number."),
+			);
+		});
+	});
+
+	describe("Streaming enforcement", () => {
+		const makeZipfile = (content: Buffer): yauzl.ZipFile =>
+			({
+				openReadStream: vi.fn(
+					(
+						_: yauzl.Entry,
+						cb: (err: Error | null, stream?: Readable) => void,
+					) => {
+						cb(null, Readable.from([content]));
+					},
+				),
+			}) as unknown as yauzl.ZipFile;
+
+		it("should abort when actual bytes exceed the declared size limit", async () => {
+			const entry = {
+				fileName: "en.json",
+				uncompressedSize: 10,
+				compressedSize: 10,
+			} as unknown as yauzl.Entry;
+
+			const promise = downloader.handleZipEntry(
+				entry,
+				makeZipfile(Buffer.alloc(50, "a")),
+				outputDir,
+				{ extractParams: { maxFileBytes: 20 }, totalBytes: 0 },
+			);
+
+			await expect(promise).rejects.toThrow(
+				"ZIP entry en.json exceeds maxFileBytes=20",
+			);
+			expect(fs.existsSync(path.join(outputDir, "en.json"))).toBe(false);
+		});
+
+		it("should leave an existing file intact when its entry is aborted", async () => {
+			fs.writeFileSync(path.join(outputDir, "en.json"), "old");
+			const entry = {
+				fileName: "en.json",
+				uncompressedSize: 10,
+				compressedSize: 10,
+			} as unknown as yauzl.Entry;
+
+			const promise = downloader.handleZipEntry(
+				entry,
+				makeZipfile(Buffer.alloc(50, "a")),
+				outputDir,
+				{ extractParams: { maxFileBytes: 20 }, totalBytes: 0 },
+			);
+
+			await expect(promise).rejects.toThrow(
+				"ZIP entry en.json exceeds maxFileBytes=20",
+			);
+			expect(fs.readFileSync(path.join(outputDir, "en.json"), "utf8")).toBe(
+				"old",
+			);
+			expect(fs.readdirSync(outputDir)).toEqual(["en.json"]);
+		});
+
+		it("should track total bytes across entries", async () => {
+			const entry = {
+				fileName: "fr.json",
+				uncompressedSize: 10,
+				compressedSize: 10,
+			} as unknown as yauzl.Entry;
+			const context = { extractParams: { maxTotalBytes: 15 }, totalBytes: 0 };
+
+			await downloader.handleZipEntry(
+				entry,
+				makeZipfile(Buffer.alloc(10, "a")),
+				outputDir,
+				context,
+			);
+			expect(context.totalBytes).toBe(10);
+
+			await expect(
+				downloader.handleZipEntry(
+					entry,
+					makeZipfile(Buffer.alloc(10, "a")),
+					outputDir,
+					context,
+				),
+			).rejects.toThrow("ZIP archive exceeds maxTotalBytes=15");
+		});
+	});
+});
@@ -0,0 +1,176 @@
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import { FakeLokaliseDownload } from "../../fixtures/fake_classes/FakeLokaliseDownload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseDownload: unpackZipAtomically()", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	const demoZipPath = path.resolve(
+		__dirname,
+		"../../fixtures/demo_archive.zip",
+	);
+	const outputDir = "/output/dir";
+
+	let downloader: FakeLokaliseDownload;
+
+	beforeEach(() => {
+		downloader = new FakeLokaliseDownload({ apiKey }, { projectId });
+		mockFs({
+			[demoZipPath]: fs.readFileSync(demoZipPath),
+			[outputDir]: {
+				en: { "en.json": '{"old":"value"}' },
+				"keep.txt": "untouched",
+			},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mockFs.restore();
+	});
+
+	const leftovers = () =>
+		fs.readdirSync("/output").filter((name) => name !== "dir");
+
+	describe("Success Cases", () => {
+		it("should swap extracted files into the output directory", async () => {
+			const result = await downloader.unpackZipAtomically(
+				demoZipPath,
+				outputDir,
+			);
+
+			expect(result.files).toHaveLength(10);
+			expect(result.files).toContainEqual({
+				entryName: "en/en.json",
+				path: path.join(outputDir, "en/en.json"),
+				size: 29,
+			});
+			expect(result.skipped).toHaveLength(5);
+
+			expect(
+				JSON.parse(fs.readFileSync(path.join(outputDir, "en/en.json"), "utf8")),
+			).not.toEqual({ old: "value" });
+			expect(fs.existsSync(path.join(outputDir, "ja/ja.json"))).toBe(true);
+			expect(fs.readFileSync(path.join(outputDir, "keep.txt"), "utf8")).toBe(
+				"untouched",
+			);
+
+			expect(leftovers()).toEqual([]);
+		});
+
+		it("should be used by downloadTranslations when atomic is enabled", async () => {
+			vi.spyOn(downloader, "getTranslationsBundle").mockResolvedValue({
+				bundle_url: "https://example.com/translations.zip",
+				project_id: projectId,
+			});
+			vi.spyOn(downloader, "downloadZip").mockResolvedValue(demoZipPath);
+			vi.spyOn(fs.promises, "unlink").mockResolvedValue(undefined);
+			const atomicSpy = vi.spyOn(downloader, "unpackZipAtomically");
+
+			const result = await downloader.downloadTranslations({
+				downloadFileParams: { format: "json" },
+				extractParams: { outputDir, atomic: true },
+			});
+
+			expect(atomicSpy).toHaveBeenCalledWith(
+				demoZipPath,
+				outputDir,
+				{ outputDir, atomic: true },
+				{},
+			);
+			expect(result.files).toHaveLength(10);
+		});
+	});
+
+	describe("Error Cases", () => {
+		it("should leave the output directory untouched if extraction fails", async () => {
+			await expect(
+				downloader.unpackZipAtomically(demoZipPath, outputDir, {
+					maxTotalBytes: 100,
+				}),
+			).rejects.toThrow("ZIP archive exceeds maxTotalBytes=100");
+
+			expect(fs.readFileSync(path.join(outputDir, "en/en.json"), "utf8")).toBe(
+				'{"old":"value"}',
+			);
+			expect(fs.existsSync(path.join(outputDir, "fr"))).toBe(false);
+			expect(leftovers()).toEqual([]);
+		});
+
+		it("should restore previous files if the swap fails midway", async () => {
+			const realRename = fs.promises.rename.bind(fs.promises);
+			let calls = 0;
+			vi.spyOn(fs.promises, "rename").mockImplementation(async (from, to) => {
+				calls++;
+				if (calls === 6) {
+					throw new Error("Disk is full");
+				}
+				return realRename(from, to);
+			});
+
+			await expect(
+				downloader.unpackZipAtomically(demoZipPath, outputDir),
+			).rejects.toThrow("Disk is full");
+
+			expect(fs.readFileSync(path.join(outputDir, "en/en.json"), "utf8")).toBe(
+				'{"old":"value"}',
+			);
+			expect(fs.existsSync(path.join(outputDir, "en/no_filename.json"))).toBe(
+				false,
+			);
+			expect(fs.existsSync(path.join(outputDir, "fr"))).toBe(false);
+			expect(fs.readdirSync(outputDir).sort()).toEqual(["en", "keep.txt"]);
+			expect(leftovers()).toEqual([]);
+		});
+
+		it("should keep backups if the rollback fails", async () => {
+			const realRename = fs.promises.rename.bind(fs.promises);
+			let calls = 0;
+			vi.spyOn(fs.promises, "rename").mockImplementation(async (from, to) => {
+				calls++;
+				if (calls >= 4) {
+					throw new Error("Disk is full");
+				}
+				return realRename(from, to);
+			});
+			const loggerSpy = vi.spyOn(downloader, "logMsg");
+
+			await expect(
+				downloader.unpackZipAtomically(demoZipPath, outputDir),
+			).rejects.toThrow("Disk is full");
+
+			expect(loggerSpy).toHaveBeenCalledWith(
+				"error",
+				expect.stringMatching(/^Rollback failed, original files are kept in/),
+				expect.any(Error),
+			);
+			expect(leftovers()).toEqual([
+				expect.stringMatching(/^\.dir\.lokalise-backup-/),
+			]);
+		});
+
+		it("should reject staged files that were not fully written", async () => {
+			await expect(
+				downloader.validateStagedFiles({
+					files: [
+						{
+							entryName: "en/en.json",
+							path: path.join(outputDir, "en/en.json"),
+							size: 1,
+						},
+					],
+					skipped: [],
+				}),
+			).rejects.toThrow("Staged file is missing or incomplete: en/en.json");
+		});
+	});
+});
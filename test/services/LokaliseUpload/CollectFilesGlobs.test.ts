@@ -0,0 +1,203 @@
+import fs from "node:fs";
+import path from "node:path";
+import mock from "mock-fs";
+import { FakeLokaliseUpload } from "../../fixtures/fake_classes/FakeLokaliseUpload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseUpload: collectFiles() with globs", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	let lokaliseUpload: FakeLokaliseUpload;
+
+	beforeEach(() => {
+		lokaliseUpload = new FakeLokaliseUpload({ apiKey }, { projectId });
+
+		mock({
+			"./repo": {
+				"package.json": "{}",
+				packages: {
+					app: {
+						locales: {
+							"en.json": "{}",
+							"fr.json": "{}",
+							"en.draft.json": "{}",
+						},
+						node_modules: {
+							dep: { locales: { "en.json": "{}" } },
+						},
+					},
+					web: {
+						i18n: { "de.yml": "de:", "notes.txt": "" },
+					},
+					legacy: {
+						locales: { "en.json": "{}" },
+					},
+				},
+			},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mock.restore();
+	});
+
+	const collect = (include?: string | string[], exclude?: string | string[]) =>
+		lokaliseUpload.collectFiles({
+			inputDirs: ["./repo"],
+			...(include === undefined ? {} : { include }),
+			...(exclude === undefined ? {} : { exclude }),
+		});
+
+	const relative = (files: string[]) =>
+		files.map((file) =>
+			path.relative(path.resolve("./repo"), file).split(path.sep).join("/"),
+		);
+
+	const readDirs = () => {
+		const spy = vi.spyOn(fs.promises, "readdir");
+		return () =>
+			spy.mock.calls.map((call) =>
+				path
+					.relative(path.resolve("./repo"), String(call[0]))
+					.split(path.sep)
+					.join("/"),
+			);
+	};
+
+	describe("Include", () => {
+		it("should match recursive patterns relative to the input directory", async () => {
+			const files = await collect("**/locales/*.json");
+
+			expect(relative(files)).toEqual([
+				"packages/app/locales/en.draft.json",
+				"packages/app/locales/en.json",
+				"packages/app/locales/fr.json",
+				"packages/app/node_modules/dep/locales/en.json",
+				"packages/legacy/locales/en.json",
+			]);
+		});
+
+		it("should expand braces, including alternatives with slashes", async () => {
+			const files = await collect([
+				"packages/{app/locales,web/i18n}/{en,de}.{json,yml}",
+			]);
+
+			expect(relative(files)).toEqual([
+				"packages/app/locales/en.json",
+				"packages/web/i18n/de.yml",
+			]);
+		});
+
+		it("should let later negated patterns carve out exceptions", async () => {
+			const files = await collect([
+				"packages/*/locales/*.json",
+				"!**/*.draft.json",
+				"!packages/legacy/**",
+			]);
+
+			expect(relative(files)).toEqual([
+				"packages/app/locales/en.json",
+				"packages/app/locales/fr.json",
+			]);
+		});
+
+		it("should ignore a leading ./ and empty patterns", async () => {
+			const files = await collect(["./packages/web/**", " "]);
+
+			expect(relative(files)).toEqual([
+				"packages/web/i18n/de.yml",
+				"packages/web/i18n/notes.txt",
+			]);
+		});
+
+		it("should not read directories that cannot match", async () => {
+			const dirs = readDirs();
+
+			await collect("packages/app/locales/*.json");
+
+			expect(dirs()).toEqual([
+				"",
+				"packages",
+				"packages/app",
+				"packages/app/locales",
+			]);
+		});
+	});
+
+	describe("Exclude", () => {
+		it("should exclude matching files", async () => {
+			const files = await collect("**/*.json", ["*.json", "**/*.draft.*"]);
+
+			expect(relative(files)).toEqual([
+				"packages/app/locales/en.json",
+				"packages/app/locales/fr.json",
+				"packages/app/node_modules/dep/locales/en.json",
+				"packages/legacy/locales/en.json",
+			]);
+		});
+
+		it("should prune directories covered by a /** pattern", async () => {
+			const dirs = readDirs();
+
+			const files = await collect(undefined, "**/node_modules/**");
+
+			expect(relative(files)).not.toContain(
+				"packages/app/node_modules/dep/locales/en.json",
+			);
+			expect(dirs()).not.toContain("packages/app/node_modules");
+		});
+
+		it("should keep traversing when a later negated pattern may match inside", async () => {
+			const files = await collect("**/*.json", [
+				"packages/**",
+				"!packages/legacy/**",
+			]);
+
+			expect(relative(files)).toEqual([
+				"package.json",
+				"packages/legacy/locales/en.json",
+			]);
+		});
+	});
+
+	it("should combine globs with the regex options", async () => {
+		const files = await lokaliseUpload.collectFiles({
+			inputDirs: ["./repo/packages"],
+			extensions: [".json"],
+			fileNamePattern: "^en",
+			excludePatterns: ["legacy"],
+			include: "*/locales/**",
+			exclude: "**/*.draft.json",
+		});
+
+		expect(files).toEqual([
+			path.resolve("./repo/packages/app/locales/en.json"),
+		]);
+	});
+
+	it("should match globs relative to each input directory", async () => {
+		const files = await lokaliseUpload.collectFiles({
+			inputDirs: ["./repo/packages/app", "./repo/packages/web"],
+			include: ["locales/en.json", "i18n/*.yml"],
+		});
+
+		expect(files).toEqual([
+			path.resolve("./repo/packages/app/locales/en.json"),
+			path.resolve("./repo/packages/web/i18n/de.yml"),
+		]);
+	});
+
+	it("should reject patterns that are not strings", async () => {
+		await expect(collect([42 as unknown as string])).rejects.toThrow(
+			"Invalid glob pattern: 42",
+		);
+	});
+});
@@ -0,0 +1,161 @@
+import fs from "node:fs";
+import path from "node:path";
+import mock from "mock-fs";
+import { LokaliseUpload } from "../../../lib/index.js";
+import { FakeLokaliseUpload } from "../../fixtures/fake_classes/FakeLokaliseUpload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseUpload: collectFiles() with ignore files", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	let lokaliseUpload: FakeLokaliseUpload;
+
+	beforeEach(() => {
+		lokaliseUpload = new FakeLokaliseUpload(
+			{ apiKey },
+			{ projectId, logThreshold: "silent" },
+		);
+
+		mock({
+			"./repo": {
+				".gitignore": "node_modules/\n/dist\n*.tmp.json\n",
+				".lokaliseignore": "generated/\n!keep.tmp.json\n",
+				"keep.tmp.json": "{}",
+				"scratch.tmp.json": "{}",
+				locales: {
+					"en.json": "{}",
+					".gitignore": "fr.json\n",
+					"fr.json": "{}",
+					generated: { "de.json": "{}" },
+				},
+				node_modules: { dep: { "en.json": "{}" } },
+				dist: { "en.json": "{}" },
+				packages: {
+					app: {
+						dist: { "en.json": "{}" },
+						".lokaliseignore": "/*\n!/locales/\n",
+						"notes.json": "{}",
+						locales: { "ja.json": "{}" },
+					},
+				},
+			},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mock.restore();
+	});
+
+	const relative = (files: string[]) =>
+		files.map((file) =>
+			path.relative(path.resolve("./repo"), file).split(path.sep).join("/"),
+		);
+
+	it("should not honor ignore files by default", async () => {
+		const files = await lokaliseUpload.collectFiles({
+			inputDirs: ["./repo"],
+		});
+
+		expect(relative(files)).toContain("node_modules/dep/en.json");
+		expect(relative(files)).toContain(".gitignore");
+	});
+
+	it("should honor .gitignore and .lokaliseignore files found during traversal", async () => {
+		const files = await lokaliseUpload.collectFiles({
+			inputDirs: ["./repo"],
+			ignoreFiles: true,
+		});
+
+		expect(relative(files)).toEqual([
+			"keep.tmp.json",
+			"locales/en.json",
+			"packages/app/locales/ja.json",
+		]);
+	});
+
+	it("should skip ignored directories without reading them", async () => {
+		const readdir = vi.spyOn(fs.promises, "readdir");
+
+		await lokaliseUpload.collectFiles({
+			inputDirs: ["./repo"],
+			ignoreFiles: true,
+		});
+
+		const dirs = readdir.mock.calls.map((call) => String(call[0]));
+		expect(dirs).not.toContain(path.resolve("./repo/node_modules"));
+		expect(dirs).not.toContain(path.resolve("./repo/dist"));
+		expect(dirs).not.toContain(path.resolve("./repo/locales/generated"));
+	});
+
+	it("should support custom ignore file names", async () => {
+		const files = await lokaliseUpload.collectFiles({
+			inputDirs: ["./repo/locales"],
+			ignoreFiles: [".lokaliseignore"],
+		});
+
+		expect(relative(files)).toEqual([
+			"locales/.gitignore",
+			"locales/en.json",
+			"locales/fr.json",
+			"locales/generated/de.json",
+		]);
+	});
+
+	it("should combine ignore files with globs", async () => {
+		const files = await lokaliseUpload.collectFiles({
+			inputDirs: ["./repo"],
+			ignoreFiles: true,
+			include: "**/locales/**",
+		});
+
+		expect(relative(files)).toEqual([
+			"locales/en.json",
+			"packages/app/locales/ja.json",
+		]);
+	});
+
+	it("should skip unreadable ignore files with a warning", async () => {
+		const readFile = fs.promises.readFile;
+		vi.spyOn(fs.promises, "readFile").mockImplementation((file, options) =>
+			String(file).endsWith(".gitignore")
+				? Promise.reject(new Error("EACCES"))
+				: readFile(file, options),
+		);
+		const logSpy = vi.spyOn(lokaliseUpload, "logMsg");
+
+		const files = await lokaliseUpload.collectFiles({
+			inputDirs: ["./repo/locales"],
+			ignoreFiles: true,
+		});
+
+		expect(relative(files)).toContain("locales/fr.json");
+		expect(logSpy).toHaveBeenCalledWith(
+			"warn",
+			`Skipping unreadable ignore file: ${path.resolve("./repo/locales/.gitignore")}`,
+		);
+	});
+
+	it.each([[""], ["nested/.gitignore"], [".."]])(
+		"should reject the ignore file name %j",
+		async (name) => {
+			await expect(
+				lokaliseUpload.collectFiles({ ignoreFiles: [name] }),
+			).rejects.toThrow(`Invalid ignore file name: ${name}`);
+		},
+	);
+
+	it("should expose the default ignore file names", () => {
+		expect(LokaliseUpload.DEFAULT_IGNORE_FILES).toEqual([
+			".gitignore",
+			".lokaliseignore",
+		]);
+	});
+});
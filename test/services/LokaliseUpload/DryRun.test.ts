@@ -0,0 +1,168 @@
+import path from "node:path";
+import mock from "mock-fs";
+import { FakeLokaliseUpload } from "../../fixtures/fake_classes/FakeLokaliseUpload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseUpload: uploadTranslations() dry run", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	let lokaliseUpload: FakeLokaliseUpload;
+
+	beforeEach(() => {
+		lokaliseUpload = new FakeLokaliseUpload(
+			{ apiKey },
+			{ projectId, logThreshold: "silent" },
+		);
+		vi.spyOn(lokaliseUpload, "uploadSingleFile");
+		vi.spyOn(lokaliseUpload, "pollProcesses");
+
+		mock({
+			"./locales": {
+				"en.json": '{"key": "value"}',
+				"fr.json": '{"clé": "valeur"}',
+				".json": "{}",
+				web: { "en.json": "{}" },
+				mobile: { "en.json": "{}" },
+			},
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mock.restore();
+	});
+
+	it("should return a plan without uploading or polling", async () => {
+		const result = await lokaliseUpload.uploadTranslations({
+			dryRun: true,
+			collectFileParams: { include: ["en.json", "fr.json"] },
+			uploadFileParams: { replace_modified: true, tags: ["ci"] },
+			processUploadFileParams: { pollStatuses: true },
+		});
+
+		expect(lokaliseUpload.uploadSingleFile).not.toHaveBeenCalled();
+		expect(lokaliseUpload.pollProcesses).not.toHaveBeenCalled();
+		expect(result).toEqual({
+			processes: [],
+			errors: [],
+			plan: {
+				files: [
+					{
+						file: path.resolve("locales/en.json"),
+						filename: "locales/en.json",
+						language: "en",
+						size: 16,
+						uploadFileParams: {
+							replace_modified: true,
+							tags: ["ci"],
+							filename: "locales/en.json",
+							lang_iso: "en",
+						},
+					},
+					{
+						file: path.resolve("locales/fr.json"),
+						filename: "locales/fr.json",
+						language: "fr",
+						size: 18,
+						uploadFileParams: {
+							replace_modified: true,
+							tags: ["ci"],
+							filename: "locales/fr.json",
+							lang_iso: "fr",
+						},
+					},
+				],
+				problems: [],
+			},
+		});
+	});
+
+	it("should use the configured inferers", async () => {
+		const result = await lokaliseUpload.uploadTranslations({
+			dryRun: true,
+			collectFileParams: { include: "*/en.json" },
+			processUploadFileParams: {
+				filenameInferer: (file) => `%LANG_ISO%/${path.basename(file)}`,
+				languageInferer: (file) =>
+					file.includes("mobile") ? "en_US" : "en_GB",
+			},
+		});
+
+		expect(
+			result.plan?.files.map(({ filename, language }) => ({
+				filename,
+				language,
+			})),
+		).toEqual([
+			{ filename: "%LANG_ISO%/en.json", language: "en_US" },
+			{ filename: "%LANG_ISO%/en.json", language: "en_GB" },
+		]);
+		expect(result.plan?.problems).toEqual([]);
+	});
+
+	it("should flag duplicate filename/language pairs and empty language codes", async () => {
+		const logSpy = vi.spyOn(lokaliseUpload, "logMsg");
+
+		const result = await lokaliseUpload.uploadTranslations({
+			dryRun: true,
+			processUploadFileParams: {
+				filenameInferer: (file) => path.basename(file),
+			},
+		});
+
+		expect(result.plan?.files).toHaveLength(5);
+		expect(result.plan?.problems).toEqual([
+			{
+				reason: "empty language",
+				message: `Empty language code inferred for ${path.resolve("locales/.json")}`,
+				files: [path.resolve("locales/.json")],
+			},
+			{
+				reason: "duplicate",
+				message: `Duplicate filename/language pair en.json (en): ${[
+					path.resolve("locales/en.json"),
+					path.resolve("locales/mobile/en.json"),
+					path.resolve("locales/web/en.json"),
+				].join(", ")}`,
+				files: [
+					path.resolve("locales/en.json"),
+					path.resolve("locales/mobile/en.json"),
+					path.resolve("locales/web/en.json"),
+				],
+			},
+		]);
+		expect(logSpy).toHaveBeenCalledWith(
+			"warn",
+			expect.stringContaining("Duplicate filename/language pair en.json"),
+		);
+	});
+
+	it("should report files that cannot be processed", async () => {
+		vi.spyOn(lokaliseUpload, "processFile").mockImplementation(async (file) => {
+			if (file.endsWith("fr.json")) {
+				throw new Error("EACCES");
+			}
+			return { data: "e30=", filename: "en.json", lang_iso: "en" };
+		});
+
+		const result = await lokaliseUpload.uploadTranslations({
+			dryRun: true,
+			collectFileParams: { include: ["en.json", "fr.json"] },
+		});
+
+		expect(result.plan?.files.map((item) => item.file)).toEqual([
+			path.resolve("locales/en.json"),
+		]);
+		expect(result.plan?.files[0]?.size).toBe(2);
+		expect(result.errors).toEqual([
+			{ file: path.resolve("locales/fr.json"), error: new Error("EACCES") },
+		]);
+	});
+});
@@ -0,0 +1,285 @@
+import path from "node:path";
+import mock from "mock-fs";
+import { MockAgent, setGlobalDispatcher } from "undici";
+import { LokaliseError } from "../../../lib/errors/LokaliseError.js";
+import type { LanguagePreflightMode } from "../../../lib/interfaces/index.js";
+import { FakeLokaliseUpload } from "../../fixtures/fake_classes/FakeLokaliseUpload.js";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseUpload: language mapping and preflight", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	let lokaliseUpload: FakeLokaliseUpload;
+	let mockAgent: MockAgent;
+
+	const file = (name: string) => path.resolve("locales", name);
+
+	beforeAll(() => {
+		mockAgent = new MockAgent();
+		setGlobalDispatcher(mockAgent);
+		mockAgent.disableNetConnect();
+	});
+
+	afterAll(() => {
+		mockAgent.close();
+	});
+
+	beforeEach(() => {
+		lokaliseUpload = new FakeLokaliseUpload(
+			{ apiKey },
+			{ projectId, logThreshold: "silent" },
+		);
+
+		mock({
+			"./locales": {
+				"en_US.json": "{}",
+				"zh-Hans.json": "{}",
+				"fr.json": "{}",
+				"de_AT.json": "{}",
+				"xx.json": "{}",
+			},
+		});
+
+		vi.spyOn(lokaliseUpload, "fetchProjectLanguages").mockResolvedValue([
+			"en",
+			"zh_CN",
+			"fr",
+		]);
+		vi.spyOn(lokaliseUpload, "uploadSingleFile").mockImplementation(
+			async ({ filename }) =>
+				({ process_id: filename, status: "queued" }) as Awaited<
+					ReturnType<FakeLokaliseUpload["uploadSingleFile"]>
+				>,
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mock.restore();
+	});
+
+	const languageMapping = { en_US: "en", "zh-Hans": "zh_CN" };
+
+	describe("Language mapping", () => {
+		it("should map inferred codes and leave others unchanged", async () => {
+			const en = await lokaliseUpload.processFile(
+				file("en_US.json"),
+				process.cwd(),
+				{ languageMapping },
+			);
+			const fr = await lokaliseUpload.processFile(
+				file("fr.json"),
+				process.cwd(),
+				{ languageMapping },
+			);
+
+			expect(en.lang_iso).toBe("en");
+			expect(fr.lang_iso).toBe("fr");
+		});
+
+		it("should map codes returned by a custom inferer", async () => {
+			const result = await lokaliseUpload.processFile(
+				file("fr.json"),
+				process.cwd(),
+				{ languageInferer: () => "zh-Hans", languageMapping },
+			);
+
+			expect(result.lang_iso).toBe("zh_CN");
+		});
+
+		it("should ignore inherited properties of the mapping", async () => {
+			const result = await lokaliseUpload.processFile(
+				file("fr.json"),
+				process.cwd(),
+				{ languageInferer: () => "toString", languageMapping: {} },
+			);
+
+			expect(result.lang_iso).toBe("toString");
+		});
+
+		it("should not fetch project languages without a preflight", async () => {
+			const { processes } = await lokaliseUpload.uploadTranslations({
+				processUploadFileParams: { languageMapping },
+			});
+
+			expect(lokaliseUpload.fetchProjectLanguages).not.toHaveBeenCalled();
+			expect(lokaliseUpload.uploadSingleFile).toHaveBeenCalledWith(
+				expect.objectContaining({
+					filename: "locales/zh-Hans.json",
+					lang_iso: "zh_CN",
+				}),
+			);
+			expect(processes).toHaveLength(5);
+		});
+	});
+
+	describe("Preflight", () => {
+		it("should report all unknown languages before uploading anything", async () => {
+			await expect(
+				lokaliseUpload.uploadTranslations({
+					processUploadFileParams: {
+						languageMapping,
+						languagePreflight: "error",
+					},
+				}),
+			).rejects.toThrow(
+				new LokaliseError(
+					`Languages not found in the project: de_AT (${file("de_AT.json")}); xx (${file("xx.json")})`,
+					422,
+					{ reason: "unknown languages", languages: "de_AT,xx", files: 2 },
+				),
+			);
+
+			expect(lokaliseUpload.uploadSingleFile).not.toHaveBeenCalled();
+		});
+
+		it("should skip files with unknown languages", async () => {
+			const logSpy = vi.spyOn(lokaliseUpload, "logMsg");
+
+			const result = await lokaliseUpload.uploadTranslations({
+				processUploadFileParams: {
+					languageInferer: (filePath) =>
+						path.basename(filePath, ".json").replace("-", "_"),
+					languageMapping: { en_US: "en", zh_Hans: "zh_CN" },
+					languagePreflight: "skip",
+				},
+			});
+
+			expect(result.processes.map((p) => p.process_id).sort()).toEqual([
+				"locales/en_US.json",
+				"locales/fr.json",
+				"locales/zh-Hans.json",
+			]);
+			expect(result.errors).toEqual([]);
+			expect(result.unknownLanguages).toEqual([
+				{ language: "de_AT", files: [file("de_AT.json")] },
+				{ language: "xx", files: [file("xx.json")] },
+			]);
+			expect(logSpy).toHaveBeenCalledWith(
+				"warn",
+				`Skipping 1 file(s) with language xx not found in the project: ${file("xx.json")}`,
+			);
+		});
+
+		it("should process each file only once", async () => {
+			const processSpy = vi.spyOn(lokaliseUpload, "processFile");
+
+			await lokaliseUpload.uploadTranslations({
+				processUploadFileParams: { languagePreflight: "skip" },
+			});
+
+			expect(processSpy).toHaveBeenCalledTimes(5);
+			expect(lokaliseUpload.uploadSingleFile).toHaveBeenCalledTimes(1);
+		});
+
+		it("should keep errors of files that could not be processed", async () => {
+			const processFile = lokaliseUpload.processFile.bind(lokaliseUpload);
+			vi.spyOn(lokaliseUpload, "processFile").mockImplementation(
+				async (filePath, root, params) => {
+					if (filePath.endsWith("fr.json")) {
+						throw new Error("EACCES");
+					}
+					return processFile(filePath, root, params);
+				},
+			);
+
+			const result = await lokaliseUpload.uploadTranslations({
+				processUploadFileParams: { languageMapping, languagePreflight: "skip" },
+			});
+
+			expect(result.errors).toEqual([
+				{ file: file("fr.json"), error: new Error("EACCES") },
+			]);
+			expect(result.processes).toHaveLength(2);
+		});
+
+		it("should report unknown languages as plan problems in dry-run mode", async () => {
+			const result = await lokaliseUpload.uploadTranslations({
+				dryRun: true,
+				collectFileParams: { include: ["fr.json", "xx.json"] },
+				processUploadFileParams: { languagePreflight: "error" },
+			});
+
+			expect(result.plan?.files).toHaveLength(2);
+			expect(result.plan?.problems).toEqual([
+				{
+					reason: "unknown language",
+					message: `Language xx is not in the project: ${file("xx.json")}`,
+					files: [file("xx.json")],
+				},
+			]);
+		});
+
+		it("should fetch every page of project languages", async () => {
+			vi.mocked(lokaliseUpload.fetchProjectLanguages).mockRestore();
+			const mockPool = mockAgent.get("https://api.lokalise.com");
+
+			for (const [page, codes] of [
+				[1, ["en", "fr"]],
+				[2, ["ja"]],
+			] as const) {
+				mockPool
+					.intercept({
+						path: `/api2/projects/${projectId}/languages?page=${page}&limit=500`,
+						method: "GET",
+					})
+					.reply(
+						200,
+						{
+							project_id: projectId,
+							languages: codes.map((lang_iso, index) => ({
+								lang_id: page * 10 + index,
+								lang_iso,
+							})),
+						},
+						{
+							headers: {
+								"x-pagination-total-count": "3",
+								"x-pagination-page-count": "2",
+								"x-pagination-limit": "500",
+								"x-pagination-page": String(page),
+							},
+						},
+					);
+			}
+
+			expect(await lokaliseUpload.fetchProjectLanguages()).toEqual([
+				"en",
+				"fr",
+				"ja",
+			]);
+		});
+	});
+
+	it.each([
+		[
+			{ languagePreflight: "warn" as LanguagePreflightMode },
+			"Unknown language preflight mode: warn",
+		],
+		[
+			{ languageMapping: { en_US: " " } },
+			"languageMapping must map language codes to non-empty strings.",
+		],
+		[
+			{ languageMapping: null as unknown as Record<string, string> },
+			"languageMapping must map language codes to non-empty strings.",
+		],
+	])(
+		"should validate the settings %o",
+		async (processUploadFileParams, message) => {
+			await expect(
+				lokaliseUpload.uploadTranslations({ processUploadFileParams }),
+			).rejects.toThrow(message);
+			expect(lokaliseUpload.uploadSingleFile).not.toHaveBeenCalled();
+		},
+	);
+});
@@ -0,0 +1,185 @@
+import mock from "mock-fs";
+import type { LanguageStrategy } from "../../../lib/interfaces/index.js";
+import { FakeLokaliseUpload } from "../../fixtures/fake_classes/FakeLokaliseUpload.js";
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "../../setup.js";
+
+describe("LokaliseUpload: language strategies", () => {
+	const projectId = "803826145ba90b42d5d860.46800099";
+	const apiKey = process.env.API_KEY as string;
+	let lokaliseUpload: FakeLokaliseUpload;
+
+	beforeEach(() => {
+		mock({
+			"/project": {
+				locales: { fr: { "common.json": "{}" } },
+				i18n: {
+					"common_app.properties": "",
+					"foo-bar.json": "{}",
+					"messages_fr.properties": "",
+					"messages_en_US.properties": "",
+				},
+				res: {
+					"values-pt-rBR": { "strings.xml": "<resources/>" },
+					values: { "strings.xml": "<resources/>" },
+				},
+			},
+		});
+
+		lokaliseUpload = new FakeLokaliseUpload(
+			{ apiKey },
+			{ projectId, logThreshold: "silent" },
+		);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		mock.restore();
+	});
+
+	it("should infer the language from the path relative to the project root", async () => {
+		const result = await lokaliseUpload.processFile(
+			"/project/locales/fr/common.json",
+			"/project",
+			{ languageStrategy: "directory" },
+		);
+
+		expect(result.lang_iso).toBe("fr");
+		expect(result.filename).toBe("locales/fr/common.json");
+	});
+
+	it("should match regular expressions against the relative path", async () => {
+		const result = await lokaliseUpload.processFile(
+			"/project/locales/fr/common.json",
+			"/project",
+			{ languageStrategy: /^locales\/([^/]+)\// },
+		);
+
+		expect(result.lang_iso).toBe("fr");
+	});
+
+	it("should prefer a custom language inferer", async () => {
+		const result = await lokaliseUpload.processFile(
+			"/project/res/values-pt-rBR/strings.xml",
+			"/project",
+			{ languageStrategy: "android", languageInferer: () => "pt" },
+		);
+
+		expect(result.lang_iso).toBe("pt");
+	});
+
+	it("should apply the strategy when the language inferer returns nothing", async () => {
+		const result = await lokaliseUpload.processFile(
+			"/project/res/values-pt-rBR/strings.xml",
+			"/project",
+			{ languageStrategy: "android", languageInferer: () => " " },
+		);
+
+		expect(result.lang_iso).toBe("pt_BR");
+	});
+
+	it("should fall back to the filename when the strategy does not match", async () => {
+		const logSpy = vi.spyOn(lokaliseUpload, "logMsg");
+
+		const result = await lokaliseUpload.processFile(
+			"/project/res/values/strings.xml",
+			"/project",
+			{ languageStrategy: "android" },
+		);
+
+		expect(result.lang_iso).toBe("strings");
+		expect(logSpy).toHaveBeenCalledWith(
+			"warn",
+			"Language strategy android did not match res/values/strings.xml, falling back to the filename.",
+		);
+	});
+
+	it("should be used for upload plans", async () => {
+		const result = await lokaliseUpload.uploadTranslations({
+			dryRun: true,
+			collectFileParams: { inputDirs: ["/project/res"] },
+			processUploadFileParams: { languageStrategy: "android" },
+		});
+
+		expect(result.plan?.files.map((file) => file.language)).toEqual([
+			"pt_BR",
+			"strings",
+		]);
+	});
+
+	describe("suffix strategy", () => {
+		beforeEach(() => {
+			vi.spyOn(lokaliseUpload, "fetchProjectLanguages").mockResolvedValue([
+				"fr",
+				"en",
+			]);
+		});
+
+		it("should fall back to the filename for suffixes that are not project languages", async () => {
+			const logSpy = vi.spyOn(lokaliseUpload, "logMsg");
+
+			const result = await lokaliseUpload.uploadTranslations({
+				dryRun: true,
+				collectFileParams: { inputDirs: ["/project/i18n"] },
+				processUploadFileParams: { languageStrategy: "suffix" },
+			});
+
+			expect(result.plan?.files.map((file) => file.language)).toEqual([
+				"common_app",
+				"foo-bar",
+				"messages_en_US",
+				"fr",
+			]);
+			expect(logSpy).toHaveBeenCalledWith(
+				"warn",
+				expect.stringMatching(
+					/^Language strategy suffix did not match .*i18n\/foo-bar\.json, falling back to the filename\.$/,
+				),
+			);
+			expect(lokaliseUpload.fetchProjectLanguages).toHaveBeenCalledTimes(1);
+		});
+
+		it("should accept suffixes mapped to project languages", async () => {
+			const result = await lokaliseUpload.processFile(
+				"/project/i18n/messages_en_US.properties",
+				"/project",
+				{ languageStrategy: "suffix", languageMapping: { en_US: "en" } },
+				["fr", "en"],
+			);
+
+			expect(result.lang_iso).toBe("en");
+		});
+
+		it("should fetch project languages once with a preflight", async () => {
+			await lokaliseUpload.uploadTranslations({
+				dryRun: true,
+				collectFileParams: { inputDirs: ["/project/i18n"] },
+				processUploadFileParams: {
+					languageStrategy: "suffix",
+					languagePreflight: "skip",
+				},
+			});
+
+			expect(lokaliseUpload.fetchProjectLanguages).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	it("should reject unknown strategies before collecting files", async () => {
+		const collectSpy = vi.spyOn(lokaliseUpload, "collectFiles");
+
+		await expect(
+			lokaliseUpload.uploadTranslations({
+				processUploadFileParams: {
+					languageStrategy: "rails" as LanguageStrategy,
+				},
+			}),
+		).rejects.toThrow(new Error("Unknown language strategy: rails"));
+		expect(collectSpy).not.toHaveBeenCalled();
+	});
+});
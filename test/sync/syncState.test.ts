@@ -0,0 +1,62 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import mockFs from "mock-fs";
+import type { SyncState } from "../../lib/interfaces/index.js";
+import {
+	hashContent,
+	hashFile,
+	readSyncState,
+	writeSyncState,
+} from "../../lib/sync/syncState.js";
+import { afterEach, describe, expect, it } from "../setup.js";
+
+describe("Sync state", () => {
+	const stateFile = path.resolve("/project/.lokalise/sync.json");
+	const state: SyncState = {
+		version: 1,
+		lastSync: "2024-01-01T00:00:00.000Z",
+		bundleHash: "abc",
+		files: [{ entryName: "en.json", path: "en.json", hash: "def" }],
+	};
+
+	afterEach(() => {
+		mockFs.restore();
+	});
+
+	it("should write the state and read it back", async () => {
+		mockFs({ "/project": {} });
+
+		await writeSyncState(stateFile, state, "unique");
+
+		expect(await readSyncState(stateFile)).toEqual(state);
+		expect(fs.readdirSync(path.dirname(stateFile))).toEqual(["sync.json"]);
+	});
+
+	it("should return null for a missing state file", async () => {
+		mockFs({ "/project": {} });
+
+		expect(await readSyncState(stateFile)).toBeNull();
+	});
+
+	it.each([
+		["malformed JSON", "{"],
+		["an unknown version", JSON.stringify({ ...state, version: 2 })],
+		["missing files", JSON.stringify({ version: 1, bundleHash: "abc" })],
+	])("should report a state file with %s as invalid", async (_, content) => {
+		mockFs({ [stateFile]: content });
+
+		expect(await readSyncState(stateFile)).toBe("invalid");
+	});
+
+	it("should hash files and buffers the same way", async () => {
+		mockFs({ "/project/en.json": '{"hello":"Hello"}' });
+		const expected = crypto
+			.createHash("sha256")
+			.update('{"hello":"Hello"}')
+			.digest("hex");
+
+		expect(await hashFile("/project/en.json")).toBe(expected);
+		expect(hashContent(Buffer.from('{"hello":"Hello"}'))).toBe(expected);
+	});
+});
@@ -0,0 +1,194 @@
+import {
+	builtInFileValidators,
+	validateJson,
+	validatePo,
+	validateXml,
+	validateYaml,
+} from "../../lib/index.js";
+import { describe, expect, it } from "../setup.js";
+
+describe("Syntax validators", () => {
+	describe("JSON", () => {
+		it("should accept valid JSON with a BOM", async () => {
+			expect(await validateJson('﻿{"greeting": "Hello"}', "en.json")).toEqual(
+				[],
+			);
+		});
+
+		it("should report the line of a syntax error", async () => {
+			const [issue] = await validateJson(
+				'{\n  "a": "b",\n  "c" "d"\n}',
+				"en.json",
+			);
+
+			expect(issue?.line).toBe(3);
+			expect(issue?.column).toBe(7);
+		});
+	});
+
+	describe("XML", () => {
+		it("should accept well-formed documents", async () => {
+			const xliff = [
+				'<?xml version="1.0" encoding="UTF-8"?>',
+				"<!-- exported -->",
+				'<xliff version="1.2">',
+				'  <file source-language="en" target-language="fr">',
+				"    <body>",
+				'      <trans-unit id="a"><source>A &amp; B</source><target><![CDATA[<b>A</b>]]></target></trans-unit>',
+				'      <note from="x"/>',
+				"    </body>",
+				"  </file>",
+				"</xliff>",
+			].join("\n");
+
+			expect(await validateXml(xliff, "fr.xliff")).toEqual([]);
+		});
+
+		it.each([
+			["<a><b></a>", "Mismatched closing tag </a>, expected </b>", 1, 7],
+			["<a>\n  <b>\n</a>", "Mismatched closing tag </a>, expected </b>", 3, 1],
+			["<a>", "Unclosed tag <a>", 1, 1],
+			[
+				"<a>Tom & Jerry</a>",
+				"Unescaped '&' or undefined entity reference",
+				1,
+				8,
+			],
+			["<a>&nbsp;</a>", "Unescaped '&' or undefined entity reference", 1, 4],
+			['<a x="1" x="2"/>', "Duplicate attribute x", 1, 1],
+			["<a x=1/>", "Malformed tag or unescaped '<'", 1, 1],
+			["<a/><b/>", "Multiple root elements", 1, 5],
+			["text<a/>", "Text outside of the root element", 1, 1],
+			["<a><!-- oops</a>", "Unterminated comment", 1, 4],
+			["", "Missing root element", 1, 1],
+		])("should reject %j", async (xml, message, line, column) => {
+			expect(await validateXml(xml, "strings.xml")).toEqual([
+				{ message, line, column },
+			]);
+		});
+
+		it("should accept custom entities declared in a DTD", async () => {
+			const xml = '<!DOCTYPE a [<!ENTITY app "App">]>\n<a>&app;</a>';
+
+			expect(await validateXml(xml, "strings.xml")).toEqual([]);
+		});
+	});
+
+	describe("PO", () => {
+		it("should accept valid catalogs", async () => {
+			const po = [
+				"# Translator comment",
+				'msgid ""',
+				'msgstr ""',
+				'"Language: fr\\n"',
+				"",
+				"#: src/app.js:1",
+				'msgctxt "menu"',
+				'msgid "Open"',
+				'msgstr "Ouvrir"',
+				"",
+				'msgid "One file"',
+				'msgid_plural "%d files"',
+				'msgstr[0] "Un fichier"',
+				'msgstr[1] "%d fichiers"',
+			].join("\n");
+
+			expect(await validatePo(po, "fr.po")).toEqual([]);
+		});
+
+		it("should report every syntax error", async () => {
+			const po = [
+				'msgid "Open"',
+				'msgstr "Ouvrir',
+				"",
+				'msgid "Close"',
+				"",
+				'msgstr "Orphan"',
+				"garbage",
+			].join("\n");
+
+			expect(await validatePo(po, "fr.po")).toEqual([
+				{ message: "Malformed or unterminated string", line: 2 },
+				{ message: "msgid without msgstr", line: 4 },
+				{ message: "msgstr without msgid", line: 6 },
+				{ message: "Unrecognized line: garbage", line: 7 },
+			]);
+		});
+	});
+
+	describe("YAML", () => {
+		it("should accept valid documents", async () => {
+			const yaml = [
+				"en:",
+				'  title: "Say \\"hi\\""',
+				"  quote: 'It''s fine' # comment",
+				"  list: ['a', \"b\"]",
+				"  body: |",
+				'    Unbalanced " quotes are fine here',
+				'  multiline: "first',
+				'    second"',
+			].join("\n");
+
+			expect(await validateYaml(yaml, "en.yml")).toEqual([]);
+		});
+
+		it("should accept quotes inside plain values", async () => {
+			const yaml = [
+				'greeting: Say "hello" to everyone',
+				"b: It is 'great' indeed",
+				"c: Hello, 'friend'",
+				"d: a - 'b'",
+				"list:",
+				'  - Say "hi"',
+				"  - 'quoted'",
+				'flow: {"k": "v", other: \'x\'}',
+				"seq: [a, 'b', \"c\"]",
+				"nested:",
+				"  - - 'deep'",
+			].join("\n");
+
+			expect(await validateYaml(yaml, "en.yml")).toEqual([]);
+		});
+
+		it("should still check quotes that start a value", async () => {
+			const yaml = ['a: "open', "b: [x, 'y"].join("\n");
+
+			expect(await validateYaml(yaml, "en.yml")).toEqual([
+				{ message: "Unterminated quoted scalar", line: 1, column: 4 },
+			]);
+		});
+
+		it("should report tabs, stray characters, and unterminated quotes", async () => {
+			const yaml = [
+				"en:",
+				"\ttitle: Hello",
+				'  name: "Bob"s',
+				"  other: 'open",
+			].join("\n");
+
+			expect(await validateYaml(yaml, "en.yml")).toEqual([
+				{ message: "Tabs are not allowed in indentation", line: 2, column: 1 },
+				{
+					message: "Unexpected characters after a quoted scalar",
+					line: 3,
+					column: 14,
+				},
+				{ message: "Unterminated quoted scalar", line: 4, column: 10 },
+			]);
+		});
+	});
+
+	it("should register validators by lowercase extension", () => {
+		expect(Object.keys(builtInFileValidators).sort()).toEqual([
+			".arb",
+			".json",
+			".po",
+			".pot",
+			".xlf",
+			".xliff",
+			".xml",
+			".yaml",
+			".yml",
+		]);
+	});
+});